@@ -2,7 +2,8 @@ module.exports = {
   apps: [{
     name: "m3u-filter",
     script: "dist/app-controller.js",
-    instances: "max",
+    // A single instance: stream sessions (maxConnections) are counted in the memory of the process
+    instances: 1,
     exec_mode: "cluster",
     node_args: [
       "--max-old-space-size=768",
@@ -11,7 +12,8 @@ module.exports = {
       "--turbo-filter=M3UFilterStream|handleGetm3u"
     ],
     env: {
-      NODE_ENV: "production"
+      NODE_ENV: "production",
+      M3UFILTER_CONFIG: "./config.json"
     }
   }]
 };
@@ -1,1606 +0,0 @@
-import json
-import subprocess
-import os 
-
-GLOBAL_EXCLUDE_LIST = [
-
-# Chinese characters
-"歡", "喜", "臺", "亞", "洲", "劇", "龍", "華", "偶", "像", "洪", "金", "寶", "愛", "奇", "藝", "明", "珠", "州", "三", "峡", "移", "民", "影", "视", "科", "教", "综", "合", "虞", "新", "商", "都", "經", "濟", "文", "化", "南", "卫", "方", "国", "气", "天", "聞", "台", "宁", "江", "纪", "录", "清", "生", "活", "Ⅰ", "山", "公", "星", "体", "育", "太", "城", "電", "剧", "场", "农", "村", "頻", "道", "桃", "體", "漫", "卡", "通", "姚", "隆", "蒙", "古", "安", "凰", "中", "资", "讯", "香", "港", "德", "华", "川", "郭", "画", "京", "實", "财", "青", "年", "碚", "岛", "亭", "数", "信", "息", "十", "八", "娱", "乐", "少", "儿", "政", "心", "佳", "广", "東", "妇", "女", "童", "平", "冶", "二", "套", "悟", "爱", "海", "外", "才", "衝", "津", "妙", "性", "时", "尚", "底", "夏", "哥", "电", "徽", "郎", "溪", "铜", "陵", "美", "游", "戏", "章", "庭", "理", "有", "购", "物", "迁", "东", "居", "齐", "鲁", "西", "法", "治", "经", "阳", "县", "乡", "韶", "关", "水", "巴", "边", "坛", "春", "秋", "家", "界", "贾", "汪", "旅", "煌", "昌", "休", "闲", "泰", "党", "建", "視", "疆", "郑", "空", "慧", "森", "購", "原", "正", "英", "进", "苏", "连", "云", "市", "钱", "雅", "绍", "興", "际", "龙", "潭", "播", "测", "试", "动", "肃", "白", "窗", "事", "庄", "景", "石", "會", "直", "委", "內", "司", "制", "國", "防", "朝", "野", "協", "社", "福", "衛", "環", "球", "语", "品", "牛", "享", "续", "业", "財", "湖", "縣", "圖", "鄉", "艺", "藏", "爷", "集", "源", "庆", "郸", "泉", "沙", "地", "铁", "贸", "壁", "峰",
-
-# Russian characters
-"б", "в", "г", "д", "ё", "ж", "з", "и", "й", "к", "л", "м", "н", "п", "т", "ф", "ц", "ч", "ш", "щ", "ъ", "ы", "ь", "э", "ю", "я", "Б", "В", "Г", "Д", "Ё", "Ж", "З", "И", "Й", "К", "Л", "М", "Н", "П", "Т", "Ф", "Ц", "Ч", "Ш", "Щ", "Ъ", "Ы", "Ь", "Э", "Ю", "Я",
-
-# All other entries (alphabetized, case-sensitive, deduplicated)
-"Space City Home Network",
-"MSG",
-"Willow Cricket",
-"YES Network",
-"TSN1",
-"TSN2",
-"Best of Magnus Midtbø",
-"History Channel",
-"Nick Jr",
-"Discovery Channel",
-"Discovery Science",
-"Fox Business",
-#
-"SEC Network",
-"Science HD",
-"LMN HD",
-"Big Ten Network",
-"ACC Network",
-"BOOT",
-"Local Now Charlotte",
-"Very Carolina by",
-#
-"Alaska State Troopers",
-"Joysauce",
-"I Shouldn't Be Alive",
-#
-"The Raccoons",
-"Deal Masters",
-"Gustav & Linse",
-"One Piece",
-"Space Live",
-"80's Sitcom Flashback",
-"Sams Bar",
-"Man with a Plan",
-"Everybody Hates Chris",
-"Ridiculousness",
-"Little House on the Prairie",
-"Pluto TV Sherlock",
-"Pluto TV FBI",
-"Cagney & Lacey",
-"The Sherlock Holmes Channel",
-"Dollars",
-"Bull",
-"Numbers",
-"Dynastin",
-"Dynastiet",
-"Dr. Quinn, Medicine Woman",
-"Cine de Horror",
-"Cine Romántico",
-"Surf Cinema",
-"Todo Cine",
-"Weeds / Nurse Jackie",
-"Star Trek",
-"Farscape",
-"Stargate",
-"Battlestar Galactica",
-"Deep Space Nine",
-"The Great British Baking Channel",
-"The Prof G",
-"Feels Like Home",
-"All My Children",
-"Dinner Date",
-"The Millers",
-"Survive or Die",
-"Metal.Rocks",
-"Lifetime Movie",
-"Entertains",
-"HBO Boxing",
-"The Repair Shop",
-"On Patrol: Live",
-"Space & Beyond",
-"Speed Sport",
-"Medical Incredible",
-"Monsters are Real",
-"Garden with Monty Don",
-"Chef vs Chef",
-"Home Cooking",
-"Caracol Mix",
-"AddictaTV",
-"Shockwave",
-"Hoarders",
-"Dog Vs Duck",
-"Whose Line Is It Anyway",
-"The New Adventures",
-"Pluto TV Tough Jobs",
-"Paranormal State",
-"Sensing Murder",
-"The L Word",
-"The 4400",
-"Bud & Terence",
-"FRESH PRINCE OF BEL-AIR",
-"GOLDEN GIRLS",
-"FULL HOUSE",
-"DRAGON BALL ",
-"PAW PATROL",
-"FRIENDS",
-"SEINFELD",
-"Travel Escape",
-"Dating Naked UK",
-"Complex TV",
-"Crazy Ex-Girlfriend",
-"Pluto TV Paranormal",
-"Beyond Paranormal",
-"Ghosts Are Real",
-"Pluto TV Overnaturlig",
-"APTN Beyond",
-"Paranormal Files",
-"CA TSN ",
-"One America News",
-"MotorTrend",
-"US UniMas",
-"ETV Telugu USA",
-"NBCLX",
-"Poker Go",
-"Black News Channel",
-"Food Network",
-"Game Show Network",
-"DOGTV",
-"Military History",
-"US American Heroes Channel",
-"Baby First HD",
-"TCT Network",
-"WNET-DT1",
-"Pomona Internet Streaming Channel",
-"Midpen Media Center Government",
-"Scientology Network",
-"Let's Make a Deal",
-"Tony Robbins Network",
-"GrowthDay Network",
-"Fight Network",
-"Cricket Gold",
-"Sweet Escapes",
-"Matched Married Meet",
-"Get.Factual",
-"Retake E-sport Live",
-"Perform by Lifetime",
-"Dance Moms by Lifetime",
-"Supermarket Sweep",
-"Logo East",
-"PickleTV",
-"Primetime Soaps",
-"Teletubbies",
-"LOGO TV",
-"US HISTORY",
-"US History",
-"US Discovery",
-"US Nick JR",
-"Family Jr HD",
-"CA YTV East",
-"CA Treehouse (R)",
-"#SayWhat?!",
-"00s Replay",
-"10 NBC WJAR",
-"10 NBC WJAR - (Providence RI*)",
-"123 GO!",
-"123GO!",
-"21 Jump Street",
-"24 Hour Free Movies",
-"2900 Happiness",
-"30A Ridiculous TV ",
-"30A Sidewalks ",
-"30A TV Classic Movies",
-"365BLK",
-"48 Hours",
-"4UV",
-"5-Minute Crafts",
-"50 Cent Action",
-"^50 Cent Action$",
-"6 NEWS NBC - WJAC",
-"6 NEWS NBC - WJAC - (Johnstown PA*)",
-"60 Days In",
-"70s Cinema",
-"7th Heaven",
-"80s Rewind",
-"9 Story Presents: Garfield and Friends",
-"90s Throwback",
-"A Haunting",
-"A New Life in the Sun",
-"A Touch of Frost",
-"A&E Crime 360",
-"A&E East  ",
-"A&E SD",
-"ABC 13 News - WLOS",
-"ABC 13 News - WLOS - (Asheville NC*)",
-"ABC 20/20",
-"ABC 5 - KSTP",
-"ABC 5 - KSTP - (Minneapolis-St. Paul MN)",
-"ABC 6 - WSYX",
-"ABC 6 - WSYX - (Columbus OH*)",
-"ABC 6 NEWS - KAAL - (Minnesota & Iowa)",
-"ABC 7 - WJLA - (Washington DC*)",
-"ABC NEWS 4 - WCIV",
-"ABC NEWS 4 - WCIV - (Charleston SC*)",
-"ABN ",
-"Acapulco Shore",
-"ACCDN",
-"ACL Cornhole",
-"Acorn TV Mysteries",
-"Action Hollywood Movies",
-"Addams Family",
-"Advent Calendar",
-"Adventure Earth",
-"Aftershock",
-"Akaku",
-"AKC TV",
-"Al Jazeera",
-"Al-Fady",
-"Al-MahdiTV",
-"ALF",
-"Alfred Hitchcock",
-"Alhurra",
-"Alien Nation by DUST",
-"Aliwko",
-"Alkarma",
-"All Reality We TV",
-"All Weddings We TV",
-"ALLBLK",
-"Almagd",
-"Alternative",
-"Always Funny",
-"Always Funny Videos",
-"Amasian TV",
-"AMC Absolute Reality",
-"AMC SD",
-"America's Funniest Home Videos",
-"American Crime Channel",
-"American Crimes",
-"American Gladiators by MGM",
-"American Heroes Channel HD",
-"American Heroes Channel SD",
-"American Ninja Warrior",
-"AMG TV ",
-"Ancient Aliens",
-"Andromeda",
-"Andy Griffith Show",
-"Anger Management",
-"Animal Planet",
-"Animation+",
-"Anime 24/7",
-"ANIME x HIDIVE",
-"AnimeCrush",
-"Antiques Road Trip",
-"Antiques Roadshow UK",
-"Apple Valley Channel",
-"Arabica",
-"Arabiya",
-"Are We There Yet?",
-"Are You The One",
-"Arthur",
-"Asian Drama",
-"AsianCrush",
-"At Home with Family Handyman",
-"At the Movies",
-"ATXN",
-"Auction Hunters",
-"Autopista",
-"Avang TV",
-"Avatar",
-"Aventura",
-"AWE plus",
-"Awkward",
-"Ax Men by History",
-"AXS TV Now",
-"Ayeneh",
-"Azteca",
-"B4U",
-"Baby Einstein",
-"BABY SHARK TV",
-"BACKSTAGE",
-"Bar Rescue",
-"Barbie and Friends by Mattel",
-"Barney and Friends",
-"Bassmaster",
-"Baywatch",
-"BBC America",
-"BBC America SD",
-"BBC Earth",
-"BBC Food",
-"BBC Game",
-"BBC Home",
-"BBC News",
-"BBC Travel",
-"BBC World News",
-"BBS News",
-"Beach TV",
-"Beauty and the Beast",
-"Becker",
-"beIN Sports",
-"Bes Kardes",
-"BET",
-"BET East",
-"BET Gospel",
-"BET Her East",
-"BET Jams",
-"BET Pluto",
-"BET Pluto TV",
-"BET Soul",
-"BET x Tyler Perry Comedy",
-"BET x Tyler Perry Drama",
-"Beverly Hillbillies",
-"Beverly Hills 90210",
-"Beyblade",
-"Beyond Belief",
-"Beyond the Gates",
-"Big Civic Channel",
-"Big Community Channel",
-"Billiard",
-"Biz TV",
-"Bizaar",
-"Bizarre Foods with Andrew Zimmern",
-"Black Cinema",
-"Black Classics",
-"Black Family Sitcoms",
-"Black Ink Crew",
-"Black Throwbacks",
-"Black TV",
-"Black Visionaries",
-"BlackPix",
-"Bloodline Detectives Hosted by Nancy Grace",
-"Bloomberg",
-"Bloomfield Access",
-"Blue Bloods",
-"Bob Ross",
-"Bob Ross Channel",
-"Bodas +",
-"Boligjakten",
-"BollyWood",
-"Bollywood",
-"Bonanza",
-"Bonanza-Billies",
-"Bondi Rescue",
-"Bondi Vet",
-"Boomerang SD",
-"Bounce XL",
-"Bowling TV",
-"Box Gamers",
-"Boxing TV",
-"Brat TV",
-"Bravo SD",
-"Bravo Vault",
-"Braxton Family Values",
-"Bridezillas",
-"BritBox Mysteries",
-"Buen Viaje",
-"Butaca",
-"Buzzr",
-"BX ",
-"BYUtv",
-"C-SPAN",
-"C4 en Alerta",
-"Calabasas Channel ",
-"Camera Smile ",
-"Camp Kulinaris",
-"CAN TV",
-"Canal+ Sport",
-"Canela",
-"Car Chase",
-"Carol Burnett",
-"Carol Burnett Show",
-"Caroline in the City",
-"Cash In The Attic",
-"Catfish UK",
-"Catholic TV",
-"Caught in Providence",
-"CBC News",
-"CBN ",
-"CBS 12 - WPEC",
-"CBS 12 - WPEC - (West Palm Beach FL*)",
-"CBS 2 News - KUTV",
-"CBS 2 News - KUTV - (Salt Lake City UT*)",
-"CBS 21 News - WHP",
-"CBS 21 News - WHP - (Harrisburg PA*)",
-"CBS 4 News - KDBC",
-"CBS 4 News - KDBC - (El Paso TX*)",
-"CBS Austin - KEYE",
-"CBS Austin - KEYE - (Austin TX*)",
-"CBS News",
-"CBS Sports",
-"CCTV",
-"Celebrity Name Game",
-"Celebrity Scene TV",
-"Cerrado",
-"Cesar's Pack Leader TV",
-"Chaos on Cam by A&E",
-"Chappelle's Show",
-"Charge! ",
-"Charlotte County CC-TV (Charlotte County FA) ",
-"Charterfeber",
-"Chasing Criminals",
-"Cheaters",
-"Cheddar",
-"Cheddar News",
-"Cheers",
-"Choppertown",
-"Christian Youth",
-"Christmas",
-"Christmas 365",
-"Christmas Plus",
-"Cinépolis Channel",
-"Circle ",
-"Cirque du Soleil",
-"Classic Car Auctions",
-"Classic Movies Channel",
-"Classic Rock",
-"Classica",
-"Clic",
-"Cloudflare TV",
-"Clubbing TV France",
-"CMT SD",
-"CNBC",
-"CNN",
-"CNÑ XPRESS",
-"CoastTV NBC (WRDE-LD)  ",
-"Cold Case Files",
-"Cold Case Files by A&E",
-"Combat War Channel",
-"CombaTV",
-"Come Dine With Me",
-"Comedy Central SD",
-"Comedy Dynamics",
-"Conan O'Brien",
-"Confess by Nosey",
-"Conners",
-"Construcciones Asombrosas",
-"Continuum",
-"Cooking Channel",
-"COPS",
-"Corazón",
-"Corner Gas",
-"Cosmic Frontiers",
-"Court TV",
-"Court TV Legendary Trials",
-"Cowboy Channel",
-"Cowboy Classics",
-"Cowboy Movie Channel",
-"CraftsyTV",
-"Creator Television",
-"Crime & Justice",
-"Crime 24/7",
-"Crime 360",
-"Crime 360 by A&E",
-"Crime Scene Solvers",
-"Crime Scene TV",
-"Crime Scenes",
-"Crime ThrillHer",
-"Crimen",
-"Criminal Minds",
-"Crímenes imperfectos",
-"Crímenes Verdaderos",
-"CSat TV",
-"CSI",
-"CSI: Miami",
-"CSI: NY",
-"CSPAN",
-"Cuando Los Angeles Caen",
-"Curiosity NOW",
-"Curse of Oak Island",
-"CUT",
-"Cutlers Court",
-"CW Forever",
-"CW Gold",
-"Danger TV",
-"Dateline",
-"Dateline 24/7",
-"Dawson's Creek",
-"DAZN",
-"De største bedrag",
-"Deadly Women",
-"Deal or No Deal",
-"Death Valley Days",
-"Decades",
-"Declassified",
-"Degrassi",
-"Del Mar TV ",
-"Delito",
-"Demand Africa",
-"Den gode gerning",
-"DerryTV",
-"Desi Play TV",
-"Design Network",
-"Designated Survivor",
-"Dhar Mann",
-"Diagnosis Murder",
-"Dick Van Dyke",
-"Dick Van Dyke Show",
-"Discovery Family",
-"Discovery HD",
-"Discovery Life",
-"Discovery SD",
-"Discovery Turbo TV",
-"Disney",
-"Divorce Court",
-"Djazz",
-"Doc Martin",
-"Doctor Who",
-"Documentary + Science",
-"Documentary+",
-"Dog Whisperer",
-"Don't Tell The Bride",
-"Dove",
-"Dove Channel",
-"DP World Tour",
-"Dr Phil's MeritTV ",
-"Dr. Gene Scott",
-"Dr. Phil",
-"Drew Barrymore Show",
-"Drool",
-"Dry Bar Comedy ",
-"Duck Hunting TV",
-"Dude Perfect",
-"Dungeons & Dragons Adventures",
-"Dynasty",
-"E! East  ",
-"E! Keeping Up",
-"E! SD",
-"EarthXtra",
-"Easy Listening",
-"Ebony",
-"Ebony TV Drama",
-"Ed Sullivan",
-"Ed Sullivan Show",
-"Eddie's Wonderland",
-"Eggheads",
-"El Reino Infantil",
-"El Rey",
-"Electric Now",
-"Emoción Atres",
-"EMOCIÓN ATRES TV",
-"Entertainment Tonight",
-"Envoy FAST",
-"Español",
-"ESPN",
-"Estrella",
-"Euro Hits",
-"Euro News",
-"Euronews",
-"Eventyrlig Oppussing",
-"Evidence of Evil",
-"Expedientes Sobrenaturales",
-"Extrema TV ",
-"Extreme Jobs",
-"F1 Channel",
-"Fact or Fiction",
-"FailArmy",
-"Family Affair Channel",
-"Family Feud",
-"Family Hour TV",
-"Family Ties",
-"FanDuel",
-"FanDuel TV Extra",
-"Fangene på Fortet",
-"Fashion TV",
-"FBI Files",
-"FCK Løvinderne",
-"Fear Factor",
-"Feel Good Drama",
-"Feva TV",
-"FGTeeV",
-"Fidele TV   ",
-"FIFA",
-"Fifth Gear",
-"FILMEX",
-"FilmRise Action",
-"FilmRise Anime",
-"FilmRise Concursos de Cocina",
-"Filmrise Creators",
-"FilmRise Free Movies",
-"FilmRise Kids",
-"FilmRise Music",
-"FilmRise Series Gratis",
-"FilmRise True Crime",
-"FilmRise Western",
-"Final Conflict",
-"Fireplace",
-"First 48",
-"Flashback 70s",
-"Flashpoint",
-"Flicks of Fury",
-"FLOU Detonación",
-"Flowers TV USA",
-"Football",
-"Forensic Files",
-"Fork & Flight",
-"Four in a Bed",
-"FOX 11 - WLUK",
-"FOX 11 - WLUK - (Green Bay WI*)",
-"Fox 25 - KOKH",
-"Fox 25 - KOKH - (Oklahoma City OK*)",
-"Fox 26 - KMPH",
-"Fox 26 - KMPH - (Fresno CA*)",
-"FOX 9 - WTOV",
-"FOX 9 - WTOV - (Steubenville OH*)",
-"Fox Business Network",
-"Fox News",
-"Fox News Channel",
-"FOX Soul",
-"Fox Soul",
-"FOX Sports",
-"FOX45 WBFF Baltimore",
-"FOX45 WBFF Baltimore - Free Live Local News Stream",
-"FRANCE 24",
-"France 24",
-"Frasier",
-"Free Movies Plus",
-"Freeform SD",
-"FreeTV",
-"FUEL TV",
-"Funniest Home Videos",
-"Funny AF",
-"Funny Or Die",
-"Funny Or Die Inc.",
-"^Funny Or Die Inc.$",
-"Fuse HD SD",
-"FX Latin",
-"FX Movie SD",
-"FX SD",
-"FXX SD",
-"FYI SD",
-"GAGS",
-"Galxy TV",
-"Game & Fish TV",
-"Game Show Central",
-"GameTVGO",
-"Ganj e Hozour TV",
-"Gardening with Monty Don",
-"Gata Salvaje",
-"GenB TV",
-"Generation Drama",
-"Geraldo Rivera",
-"Ghost Dimension",
-"Ghost Hunters",
-"Gilroy CMAP TV Channel 19 ",
-"Girlfriends",
-"Glewed TV",
-"GlobalWorldTV ",
-"GLORY Kickboxing",
-"Go Wild",
-"GOD TV",
-"Golf Channel",
-"GOLFPASS",
-"Gone Fishing",
-"Good Wife",
-"Gospel Truth",
-"GoTraveler",
-"GoUSA TV",
-"Graham Norton",
-"Graham Norton Show",
-"Gravitas Adrenaline",
-"Gravitas Documentaries",
-"Gravitas Movies",
-"Great American Adventures",
-"Great British Menu",
-"Green Acres",
-"Grit Xtra",
-"Gritos TV",
-"Grjngo - Western Movies",
-"Grjngo Western Movies ",
-"Gunsmoke",
-"GUSTOTV",
-"GuyBai TV",
-"Hallmark",
-"Hallmark Movies",
-"Hallmark Movies & More",
-"Happy Days",
-"Hard Knocks",
-"Hardcore Pawn",
-"Harlequin",
-"Hasbro Legends",
-"Haunt TV",
-"HauntTV",
-"Hawaii Five-0",
-"Hawaii Five-O",
-"HBO 2 East SD",
-"HBO Comedy HD SD",
-"HBO East SD",
-"HBO Family East SD",
-"HBO Signature SD",
-"HBO Zone HD SD",
-"Health Media TV",
-"Hearties",
-"Heartland",
-"Hell's Kitchen",
-"Hercules",
-"Hersphere",
-"HGTV",
-"Hi-Yah!",
-"Hi-YAH!",
-"Highway Thru Hell",
-"Highway to Heaven",
-"Hindi",
-"Hip-Hop/R&B",
-"Hipstr",
-"History & Warfare",
-"History HD",
-"History Hit",
-"History SD",
-"Hit List",
-"Hit Sitcoms",
-"HLN SD",
-"Hogan's Heroes",
-"Holiday Hits",
-"Hollywire",
-"Homeful",
-"Hong Kong Fight Club",
-"Hope Channel",
-"Horreya",
-"Hot Bench",
-"Hot Country",
-"Hot Ones",
-"Hot Wheels Action",
-"House of Lies",
-"How To",
-"How To Use Pluto TV",
-"HSN",
-"Humor Mill",
-"Humor Mill TV",
-"Hunt Fish TV",
-"Hunter",
-"^Hunter$",
-"I Love Lucy",
-"I Survived",
-"iCarly TV",
-"Ice Pilots NWT",
-"Ice Road Truckers",
-"Ideas En 5 Minutos",
-"IFC Films Picks",
-"IFC SD",
-"Imagine PlayWorld",
-"Iman TV",
-"Impossible - Quiz Show",
-"Impossible Quiz Show",
-"In The Heat of the Night",
-"In The Heat Of The Night by MGM",
-"Inazuma Eleven",
-"InfoWars",
-"Inside Crime",
-"Inside Edition",
-"INTER 24/7",
-"Internacional",
-"INTRAVEL",
-"INTROUBLE",
-"Investigation",
-"INWILD",
-"INWONDER",
-"ION",
-"ION Plus",
-"Iron Chef",
-"Ironside",
-"Islam Channel",
-"It Is Written TV",
-"ITV Deportes",
-"Jade Fever",
-"JAG",
-"JAIL",
-"Jalwa",
-"JBS",
-"Jersey Shore",
-"Jewelry TV",
-"JLTV",
-"Johnny Carson",
-"Johnny Carson TV",
-"Journy",
-"Jubao",
-"Judge Faith",
-"Judge Judy",
-"Just for Laughs",
-"Just For Laughs Gags",
-"Just for Laughs Gags",
-"Justice Central TV",
-"Juventud Renovada en el Espiritu Santo",
-"K-Baseball TV",
-"K-Content",
-"K-Drama",
-"K-Movie",
-"K-Pop",
-"K-Stories",
-"Kajou TV",
-"Karadayi",
-"Kartoon Channel!",
-"KATU 2 ABC",
-"KATU 2 ABC - (Portland OR*)",
-"KCWE",
-"KCWX",
-"Key & Peele",
-"KFMB  ",
-"KFTR",
-"KIDDO+",
-"Kidoodle TV",
-"KidsFlix",
-"Kidz Bop",
-"Kim's Convenience",
-"King of Queens",
-"Kitchen Serbia",
-"Klovn",
-"KMCI",
-"KMCT ",
-"KMEX",
-"KMIZ ",
-"KMOVIES",
-"KNLJ ",
-"KOB 4",
-"KOB 4 - (Albuquerque NM)",
-"KOMO NEWS 4 - ABC",
-"KOMO NEWS 4 - ABC - (Seattle WA*)",
-"KOMU ",
-"KPOP+",
-"KPXE",
-"KQED",
-"KRCG ",
-"KRGV",
-"KSCN",
-"KSHB ",
-"KSL TV 5 News",
-"KSL-TV -5",
-"KSL-TV -5 - (Salt Lake City UT)",
-"KTIV",
-"KTLA",
-"KTVO ",
-"Kung Fu Movies",
-"Kungen",
-"KVIE",
-"KVVB-TV 33 Victor Valley  ",
-"KYOU ",
-"La Fiebre del Jade",
-"La Que Buena Atlanta",
-"Lacrosse TV",
-"Lakewood Channel 8 (Lakewood CO) ",
-"Las Vegas",
-"Lassie",
-"Latino",
-"LATV",
-"Law & Crime",
-"Lawless",
-"Leave It to Beaver",
-"Legacy",
-"LEGO",
-"Letterman TV",
-"Life Down Under",
-"Life with Derek",
-"Lifetime Love",
-"Lifetime Movies",
-"Live Music",
-"Live PD",
-"Live PD Presents",
-"LiveNOW from FOX",
-"Living with Evil",
-"LMN SD",
-"Local 12 - WKRC",
-"Local 12 - WKRC - (Cincinnati OH*)",
-"Local Now DC",
-"Local Now Hagerstown",
-"Logo HD",
-"Logo Pluto TV",
-"Logo SD",
-"Logos TV",
-"LOL Network",
-"LOL! Network",
-"Lompoc TAP TV Channel 23  ",
-"Lone Star",
-"Los Asesinatos de Midsomer",
-"Love & Hip Hop",
-"Love & Marriage",
-"Love After Lockup We TV",
-"Love Boat",
-"Love Island",
-"Love Nature",
-"Love Pets",
-"Love Stories",
-"Love Thy Neighbor",
-"Lucha",
-"Luksusfellen",
-"LX Home Streaming",
-"Lyxfällan Norge",
-"MacGyver",
-"Made In Hollywood",
-"Made It Myself TV",
-"MagellanTV Wildest",
-"Masked Singer",
-"Master Chef",
-"Matlock",
-"Mattel Jr.",
-"Mayday Air Disaster",
-"MBC",
-"McLeod's Daughters",
-"McLeods Daughters",
-"McLeods døtre & Grantchester",
-"Medical Examiner",
-"Medium",
-"Melrose Place",
-"Merry Christmas from Viafree",
-"MGM Presents",
-"MGM Presents: Action",
-"MGM Presents: Westerns",
-"MHz Now",
-"Mi Casa",
-"Mi Miedo Canal",
-"Mi Raza",
-"Mi Raza Canal",
-"MI-5",
-"Miami",
-"Midnight Pulp",
-"Midsomer Murders",
-"Million Dollar Dream Home",
-"Million Dollar Listing Vault",
-"Miramax Movie Channel",
-"Miss Universe",
-"Mission Impossible",
-"Misterios",
-"MLB",
-"MMA",
-"Modern Innovations by History",
-"Modern Marvels by History",
-"Moesha",
-"Mona the Vampire",
-"Monkey",
-"Monster Jam",
-"Moonbug Kids",
-"More True Crime",
-"More TV Crime",
-"More U",
-"MoreMAX SD",
-"MotoGP Channel",
-"Motorsport.tv",
-"MotorTrend FAST TV",
-"MotorTrend HD",
-"Movie Favorites By Lifetime",
-"Movie Favorites by Lifetime",
-"Movie Hub",
-"Movieitaly Channel",
-"MovieMAX SD",
-"MOVIESPHERE",
-"Mr. Bean",
-"Mr. Bean Animated",
-"Mr. Bean Live Action",
-"MrBeast",
-"MSNBC",
-"MST3K",
-"MTC TV",
-"MTV",
-"MTV Pluto TV",
-"MTV Ridiculousness",
-"Murdoch Mysteries",
-"Music Legends",
-"Mutant X",
-"MVStv",
-"My Little Pony",
-"My Money",
-"Mysteria",
-"Mysteries Xplored",
-"Mysterious Worlds",
-"Mystery Science Theater 3000",
-"^Mystery Science Theater 3000$",
-"MythBusters",
-"Mythbusters",
-"Mythical 24/7",
-"MyTime Movie Network",
-"Nanny",
-"Nash Bridges",
-"Nashville",
-"Nastya",
-"Nat Geo",
-"National Geographic",
-"National Lampoon",
-"Naturaleza",
-"Naturaleza Salvaje",
-"NBA",
-"NBC 10 Providence MA ",
-"NBC 4 Washington News",
-"NBC 5 Chicago Live News ",
-"NBC LX Home ",
-"NBC News NOW",
-"NBC Universo West ",
-"NCIS",
-"NDTV",
-"NESN NATION",
-"NEW K.MOVIES",
-"NEW KFOOD",
-"NEW Korean",
-"News 12 New York",
-"NEWS 22 ABC - WKEF",
-"NEWS 22 ABC - WKEF - (Dayton OH*)",
-"News 3 NBC - KSNV - (Las Vegas NV*)",
-"News 4 - WOAI",
-"News 4 - WOAI - (San Antonio TX*)",
-"News 9 - KWTV",
-"News 9 - KWTV - (Oklahoma City OK)",
-"News Channel 3 CBS - WWMT",
-"News Channel 3 CBS - WWMT - (Grand Rapids MI*)",
-"News On 6 - KOTV",
-"News On 6 - KOTV - (Tulsa OK)",
-"News10NBC - WHEC",
-"News10NBC - WHEC - (Rochester NY)",
-"News12",
-"NewsChannel 13 - WNYT",
-"NewsChannel 13 - WNYT - (Albany NY)",
-"Newsmax",
-"Newsworld",
-"Newsy",
-"Next Generation",
-"Next Top Model",
-"NFL",
-"NHK",
-"NHL",
-"NHRA",
-"Nick Jr.",
-"Nickelodeon",
-"Nicktoons",
-"Nikita",
-"Ninja Kidz TV",
-"Ninja Warrior",
-"Nip/Tuck",
-"NitroCircusTV",
-"Nolly Africa HD",
-"Nonstop Kung Fu",
-"Noovo cinéma",
-"Noovo Ça c’est drôle",
-"Northern Exposure",
-"Nosey",
-"Nothin' But 90s",
-"Novela",
-"Novelisima",
-"NTD",
-"Numb3rs",
-"OAN Encore",
-"OAN plus",
-"OCN TV",
-"Old West TV",
-"Olelo Community Media Channel 55 ",
-"Omide Iran",
-"On the Case",
-"OnDemandChina",
-"ONE Championship TV",
-"Operation Repo",
-"Original Series",
-"Oro TV",
-"Outdoor Channel",
-"OuterSphere by Lionsgate",
-"Outlaw",
-"Outside",
-"Outside TV",
-"Overtime",
-"OWN SD",
-"Oxygen True Crime Archives",
-"Oxygen True Crime SD",
-"Oxygen True Crimes Archive",
-"P3TV",
-"Pac-12 Insider",
-"Paradise",
-"Paradise Hotel",
-"Pars TV",
-"party tyme karaoke",
-"Paternity Court",
-"Paws & Claws",
-"Payam",
-"Payvand",
-"PBS",
-"PeliMex",
-"Películas",
-"Penn & Teller",
-"People are Awesome",
-"Perry Mason",
-"Pet Collective",
-"PGA TOUR",
-"PickleballTV",
-"Pimp my Ride",
-"Pink Panther",
-"Pitufo",
-"PixL TV",
-"Places & Spaces",
-"Plex24",
-"PLL Network",
-"Pluto TV Alien Invasion",
-"Pluto TV Anime",
-"Pluto TV Buskis",
-"Pluto TV Christmas in Summer",
-"Pluto TV Crime",
-"Pluto TV Erotica",
-"Pluto TV Game Shows",
-"Pluto TV Handboll",
-"Pluto TV John Wayne",
-"Pluto TV Lives",
-"Pluto TV Merhaba Turkish Drama",
-"Pluto TV Military",
-"Pluto TV Motor",
-"Pluto TV Romance",
-"Pluto TV Romantik",
-"Pluto TV Trending Now",
-"Pluto TV True Crime",
-"Pluto TV Westerns",
-"Pluto TV Wild West",
-"Pointless",
-"Poker Night",
-"PokerGO",
-"Pokémon",
-"Polly Pocket",
-"Pop Adult",
-"Popstar! TV",
-"Popular Science",
-"Portlandia",
-"Positiv ",
-"Positiv TV",
-"Potta-Divine",
-"Power Rangers",
-"PowerNation",
-"Premier League",
-"Preston & Brianna",
-"Prime Suspect",
-"Project Runway",
-"Property & Reno",
-"Property Brothers",
-"Punk'd",
-"Pursuit Channel ",
-"PursuitUP",
-"PVS TV",
-"Qello Concerts",
-"QVC",
-"QVC2",
-"Qwest TV",
-"RACER International",
-"RACER Select",
-"Racing America",
-"Rainbow Ruby",
-"Rakuten Viki",
-"Rally TV",
-"Rawhide",
-"RCM",
-"RCN Más",
-"RCN Noticias",
-"Real America's Voice ",
-"Real Crime",
-"Real Disaster Channel",
-"Real Housewives",
-"Real Housewives Vault",
-"Real Wild",
-"Red Green Channel",
-"Red Green Show",
-"Red Shoe Diaries",
-"ReelzChannel SD",
-"Remember the ‘80s",
-"Renegade",
-"RetroCrush",
-"Reuters",
-"Rev and Roll ",
-"Revolt",
-"Revolt Mixtape",
-"Revry",
-"RFD-TV",
-"RiffTrax",
-"Rifle Community TV RCTV",
-"Rig TV",
-"RightNow TV",
-"River Monsters",
-"Roar ",
-"Robinsonekspedisjonen",
-"Robot Wars by MECH+",
-"Rocky and Bullwinkle",
-"Romance 365",
-"Rookie Blue",
-"Rugby Pass TV",
-"Runtime",
-"Runtime Sangre Fría",
-"Ryan and Friends",
-"Saborear TV",
-"Sabrina the Teenage Witch",
-"Salem News Channel",
-"Samsung Wild Life   ",
-"Samuel Goldwyn Channel",
-"Saudi",
-"Saved by the Bell",
-"Say Yes to the Dress",
-"Scare Tactics",
-"Science SD",
-"Scorpion",
-"Scripps",
-"Series K ",
-"Shabakeh 7",
-"Shades of Black",
-"Shalom",
-"Shaun the Sheep and Friends",
-"She Wrote",
-"Sheriffs: El Dorado County",
-"Shop LC",
-"Shopping Channel",
-"Shout! Movies",
-"Shout! TV",
-"Showtime (E) SD",
-"SHOWTIME 2 SD",
-"Simba Prisen",
-"Sister",
-"Sketchy AF",
-"SKWAD",
-"Sky Sport",
-"Sky Sports",
-"Skål",
-"Slick Slime Sam",
-"Slightly Off IFC",
-"SLO County Channel 21 ",
-"SLOPES",
-"Smithsonian",
-"Smooth Jazz",
-"Smurf",
-"SNL Vault",
-"Snooker 900",
-"So Yummy",
-"So... Real",
-"Sonic The Hedgehog",
-"Sonic TV",
-"Sony Canal Escape Perfecto",
-"Soul Flix",
-"Soul Storm",
-"South Park",
-"South Park En Français",
-"Southeastern Channel",
-"Spark TV",
-"Sparkle Movies - Light & Love",
-"Speedvision",
-"SPIN",
-"Spoopy",
-"SPORTS",
-"Sports",
-"Sports Channel",
-"SPUK",
-"SSTV",
-"Stadium",
-"Stars Central",
-"Startalk TV",
-"STARZ East SD",
-"Stingray",
-"Storage Wars by A&E",
-"Stories by AMC",
-"Strawberry Shortcake",
-"Strongman",
-"SUMO",
-"Super Channel Hearties",
-"Super Mario ",
-"Surf Now TV",
-"Surfer TV",
-"Survivor",
-"Survivorman",
-"Swarnavahini",
-"Swerve Combat",
-"SYFY SD",
-"Taiwan Plus TV ",
-"Tales from the Darkside",
-"Talkin Live Classics TV ",
-"Tapesh 2",
-"Tastemade",
-"Taxi",
-"TBN",
-"TBS SD",
-"TCM SD",
-"TED",
-"Teen Mom UK",
-"Teen Wolf",
-"TeenNick",
-"Teenvee",
-"Tele Boston ",
-"TeleMIX ",
-"Telemundo",
-"Teleonce America",
-"Temecula TV (Temecula CA) ",
-"Tempe Channel 11",
-"Tennis",
-"TG Junior",
-"That Girl",
-"The Addams Family",
-"The Amazing Race",
-"The Archive ",
-"The Asylum",
-"The Biggest Loser",
-"The Black Effect",
-"The Boat Show",
-"The Bold and the Beautiful",
-"The Challenge",
-"The CW (WPIX New York) SD",
-"The Doctor Blake Mysteries",
-"The Doctors",
-"The Ellen Channel",
-"The Emeril Lagasse Channel",
-"The F.B.I.",
-"The FBI",
-"The FBI Files",
-"The First 48",
-"The Grio",
-"The Hill TV",
-"The Hills",
-"The Incredible Hulk",
-"The Jamie Oliver Channel",
-"The Jim Rome Show",
-"The Librarians",
-"The Lost World",
-"The Martha Stewart Channel",
-"The Movie Channel East SD",
-"The New Detectives",
-"The Osbournes",
-"The Outer Limits",
-"The Outpost",
-"The Price Is Right",
-"The Rifleman",
-"The Spa",
-"The UnXplained with William Shatner",
-"The Walk TV ",
-"The Walking Dead Espanol",
-"The Walking Dead Universe",
-"The Wicked Tuna Channel",
-"The Wiggles",
-"The Wild Wild West",
-"The Yellow Couch with Jeremy Lynch",
-"TheGrio",
-"This Old House",
-"Three's Company",
-"Timeline ",
-"Tin TV",
-"Tiny House Nation",
-"TLC",
-"TMZ",
-"TNA Wrestling Channel",
-"TNT SD",
-"TODAY All Day",
-"Todo Crimen",
-"Todo Drama",
-"Toon Goggles",
-"Toonami",
-"Toony Planet",
-"Top Barça",
-"Top Chef",
-"Top Gear",
-"Tosh.0",
-"Total Crime",
-"Touched by an Angel",
-"TRACE Brazuca",
-"TRACE Latina",
-"TRACE Urban",
-"Trailer Park Boys",
-"Transformers",
-"Travel Channel",
-"Travel Escapes",
-"Travel XP",
-"Tribeca Channel",
-"Triton Poker",
-"TruBlu",
-"True crime från Viaplay",
-"True Crime Now",
-"True Crime UK",
-"True History",
-"truTV SD",
-"TSTV ",
-"TuDiscovery",
-"TUDN  ",
-"Turismo HD ",
-"TuWarner",
-"TV Amor",
-"TV Asia ",
-"TV One Crime & Justice",
-"TV One HD SD",
-"TVB Pearl Drama",
-"TVOAI",
-"TVOne Stars & Stories",
-"TVS ",
-"Twilight Zone",
-"U&Laughs",
-"UFC",
-"Unbeaten",
-"Unidentified",
-"Unique Lives",
-"Universal Action",
-"Universal Crime",
-"Universal Kids",
-"Unleashed by DOGTV",
-"Unsolved Mysteries",
-"Unspeakable",
-"Untold Stories of the ER",
-"UnXplained Zone",
-"USA Today",
-"Vas O No Vas USA",
-"Verdenskrigene",
-"Very Baltimore",
-"Very Pennsylvania",
-"Very Pittsburgh",
-"Vevo",
-"VH1 SD",
-"VICE",
-"Victor Valley Movies  ",
-"Victory+",
-"Vidas Extremas",
-"Vive Kanal D Drama",
-"ViX",
-"VOA Persian",
-"VOA TV",
-"VR+",
-"VSiN ",
-"VSport",
-"VTV",
-"Världskrigen",
-"WABC",
-"WABC (New York)",
-"WACX",
-"Wahlburgers",
-"Walker Texas Ranger",
-"WAPA+",
-"WATC",
-"Waypoint TV",
-"WBAL",
-"WBBJ",
-"WBFF",
-"WBTS ",
-"WBTSCD1",
-"WBTV",
-"WCAT",
-"WCAT5",
-"WCAU",
-"WCBI",
-"WCBS",
-"WCBS (New York)",
-"WCCA",
-"WCIV",
-"WDAF",
-"WDEF",
-"WDIO",
-"WDIO ABC News",
-"WDIO ABC News - (Duluth MN)",
-"WE tv SD",
-"Weather",
-"WeatherSpy",
-"Wedotv Amor Piel Salvaje",
-"WEDQ",
-"WEDQDT4",
-"Weeds & Nurse Jackie",
-"Weird or What?",
-"Welcome Home",
-"Wendy Williams",
-"West Hollywood WeHoTV (West Hollywood CA) ",
-"Western Bound",
-"WeTV",
-"WFLD",
-"WFTT",
-"WFTX",
-"WFUT",
-"WFXT",
-"WGBA",
-"WGGS",
-"WGN",
-"WGTV",
-"WHBQ",
-"WHEC",
-"WHIO",
-"White Plains Community Media ",
-"Who's the Boss?",
-"WHP",
-"WHSG",
-"WHSGDT4",
-"WHSV",
-"WHSVDT4",
-"Wild 'N Out",
-"Wild at Heart",
-"Wild TV",
-"Wild TV: Nonstop Outdoor Action & Adventure",
-"Wild West TV",
-"WildEarth",
-"Wildfire",
-"Wings",
-"Wipeout",
-"Wired2Fish",
-"WIS",
-"Wise TV",
-"WITI",
-"Witness to Justice",
-"WJAC",
-"WJAR",
-"WJAX",
-"WJLA",
-"WJLP",
-"WJXT",
-"WKCF",
-"WKEF",
-"WKMG",
-"WKOH",
-"WKOHDT4",
-"WKRC",
-"WLIO",
-"WLNG Radio  ",
-"WLNGRadio",
-"WLOS",
-"WLTV",
-"WLUK",
-"WMAQ",
-"WMGT",
-"WNBC",
-"WNBC (New York)",
-"WNJU",
-"WNYT",
-"WNYW",
-"WNYW (New York)",
-"WOAI",
-"WOIO",
-"Women Behind Bars",
-"Wonder",
-"World Billiards TV",
-"World Harvest TV ",
-"World Poker Tour",
-"World Surf League",
-"WPDE",
-"WPDE 15 ABC",
-"WPEC",
-"WPIX",
-"WPTV",
-"WPXI",
-"WPXX",
-"WRC",
-"WRDELD1",
-"Wrestling Legends TV",
-"WSB",
-"WSBS",
-"WSBT",
-"WSBT 22 CBS",
-"WSBT 22 CBS - (South Bend IN*)",
-"WSCV",
-"WSOC",
-"WSYX",
-"WTMJ",
-"WTNH",
-"WTOV",
-"WTTG",
-"WTTW",
-"WTVJ",
-"WTVQ",
-"WTVR",
-"WTVT",
-"WTXF",
-"WUPA",
-"WVIT",
-"WVIZ",
-"WWE",
-"WWMT",
-"WWON TV CH 48",
-"WWONTVChannel48",
-"WWOR",
-"WXIX",
-"WXTV",
-"WXXA",
-"WXXV",
-"Xena",
-"XITE",
-"Xplore ",
-"Xtreme Outdoor by HISTORY",
-"Xumo Free Crime TV",
-"Y2K",
-"Yahoo",
-"Young Hollywood ",
-"YTA TV",
-"Yu-Gi-Oh!",
-"Z Nation",
-"Zarin TV",
-"Zee BollyWorld",
-"Zee TV",
-"Zona Investigación",
-"Zoom TV Kurdish",
-"Zoomer TV",
-"Éxitos del Momento",
-"ÚN TV",
-"ÚNICA TV",
-]
-# Load the template file
-try:
-    with open('config.template.json', 'r') as f:
-        template_content = f.read()
-except FileNotFoundError:
-    print("Error: config.template.json file not found. Please create it.")
-    exit(1)
-
-# Replace the placeholder with the actual JSON-formatted list
-# json.dumps() correctly formats the list as a JSON string
-final_content = template_content.replace('{{GLOBAL_EXCLUDE_LIST}}',json.dumps(GLOBAL_EXCLUDE_LIST, separators=(',',':'), ensure_ascii=False))
-
-# Write the final config file that the app will use
-with open('config.tmp.json', 'w') as f:
-    f.write(final_content)
-
-# Use jq to format the entire file
-try:
-    with open('config.json', 'w') as output_file:
-        subprocess.run(
-            ['jq', '-c', '.', 'config.tmp.json'],  # Format the entire JSON file
-            check=True,
-            stdout=output_file
-        )
-    # Clean up temp file
-    os.remove('config.tmp.json')
-    print("Success: config.json file generated!")
-except subprocess.CalledProcessError as e:
-    print(f"Error: jq processing failed: {e}")
-except FileNotFoundError:
-    print("Error: jq command not found. Please install jq.")
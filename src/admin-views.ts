@@ -0,0 +1,132 @@
+import type { ProfileFilterEdit } from "./config-editor";
+import type { GroupSummary } from "./discovery";
+import { ChannelRule } from "./rules";
+import { escapeXml as escapeHtml } from "./xmltv";
+
+export interface ProfileSummary {
+  key: string;
+  sourceCount: number;
+  groupCount: number;
+  ruleCount: number;
+}
+
+export interface ProfileEditorModel {
+  profileKey: string;
+  csrfToken: string;
+  // Version of the config file the form was filled from
+  version: string;
+  filters: ProfileFilterEdit;
+  // Groups of the sources; null when they could not be fetched
+  groups: GroupSummary[] | null;
+  preview?: { kept: number; dropped: number };
+  message?: { kind: "info" | "error"; text: string };
+}
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 60rem; padding: 0 1rem; color: #222; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: .4rem .6rem; border-bottom: 1px solid #ddd; }
+  fieldset { margin: 1rem 0; border: 1px solid #ccc; }
+  .groups { columns: 18rem; }
+  .groups label { display: block; break-inside: avoid; }
+  .count { color: #777; }
+  textarea { width: 100%; min-height: 8rem; font-family: monospace; }
+  .info, .error { padding: .6rem 1rem; border-radius: 4px; }
+  .info { background: #e8f4ea; }
+  .error { background: #fbe9e9; }
+  button { margin-right: .5rem; padding: .4rem 1rem; }
+`;
+
+export const renderPage = (title: string, body: string): string => {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)} - m3ufilter</title>`,
+    `<style>${STYLE}</style>`,
+    "</head>",
+    "<body>",
+    body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+};
+
+export const renderProfileList = (profiles: ProfileSummary[], configFile: string): string => {
+  const rows = profiles.map((profile) => [
+    "<tr>",
+    `<td><a href="/admin/profiles/${encodeURIComponent(profile.key)}">${escapeHtml(profile.key)}</a></td>`,
+    `<td>${profile.sourceCount}</td>`,
+    `<td>${profile.groupCount}</td>`,
+    `<td>${profile.ruleCount}</td>`,
+    "</tr>",
+  ].join(""));
+  return renderPage("Profiles", [
+    "<h1>Profiles</h1>",
+    `<p class="count">Config file: ${escapeHtml(configFile)}</p>`,
+    profiles.length === 0
+      ? "<p>The config has no profiles yet.</p>"
+      : ["<table>", "<tr><th>Profile</th><th>Sources</th><th>Groups included</th><th>Exclusion rules</th></tr>", ...rows, "</table>"].join("\n"),
+  ].join("\n"));
+};
+
+/**
+ * Groups of the sources are offered as a checklist; included groups that are not among them
+ * (globs, "@list" references or groups the upstream dropped) are kept in a text box.
+ */
+export const renderProfileEditor = (model: ProfileEditorModel): string => {
+  const profilePath = `/admin/profiles/${encodeURIComponent(model.profileKey)}`;
+  const upstreamGroups = new Set((model.groups ?? []).map((group) => group.name.toLowerCase()));
+  const included = new Set(model.filters.groupsToInclude.map((group) => group.toLowerCase()));
+  const otherGroups = model.filters.groupsToInclude.filter((group) => !upstreamGroups.has(group.toLowerCase()));
+
+  const checklist = model.groups === null
+    ? '<p class="error">The groups of the sources could not be fetched; included groups can still be edited below.</p>'
+    : [
+      '<div class="groups">',
+      ...model.groups.map((group) => [
+        "<label>",
+        `<input type="checkbox" name="groups" value="${escapeHtml(group.name)}"${included.has(group.name.toLowerCase()) ? " checked" : ""}> `,
+        `${escapeHtml(group.name)} <span class="count">(${group.count})</span>`,
+        "</label>",
+      ].join("")),
+      "</div>",
+    ].join("\n");
+
+  return renderPage(`Profile ${model.profileKey}`, [
+    '<p><a href="/admin">&larr; Profiles</a></p>',
+    `<h1>Profile ${escapeHtml(model.profileKey)}</h1>`,
+    model.message ? `<p class="${model.message.kind}">${escapeHtml(model.message.text)}</p>` : "",
+    model.preview
+      ? `<p class="info">Preview: ${model.preview.kept} channels kept, ${model.preview.dropped} dropped. Not saved yet.</p>`
+      : "",
+    `<form method="post" action="${profilePath}">`,
+    `<input type="hidden" name="csrf" value="${escapeHtml(model.csrfToken)}">`,
+    `<input type="hidden" name="version" value="${escapeHtml(model.version)}">`,
+    "<fieldset>",
+    "<legend>Groups to include</legend>",
+    checklist,
+    "<p>Other groups to include, one per line (globs such as <code>Sports*</code> and <code>@list</code> references work):</p>",
+    `<textarea name="otherGroups">${escapeHtml(otherGroups.join("\n"))}</textarea>`,
+    "</fieldset>",
+    "<fieldset>",
+    "<legend>Groups to exclude</legend>",
+    `<textarea name="groupsToExclude">${escapeHtml(model.filters.groupsToExclude.join("\n"))}</textarea>`,
+    "</fieldset>",
+    "<fieldset>",
+    "<legend>Channels to exclude</legend>",
+    "<p>One rule per line: a part of the channel name, <code>/regex/i</code>, or a JSON rule object.</p>",
+    `<textarea name="channelsToExclude">${escapeHtml(formatRuleLines(model.filters.channelsToExclude))}</textarea>`,
+    "</fieldset>",
+    '<button type="submit" name="action" value="preview">Preview</button>',
+    '<button type="submit" name="action" value="save">Save</button>',
+    "</form>",
+  ].join("\n"));
+};
+
+export const formatRuleLines = (rules: ChannelRule[]): string => {
+  return rules.map((rule) => (typeof rule === "string" ? rule : JSON.stringify(rule))).join("\n");
+};
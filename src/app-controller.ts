@@ -1,9 +1,19 @@
 import express from "express";
 import { Request, Response, NextFunction } from "express";
 import { handleGetm3u } from "./handler/getm3u";
+import { handleGetepg } from "./handler/getepg";
+import { handleChannels, handleDryRun, handleGroups } from "./handler/discovery";
+import { handleAdminIndex, handleAdminProfile, handleAdminProfileUpdate, requireAdmin } from "./handler/admin";
+import { handleHdHomeRun, HdHomeRunResource } from "./handler/hdhomerun";
+import { handleStream, handleStreamStatus } from "./handler/stream";
+import { handleHealthStatus, startHealthChecks } from "./handler/health";
+import { handleXtreamApi, handleXtreamEpg, handleXtreamPlaylist, handleXtreamStream } from "./handler/xtream";
 import helmet from "helmet";
 import compression from "compression";
 import rateLimit from "express-rate-limit";
+import { initConfigStore, resolveConfigFilePath } from "./config-store";
+import { isPrimaryInstance } from "./instance";
+import { logger } from "./logger";
 
 const app = express();
 const port = parseInt(process.env.PORT || "3000", 10);
@@ -29,13 +39,29 @@ app.use(compression({
   memLevel: 8 // Good for text compression
 }));
 
+// Proxied HLS streams fetch a segment every few seconds; Xtream players open streams directly
+const STREAM_PATHS = ['/stream/', '/live/', '/movie/'];
+// Xtream apps and media servers poll these on their own, several times per screen or scan
+const CLIENT_API_PATHS = ['/player_api.php', '/xmltv.php', '/hdhomerun/'];
+const isStreamPath = (path: string) => STREAM_PATHS.some((prefix) => path.startsWith(prefix));
+const isClientApiPath = (path: string) => CLIENT_API_PATHS.some((prefix) => path.startsWith(prefix));
+
 // Rate limiting - important since you're fetching multiple large sources
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000,
   max: 50, // Lower limit since processing is expensive
-  message: 'Too many requests, please try again later'
+  message: 'Too many requests, please try again later',
+  skip: (req) => isStreamPath(req.path) || isClientApiPath(req.path),
 });
 app.use(limiter);
+// Client APIs mostly answer from the playlist cache
+const clientApiLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 1000,
+  message: 'Too many requests, please try again later',
+  skip: (req) => !isClientApiPath(req.path),
+});
+app.use(clientApiLimiter);
 
 app.disable('x-powered-by');
 
@@ -54,6 +80,85 @@ app.get("/getm3u", asyncHandler(async (req: Request, res: Response) => {
   await handleGetm3u({ req, res });
 }));
 
+// XMLTV guide filtered to the channels of the matching /getm3u playlist
+app.get("/getepg", asyncHandler(async (req: Request, res: Response) => {
+  res.setHeader('Cache-Control', 'public, max-age=300');
+  await handleGetepg({ req, res });
+}));
+
+// Discovery endpoints for writing and debugging profiles
+app.get("/groups", asyncHandler(async (req: Request, res: Response) => {
+  await handleGroups({ req, res });
+}));
+app.get("/channels", asyncHandler(async (req: Request, res: Response) => {
+  await handleChannels({ req, res });
+}));
+app.get("/dryrun", asyncHandler(async (req: Request, res: Response) => {
+  await handleDryRun({ req, res });
+}));
+
+// HDHomeRun tuner emulation, for profiles with "hdhomerun" set; media servers only take a
+// device address, so the access token may be given as a path segment
+const hdHomeRunRoutes: Record<string, HdHomeRunResource> = {
+  "discover.json": "discover",
+  "lineup_status.json": "lineup_status",
+  "lineup.json": "lineup",
+  "device.xml": "device",
+};
+for (const [file, resource] of Object.entries(hdHomeRunRoutes)) {
+  app.get(`/hdhomerun/:profile{/:token}/${file}`, asyncHandler(async (req: Request, res: Response) => {
+    await handleHdHomeRun({ req, res, resource });
+  }));
+}
+// Plex asks for a channel scan after adding the tuner; the lineup is always current
+app.post("/hdhomerun/:profile{/:token}/lineup.post", (req: Request, res: Response) => {
+  res.status(200).end();
+});
+
+// Xtream Codes API, for profiles with "xtream" credentials
+app.get("/player_api.php", asyncHandler(async (req: Request, res: Response) => {
+  await handleXtreamApi({ req, res });
+}));
+app.get("/get.php", asyncHandler(async (req: Request, res: Response) => {
+  res.setHeader('Cache-Control', 'private, max-age=300');
+  await handleXtreamPlaylist({ req, res });
+}));
+app.get("/xmltv.php", asyncHandler(async (req: Request, res: Response) => {
+  res.setHeader('Cache-Control', 'private, max-age=300');
+  await handleXtreamEpg({ req, res });
+}));
+app.get("/live/:username/:password/:stream", asyncHandler(async (req: Request, res: Response) => {
+  await handleXtreamStream({ req, res, type: "live" });
+}));
+app.get("/movie/:username/:password/:stream", asyncHandler(async (req: Request, res: Response) => {
+  await handleXtreamStream({ req, res, type: "movie" });
+}));
+
+// Stream URLs of profiles with "streamProxy"
+app.get("/stream/:profile/:id", asyncHandler(async (req: Request, res: Response) => {
+  await handleStream({ req, res });
+}));
+app.get("/status/streams", asyncHandler(async (req: Request, res: Response) => {
+  await handleStreamStatus({ req, res });
+}));
+
+// Results of the stream health checks of profiles with "healthCheck"
+app.get("/status/health/:profile", asyncHandler(async (req: Request, res: Response) => {
+  await handleHealthStatus({ req, res });
+}));
+
+// Profile editor, only served when ADMIN_PASSWORD is set
+app.use("/admin", requireAdmin);
+app.get("/admin", asyncHandler(async (req: Request, res: Response) => {
+  await handleAdminIndex({ req, res });
+}));
+app.get("/admin/profiles/:profile", asyncHandler(async (req: Request, res: Response) => {
+  await handleAdminProfile({ req, res });
+}));
+app.post("/admin/profiles/:profile", express.urlencoded({ extended: false, limit: "1mb" }), asyncHandler(async (req: Request, res: Response) => {
+  await handleAdminProfileUpdate({ req, res });
+}));
+
 // Health check
 app.get("/health", (req: Request, res: Response) => {
   res.status(200).json({ status: "OK", timestamp: new Date().toISOString() });
@@ -80,7 +185,23 @@ app.use((req: Request, res: Response) => {
   res.status(404).json({ error: 'Endpoint not found' });
 });
 
-app.listen(port, "0.0.0.0", () => {
-  console.log(`M3U filter server started on port ${port}`);
-  console.log(`Compression enabled for m3u responses`);
+const start = async () => {
+  // Fail fast on a broken config; later edits are hot-reloaded
+  const config = await initConfigStore({ configFile: resolveConfigFilePath() });
+  // Streams are counted per process, so other workers of a cluster refuse limited streams
+  const limited = config.profiles.filter(({ value }) => value.maxConnections !== undefined).map(({ key }) => key);
+  if (limited.length > 0 && !isPrimaryInstance()) {
+    logger.error({ profiles: limited }, 'maxConnections needs a single instance; set "instances": 1 in ecosystem.config.js');
+  }
+  startHealthChecks();
+
+  app.listen(port, "0.0.0.0", () => {
+    console.log(`M3U filter server started on port ${port}`);
+    console.log(`Compression enabled for m3u responses`);
+  });
+};
+
+start().catch((error) => {
+  console.error("Failed to start:", error instanceof Error ? error.message : error);
+  process.exit(1);
 });
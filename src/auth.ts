@@ -0,0 +1,48 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+export interface BasicCredentials {
+  username: string;
+  password: string;
+}
+
+export const TOKEN_HASH_PATTERN = /^sha256:[0-9a-f]{64}$/i;
+
+// Compares secrets in constant time, so that response times do not leak how much of a guess was right
+export const safeEqual = (expected: string, actual: string): boolean => {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer);
+};
+
+// Credentials of an "Authorization: Basic ..." header, or null for any other header
+export const parseBasicAuth = (header?: string): BasicCredentials | null => {
+  const match = /^Basic\s+([A-Za-z0-9+/=]+)\s*$/i.exec(header ?? "");
+  if (!match) {
+    return null;
+  }
+  const decoded = Buffer.from(match[1], "base64").toString("utf-8");
+  const separator = decoded.indexOf(":");
+  if (separator === -1) {
+    return null;
+  }
+  return { username: decoded.substring(0, separator), password: decoded.substring(separator + 1) };
+};
+
+/**
+ * Token that forms must send back. Browsers resend Basic credentials on their own, so without
+ * it any site could post forms to this server; the token cannot be read from another origin.
+ */
+export const getCsrfToken = (secret: string): string => {
+  return createHmac("sha256", secret).update("m3ufilter-csrf").digest("hex");
+};
+
+// Access tokens are random, so a plain SHA-256 is enough to keep them out of the config file
+export const hashToken = (token: string): string => {
+  return `sha256:${createHash("sha256").update(token).digest("hex")}`;
+};
+
+// Checks every hash without stopping at the first match, so that timing does not tell which one matched
+export const matchesTokenHash = (token: string, hashes: string[]): boolean => {
+  const hash = hashToken(token);
+  return hashes.reduce((matched, candidate) => safeEqual(candidate.toLowerCase(), hash) || matched, false);
+};
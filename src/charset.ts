@@ -0,0 +1,102 @@
+import { Transform, TransformCallback } from "stream";
+
+const DEFAULT_CHARSET = "utf-8";
+// A byte order mark outweighs any announced charset
+const BOMS: { bytes: number[]; charset: string }[] = [
+  { bytes: [0xef, 0xbb, 0xbf], charset: "utf-8" },
+  { bytes: [0xff, 0xfe], charset: "utf-16le" },
+  { bytes: [0xfe, 0xff], charset: "utf-16be" },
+];
+const BOM_SNIFF_LENGTH = 3;
+
+export const isSupportedCharset = (charset: string): boolean => {
+  try {
+    new TextDecoder(charset);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Charset of a response: the override of the source if set, else the charset of the
+ * Content-Type, else UTF-8. Unknown charsets fall back to UTF-8.
+ */
+export const getResponseCharset = (contentType?: string, override?: string): string => {
+  const announced = contentType?.match(/;\s*charset\s*=\s*"?([^";\s]+)"?/i)?.[1];
+  const charset = override ?? announced ?? DEFAULT_CHARSET;
+  return isSupportedCharset(charset) ? charset : DEFAULT_CHARSET;
+};
+
+/**
+ * Decodes a whole body to text without its byte order mark and with "\n" line endings.
+ */
+export const decodeText = (body: Buffer, charset: string): string => {
+  const decoder = new TextDecoder(sniffBom(body) ?? charset);
+  return normalizeLineEndings(decoder.decode(body));
+};
+
+/**
+ * Like decodeText, as the body streams through: bytes in the given charset come in, UTF-8
+ * text with "\n" line endings goes out.
+ */
+export class DecodeTextStream extends Transform {
+  private head: Buffer | null = Buffer.alloc(0);
+  private decoder: TextDecoder | null = null;
+  // A "\r" ending a chunk may be the first half of "\r\n"
+  private pendingCarriageReturn = false;
+
+  /**
+   * @param options.sniffCharset - Reads the charset from the first sniffLength bytes, such as
+   * the encoding of an XML declaration; it wins over the given charset, a byte order mark over it
+   */
+  constructor(
+    private readonly charset: string,
+    private readonly options: { sniffCharset?: (head: Buffer) => string | undefined; sniffLength?: number } = {}
+  ) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    if (this.head !== null) {
+      this.head = Buffer.concat([this.head, chunk]);
+      if (this.head.length < Math.max(BOM_SNIFF_LENGTH, this.options.sniffLength ?? 0)) {
+        callback();
+        return;
+      }
+      chunk = this.head;
+      this.head = null;
+    }
+    this.pushText(this.getDecoder(chunk).decode(chunk, { stream: true }));
+    callback();
+  }
+
+  _flush(callback: TransformCallback): void {
+    const rest = this.head ?? Buffer.alloc(0);
+    this.pushText(this.getDecoder(rest).decode(rest), true);
+    callback();
+  }
+
+  private getDecoder(head: Buffer): TextDecoder {
+    this.decoder ??= new TextDecoder(sniffBom(head) ?? this.options.sniffCharset?.(head) ?? this.charset);
+    return this.decoder;
+  }
+
+  private pushText(text: string, last = false): void {
+    let pending = (this.pendingCarriageReturn ? "\r" : "") + text;
+    this.pendingCarriageReturn = !last && pending.endsWith("\r");
+    if (this.pendingCarriageReturn) {
+      pending = pending.slice(0, -1);
+    }
+    if (pending.length > 0) {
+      this.push(normalizeLineEndings(pending), "utf-8");
+    }
+  }
+}
+
+const sniffBom = (head: Buffer): string | undefined => {
+  return BOMS.find(({ bytes }) => bytes.every((byte, index) => head[index] === byte))?.charset;
+};
+
+// Also turns the lone "\r" of old Mac files into "\n"
+const normalizeLineEndings = (text: string): string => text.replace(/\r\n?/g, "\n");
@@ -0,0 +1,154 @@
+import { createHash } from "crypto";
+import { chmod, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import { ConfigFile, ProfileDefinition, RawConfigFile, resolveConfig } from "./config";
+import { ConfigValidationError, validateConfigFile } from "./config-validation";
+import { ChannelRule } from "./rules";
+import { logger } from "./logger";
+
+// The filters the admin page edits; everything else in the profile is left as written
+export interface ProfileFilterEdit {
+  groupsToInclude: string[];
+  groupsToExclude: string[];
+  channelsToExclude: ChannelRule[];
+}
+
+export interface RawConfigSnapshot {
+  raw: RawConfigFile;
+  // Hash of the file contents, to tell whether the file changed since it was read
+  version: string;
+}
+
+export class ConfigConflictError extends Error {}
+
+const EDITABLE_FIELDS = ["groupsToInclude", "groupsToExclude", "channelsToExclude"] as const;
+
+// Saves are queued so that the version check and the write of one save never interleave with another
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+/**
+ * Reads the config file as written, without resolving lists or "extends". A missing file
+ * reads as an empty config.
+ * @throws ConfigValidationError - The file is not a valid config
+ */
+export const readRawConfig = async (configFile: string): Promise<RawConfigSnapshot> => {
+  let contents = "";
+  try {
+    contents = await readFile(configFile, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+  }
+  if (!contents) {
+    return { raw: { profiles: [] }, version: hashContents(contents) };
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error) {
+    throw new ConfigValidationError(`'${configFile}' is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return { raw: validateConfigFile(parsed), version: hashContents(contents) };
+};
+
+// The filters of a profile as written, or as inherited through "extends" when it has none of its own
+export const getProfileFilters = (raw: RawConfigFile, profileKey: string): ProfileFilterEdit => {
+  return {
+    groupsToInclude: (getWrittenValue(raw, profileKey, "groupsToInclude") ?? []) as string[],
+    groupsToExclude: (getWrittenValue(raw, profileKey, "groupsToExclude") ?? []) as string[],
+    channelsToExclude: getWrittenValue(raw, profileKey, "channelsToExclude") ?? [],
+  };
+};
+
+/**
+ * Returns a copy of the config with the filters of one profile replaced. A filter equal to
+ * what the profile would inherit is removed from it, so that it keeps following its base.
+ * @throws ConfigValidationError - No such profile
+ */
+export const applyProfileEdit = (raw: RawConfigFile, profileKey: string, edit: ProfileFilterEdit): RawConfigFile => {
+  const index = raw.profiles.findIndex((profile) => profile.key === profileKey);
+  if (index === -1) {
+    throw new ConfigValidationError(`unknown profile '${profileKey}'`);
+  }
+  const definition: ProfileDefinition = { ...raw.profiles[index].value };
+  for (const field of EDITABLE_FIELDS) {
+    const inherited = getWrittenValue(raw, definition.extends, field, [profileKey]) ?? [];
+    if (JSON.stringify(edit[field]) === JSON.stringify(inherited)) {
+      delete definition[field];
+    } else {
+      (definition as Record<string, ChannelRule[]>)[field] = edit[field];
+    }
+  }
+  const profiles = [...raw.profiles];
+  profiles[index] = { key: profileKey, value: definition };
+  return { ...raw, profiles };
+};
+
+// Validates and resolves an edited config exactly as loading it from disk would
+export const checkRawConfig = (raw: RawConfigFile): ConfigFile => {
+  return resolveConfig(validateConfigFile(JSON.parse(JSON.stringify(raw))));
+};
+
+/**
+ * Writes the config to a temporary file that is then renamed over the original, so that the
+ * config store never reads a half-written file. The original file mode is kept, as the file
+ * holds provider passwords.
+ * @returns The version of the written file
+ * @throws ConfigConflictError - The file changed since `expectedVersion` was read
+ */
+export const writeRawConfig = (configFile: string, raw: RawConfigFile, expectedVersion: string): Promise<string> => {
+  const write = pendingWrite.then(async () => {
+    const current = await readRawConfig(configFile);
+    if (current.version !== expectedVersion) {
+      throw new ConfigConflictError("The config file was changed by someone else; reload the page and try again");
+    }
+    const contents = JSON.stringify(raw, null, 2) + "\n";
+    const mode = await getFileMode(configFile);
+    const tempFile = `${configFile}.${process.pid}.tmp`;
+    await writeFile(tempFile, contents, { encoding: "utf-8", mode });
+    await chmod(tempFile, mode);
+    try {
+      await rename(tempFile, configFile);
+    } catch (error) {
+      // A config file bind-mounted on its own into a container cannot be replaced, only rewritten
+      if ((error as NodeJS.ErrnoException).code !== "EBUSY") {
+        await unlink(tempFile).catch((): void => undefined);
+        throw error;
+      }
+      logger.warn({ configFile }, 'Config file cannot be replaced, rewriting it in place');
+      await writeFile(configFile, contents, "utf-8");
+      await unlink(tempFile).catch((): void => undefined);
+    }
+    return hashContents(contents);
+  });
+  // A failed save must not block the ones queued after it
+  pendingWrite = write.catch((): void => undefined);
+  return write;
+};
+
+// The value of a filter in a profile definition, or in the first profile of its "extends" chain that has it
+const getWrittenValue = (
+  raw: RawConfigFile,
+  profileKey: string | undefined,
+  field: typeof EDITABLE_FIELDS[number],
+  chain: string[] = []
+): ChannelRule[] | undefined => {
+  if (profileKey === undefined || chain.includes(profileKey)) {
+    return undefined;
+  }
+  const definition = raw.profiles.find((profile) => profile.key === profileKey)?.value;
+  if (!definition) {
+    return undefined;
+  }
+  return definition[field] ?? getWrittenValue(raw, definition.extends, field, [...chain, profileKey]);
+};
+
+const getFileMode = async (file: string): Promise<number> => {
+  try {
+    return (await stat(file)).mode & 0o777;
+  } catch {
+    return 0o600;
+  }
+};
+
+const hashContents = (contents: string): string => createHash("sha256").update(contents).digest("hex");
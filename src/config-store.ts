@@ -0,0 +1,120 @@
+import * as path from "path";
+import { FSWatcher, watch } from "fs";
+import { ConfigFile, getDefaultConfigFile, loadConfig } from "./config";
+import { logger } from "./logger";
+
+const CONFIG_ENV_VARIABLE = "M3UFILTER_CONFIG";
+const CONFIG_CLI_FLAG = "--config";
+const RELOAD_DEBOUNCE_MS = 250;
+
+interface ConfigStoreState {
+  config: ConfigFile;
+  configFile?: string;
+  watcher?: FSWatcher;
+  reloadTimer?: NodeJS.Timeout;
+  // Guards against a slow reload overwriting the result of a newer one
+  generation: number;
+}
+
+const state: ConfigStoreState = { config: { profiles: [] }, generation: 0 };
+
+/**
+ * Config file location, by priority: "--config <path>" (or "--config=<path>"), the
+ * M3UFILTER_CONFIG environment variable, then the per-platform default location.
+ */
+export const resolveConfigFilePath = (
+  argv: string[] = process.argv,
+  env: NodeJS.ProcessEnv = process.env
+): string => {
+  const flagIndex = argv.findIndex((arg) => arg === CONFIG_CLI_FLAG || arg.startsWith(`${CONFIG_CLI_FLAG}=`));
+  if (flagIndex !== -1) {
+    const flag = argv[flagIndex];
+    const value = flag.includes("=") ? flag.substring(flag.indexOf("=") + 1) : argv[flagIndex + 1];
+    if (value) {
+      return path.resolve(value);
+    }
+  }
+  if (env[CONFIG_ENV_VARIABLE]) {
+    return path.resolve(env[CONFIG_ENV_VARIABLE]);
+  }
+  return getDefaultConfigFile();
+};
+
+/**
+ * Loads the config once and, unless disabled, watches the file for changes. A config that
+ * fails to load at startup throws; a failed reload keeps serving the last good config.
+ */
+export const initConfigStore = async (options: { configFile: string; watch?: boolean }): Promise<ConfigFile> => {
+  stopConfigStore();
+  state.configFile = options.configFile;
+  state.config = await loadConfig({ configFile: options.configFile, log: false });
+  logger.info({ configFile: options.configFile, profiles: state.config.profiles.length }, 'Config loaded');
+
+  if (options.watch ?? true) {
+    startWatching(options.configFile);
+  }
+  return state.config;
+};
+
+export const getConfig = (): ConfigFile => state.config;
+
+export const getConfigFilePath = (): string | undefined => state.configFile;
+
+/**
+ * Re-reads the config file. The new config replaces the current one in a single assignment,
+ * so in-flight requests keep the config they started with.
+ */
+export const reloadConfig = async (): Promise<boolean> => {
+  if (!state.configFile) {
+    return false;
+  }
+  const generation = ++state.generation;
+  try {
+    const config = await loadConfig({ configFile: state.configFile, log: false });
+    if (generation !== state.generation) {
+      return false;
+    }
+    state.config = config;
+    logger.info({ configFile: state.configFile, profiles: config.profiles.length }, 'Config reloaded');
+    return true;
+  } catch (error) {
+    logger.error({ configFile: state.configFile, error: error instanceof Error ? error.message : String(error) }, 'Config reload failed, keeping last good config');
+    return false;
+  }
+};
+
+export const stopConfigStore = (): void => {
+  state.watcher?.close();
+  state.watcher = undefined;
+  if (state.reloadTimer) {
+    clearTimeout(state.reloadTimer);
+    state.reloadTimer = undefined;
+  }
+};
+
+// The directory is watched rather than the file, so that editors that save by writing a
+// temporary file and renaming it over the original are picked up as well
+const startWatching = (configFile: string): void => {
+  const directory = path.dirname(configFile);
+  const fileName = path.basename(configFile);
+  try {
+    state.watcher = watch(directory, { persistent: false }, (_eventType, changedFile) => {
+      if (changedFile && changedFile.toString() !== fileName) {
+        return;
+      }
+      if (state.reloadTimer) {
+        clearTimeout(state.reloadTimer);
+      }
+      state.reloadTimer = setTimeout(() => {
+        state.reloadTimer = undefined;
+        void reloadConfig();
+      }, RELOAD_DEBOUNCE_MS);
+    });
+    state.watcher.on('error', (error) => {
+      logger.warn({ directory, error: error.message }, 'Config watcher failed, hot reload disabled');
+      stopConfigStore();
+    });
+  } catch (error) {
+    logger.warn({ directory, error: error instanceof Error ? error.message : String(error) }, 'Cannot watch config directory, hot reload disabled');
+  }
+};
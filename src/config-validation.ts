@@ -0,0 +1,517 @@
+import { compileRules, InvalidRuleError } from "./rules";
+import type { RawConfigFile } from "./config";
+import { DEDUPE_PREFERENCES, DedupePreference } from "./dedupe";
+import { compileTransform, InvalidTransformError, TransformRule } from "./transforms";
+import { CHANNEL_ORDERS, GROUP_ORDERS } from "./sorting";
+import { DEVICE_ID_PATTERN } from "./hdhomerun";
+import { TOKEN_HASH_PATTERN } from "./auth";
+import { URL_SCHEMES } from "./url-policy";
+import { STREAM_PROXY_MODES } from "./stream-proxy";
+import { CONNECTION_LIMIT_ACTIONS } from "./stream-sessions";
+import { DEAD_CHANNEL_ACTIONS } from "./health-check";
+import { isSupportedCharset } from "./charset";
+
+export class ConfigValidationError extends Error {
+  constructor(message: string) {
+    super(`Invalid config: ${message}`);
+  }
+}
+
+const PROFILE_KEY_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const ALLOWED_URL_PROTOCOLS = ["http:", "https:"];
+const TOP_LEVEL_FIELDS = ["lists", "adminTokens", "urlMode", "profiles"];
+const PROFILE_FIELDS = [
+  "url",
+  "extends",
+  "abstract",
+  "groupsToInclude",
+  "groupsToExclude",
+  "channelsToInclude",
+  "channelsToExclude",
+  "cacheTtl",
+  "stream",
+  "sources",
+  "sourceFailure",
+  "dedupe",
+  "transforms",
+  "sort",
+  "numbering",
+  "epgUrl",
+  "hdhomerun",
+  "xtream",
+  "tokens",
+  "streamProxy",
+  "streamPolicy",
+  "maxConnections",
+  "onConnectionLimit",
+  "healthCheck",
+  "request",
+];
+const SOURCE_FIELDS = [
+  "type",
+  "name",
+  "groupPrefix",
+  "cacheTtl",
+  "groupsToInclude",
+  "groupsToExclude",
+  "channelsToInclude",
+  "channelsToExclude",
+  "request",
+];
+const SOURCE_TYPES = ["m3u", "xtream"];
+const M3U_SOURCE_FIELDS = ["url"];
+const XTREAM_SOURCE_FIELDS = ["server", "username", "password", "includeVod", "output"];
+const XTREAM_OUTPUTS = ["ts", "m3u8"];
+const SOURCE_FAILURE_POLICIES = ["fail-open", "fail-closed"];
+const DEDUPE_FIELDS = ["prefer", "sourcePriority", "keepAlternates"];
+const TRANSFORM_FIELDS = ["channels", "groups", "rename", "set", "remove"];
+const RENAME_FIELDS = ["pattern", "replacement", "flags"];
+const SORT_FIELDS = ["groups", "channels", "pinned", "rules"];
+const NUMBERING_FIELDS = ["start", "groupStarts", "stable"];
+const HDHOMERUN_FIELDS = ["friendlyName", "deviceId", "tunerCount"];
+const HEALTH_CHECK_FIELDS = ["interval", "concurrency", "timeout", "failuresBeforeDead", "deadChannels", "deadGroup"];
+const XTREAM_FIELDS = ["username", "password"];
+const REQUEST_FIELDS = ["connectTimeout", "readTimeout", "retries", "retryDelay", "maxBytes", "headers", "userAgent", "proxy", "maxRedirects", "charset"];
+const URL_MODE_FIELDS = ["enabled", "schemes", "hosts", "allowPrivateAddresses"];
+// Streams are always fetched, so only the restrictions of urlMode apply
+const STREAM_POLICY_FIELDS = URL_MODE_FIELDS.filter((field) => field !== "enabled");
+
+/**
+ * Checks the shape of a parsed config file and throws a ConfigValidationError naming the
+ * first offending field. Unknown fields are rejected so that typos do not go unnoticed.
+ */
+export const validateConfigFile = (raw: unknown): RawConfigFile => {
+  expectObject(raw, "config");
+  const config = raw as Record<string, unknown>;
+  expectKnownFields(config, TOP_LEVEL_FIELDS, "config");
+
+  if (config.lists !== undefined) {
+    expectObject(config.lists, "lists");
+    for (const [name, list] of Object.entries(config.lists as Record<string, unknown>)) {
+      expectRuleArray(list, `lists['${name}']`);
+    }
+  }
+
+  if (config.adminTokens !== undefined) {
+    expectTokenHashes(config.adminTokens, "adminTokens");
+  }
+
+  if (config.urlMode !== undefined) {
+    validateUrlMode(config.urlMode, "urlMode");
+  }
+
+  if (!Array.isArray(config.profiles)) {
+    throw new ConfigValidationError("'profiles' must be an array");
+  }
+  const seenKeys = new Set<string>();
+  config.profiles.forEach((profile: unknown, index: number) => {
+    const profilePath = `profiles[${index}]`;
+    expectObject(profile, profilePath);
+    const { key, value } = profile as Record<string, unknown>;
+    if (typeof key !== "string" || !PROFILE_KEY_PATTERN.test(key)) {
+      throw new ConfigValidationError(`${profilePath}.key must be a non-empty string of letters, digits, '_' or '-'`);
+    }
+    if (seenKeys.has(key)) {
+      throw new ConfigValidationError(`duplicate profile key '${key}' at ${profilePath}`);
+    }
+    seenKeys.add(key);
+    validateProfile(value, `profiles['${key}']`);
+  });
+
+  return raw as RawConfigFile;
+};
+
+const validateProfile = (value: unknown, profilePath: string): void => {
+  expectObject(value, profilePath);
+  const profile = value as Record<string, unknown>;
+  expectKnownFields(profile, PROFILE_FIELDS, profilePath);
+
+  for (const field of ["url", "epgUrl"]) {
+    if (profile[field] !== undefined) {
+      expectUrl(profile[field], `${profilePath}.${field}`);
+    }
+  }
+  if (profile.extends !== undefined) {
+    expectString(profile.extends, `${profilePath}.extends`);
+  }
+  for (const field of ["abstract", "stream"]) {
+    if (profile[field] !== undefined) {
+      expectBoolean(profile[field], `${profilePath}.${field}`);
+    }
+  }
+  if (profile.cacheTtl !== undefined) {
+    expectNonNegativeNumber(profile.cacheTtl, `${profilePath}.cacheTtl`);
+  }
+  if (profile.sourceFailure !== undefined && !SOURCE_FAILURE_POLICIES.includes(profile.sourceFailure as string)) {
+    throw new ConfigValidationError(`${profilePath}.sourceFailure must be one of ${SOURCE_FAILURE_POLICIES.join(", ")}`);
+  }
+  if (profile.sources !== undefined) {
+    if (!Array.isArray(profile.sources) || profile.sources.length === 0) {
+      throw new ConfigValidationError(`${profilePath}.sources must be a non-empty array`);
+    }
+    profile.sources.forEach((source, index) => validateSource(source, `${profilePath}.sources[${index}]`));
+  }
+  if (profile.dedupe !== undefined && typeof profile.dedupe !== "boolean") {
+    validateDedupe(profile.dedupe, `${profilePath}.dedupe`);
+  }
+  if (profile.transforms !== undefined) {
+    validateTransforms(profile.transforms, `${profilePath}.transforms`);
+  }
+  if (profile.sort !== undefined) {
+    validateSort(profile.sort, `${profilePath}.sort`);
+  }
+  if (profile.numbering !== undefined && typeof profile.numbering !== "boolean") {
+    validateNumbering(profile.numbering, `${profilePath}.numbering`);
+  }
+  if (profile.hdhomerun !== undefined && typeof profile.hdhomerun !== "boolean") {
+    validateHdHomeRun(profile.hdhomerun, `${profilePath}.hdhomerun`);
+  }
+  if (profile.xtream !== undefined) {
+    expectObject(profile.xtream, `${profilePath}.xtream`);
+    expectKnownFields(profile.xtream as Record<string, unknown>, XTREAM_FIELDS, `${profilePath}.xtream`);
+    for (const field of XTREAM_FIELDS) {
+      expectString((profile.xtream as Record<string, unknown>)[field], `${profilePath}.xtream.${field}`);
+    }
+  }
+  expectOneOf(profile.streamProxy, STREAM_PROXY_MODES, `${profilePath}.streamProxy`);
+  if (profile.streamPolicy !== undefined) {
+    validateUrlMode(profile.streamPolicy, `${profilePath}.streamPolicy`, STREAM_POLICY_FIELDS);
+  }
+  if (profile.maxConnections !== undefined) {
+    expectPositiveInteger(profile.maxConnections, `${profilePath}.maxConnections`);
+  }
+  expectOneOf(profile.onConnectionLimit, CONNECTION_LIMIT_ACTIONS, `${profilePath}.onConnectionLimit`);
+  if (profile.healthCheck !== undefined && typeof profile.healthCheck !== "boolean") {
+    validateHealthCheck(profile.healthCheck, `${profilePath}.healthCheck`);
+  }
+  if (profile.request !== undefined) {
+    validateRequest(profile.request, `${profilePath}.request`);
+  }
+  if (profile.tokens !== undefined) {
+    expectTokenHashes(profile.tokens, `${profilePath}.tokens`);
+  }
+  validateFilters(profile, profilePath);
+};
+
+const validateDedupe = (value: unknown, dedupePath: string): void => {
+  expectObject(value, dedupePath);
+  const dedupe = value as Record<string, unknown>;
+  expectKnownFields(dedupe, DEDUPE_FIELDS, dedupePath);
+
+  if (dedupe.prefer !== undefined) {
+    expectStringArray(dedupe.prefer, `${dedupePath}.prefer`);
+    const unknownPreference = (dedupe.prefer as string[]).find((preference) => !DEDUPE_PREFERENCES.includes(preference as DedupePreference));
+    if (unknownPreference !== undefined) {
+      throw new ConfigValidationError(`${dedupePath}.prefer: '${unknownPreference}' is not one of ${DEDUPE_PREFERENCES.join(", ")}`);
+    }
+  }
+  if (dedupe.sourcePriority !== undefined) {
+    expectStringArray(dedupe.sourcePriority, `${dedupePath}.sourcePriority`);
+  }
+  if (dedupe.keepAlternates !== undefined) {
+    expectBoolean(dedupe.keepAlternates, `${dedupePath}.keepAlternates`);
+  }
+};
+
+const validateTransforms = (value: unknown, transformsPath: string): void => {
+  if (!Array.isArray(value)) {
+    throw new ConfigValidationError(`${transformsPath} must be an array`);
+  }
+  value.forEach((rule: unknown, index: number) => {
+    const rulePath = `${transformsPath}[${index}]`;
+    expectObject(rule, rulePath);
+    const transform = rule as Record<string, unknown>;
+    expectKnownFields(transform, TRANSFORM_FIELDS, rulePath);
+    if (transform.channels !== undefined) {
+      expectRuleArray(transform.channels, `${rulePath}.channels`);
+    }
+    for (const field of ["groups", "remove"]) {
+      if (transform[field] !== undefined) {
+        expectStringArray(transform[field], `${rulePath}.${field}`);
+      }
+    }
+    if (transform.rename !== undefined) {
+      expectObject(transform.rename, `${rulePath}.rename`);
+      const rename = transform.rename as Record<string, unknown>;
+      expectKnownFields(rename, RENAME_FIELDS, `${rulePath}.rename`);
+      expectString(rename.pattern, `${rulePath}.rename.pattern`);
+      if (typeof rename.replacement !== "string") {
+        throw new ConfigValidationError(`${rulePath}.rename.replacement must be a string`);
+      }
+      if (rename.flags !== undefined && typeof rename.flags !== "string") {
+        throw new ConfigValidationError(`${rulePath}.rename.flags must be a string`);
+      }
+    }
+    if (transform.set !== undefined) {
+      expectObject(transform.set, `${rulePath}.set`);
+      for (const [name, setValue] of Object.entries(transform.set as Record<string, unknown>)) {
+        if (typeof setValue !== "string") {
+          throw new ConfigValidationError(`${rulePath}.set['${name}'] must be a string`);
+        }
+      }
+    }
+    // Compiled (and discarded) for the same reason as rule lists
+    try {
+      compileTransform(rule as TransformRule);
+    } catch (error) {
+      const reason = error instanceof InvalidTransformError ? error.message : String(error);
+      throw new ConfigValidationError(`${rulePath}: ${reason}`);
+    }
+  });
+};
+
+const validateSort = (value: unknown, sortPath: string): void => {
+  expectObject(value, sortPath);
+  const sort = value as Record<string, unknown>;
+  expectKnownFields(sort, SORT_FIELDS, sortPath);
+
+  expectOneOf(sort.groups, GROUP_ORDERS, `${sortPath}.groups`);
+  expectOneOf(sort.channels, CHANNEL_ORDERS, `${sortPath}.channels`);
+  for (const field of ["pinned", "rules"]) {
+    if (sort[field] !== undefined) {
+      expectRuleArray(sort[field], `${sortPath}.${field}`);
+    }
+  }
+};
+
+const validateNumbering = (value: unknown, numberingPath: string): void => {
+  expectObject(value, numberingPath);
+  const numbering = value as Record<string, unknown>;
+  expectKnownFields(numbering, NUMBERING_FIELDS, numberingPath);
+
+  if (numbering.start !== undefined) {
+    expectNonNegativeNumber(numbering.start, `${numberingPath}.start`);
+  }
+  if (numbering.groupStarts !== undefined) {
+    expectObject(numbering.groupStarts, `${numberingPath}.groupStarts`);
+    for (const [group, start] of Object.entries(numbering.groupStarts as Record<string, unknown>)) {
+      expectNonNegativeNumber(start, `${numberingPath}.groupStarts['${group}']`);
+    }
+  }
+  if (numbering.stable !== undefined) {
+    expectBoolean(numbering.stable, `${numberingPath}.stable`);
+  }
+};
+
+const validateHdHomeRun = (value: unknown, hdHomeRunPath: string): void => {
+  expectObject(value, hdHomeRunPath);
+  const hdhomerun = value as Record<string, unknown>;
+  expectKnownFields(hdhomerun, HDHOMERUN_FIELDS, hdHomeRunPath);
+
+  if (hdhomerun.friendlyName !== undefined) {
+    expectString(hdhomerun.friendlyName, `${hdHomeRunPath}.friendlyName`);
+  }
+  if (hdhomerun.deviceId !== undefined && (typeof hdhomerun.deviceId !== "string" || !DEVICE_ID_PATTERN.test(hdhomerun.deviceId))) {
+    throw new ConfigValidationError(`${hdHomeRunPath}.deviceId must be 8 hexadecimal digits`);
+  }
+  if (hdhomerun.tunerCount !== undefined && (!Number.isInteger(hdhomerun.tunerCount) || (hdhomerun.tunerCount as number) < 1)) {
+    throw new ConfigValidationError(`${hdHomeRunPath}.tunerCount must be a positive integer`);
+  }
+};
+
+const validateHealthCheck = (value: unknown, healthCheckPath: string): void => {
+  expectObject(value, healthCheckPath);
+  const healthCheck = value as Record<string, unknown>;
+  expectKnownFields(healthCheck, HEALTH_CHECK_FIELDS, healthCheckPath);
+
+  for (const field of ["interval", "timeout"]) {
+    if (healthCheck[field] !== undefined) {
+      expectNonNegativeNumber(healthCheck[field], `${healthCheckPath}.${field}`);
+    }
+  }
+  for (const field of ["concurrency", "failuresBeforeDead"]) {
+    if (healthCheck[field] !== undefined) {
+      expectPositiveInteger(healthCheck[field], `${healthCheckPath}.${field}`);
+    }
+  }
+  expectOneOf(healthCheck.deadChannels, DEAD_CHANNEL_ACTIONS, `${healthCheckPath}.deadChannels`);
+  if (healthCheck.deadGroup !== undefined) {
+    expectString(healthCheck.deadGroup, `${healthCheckPath}.deadGroup`);
+  }
+};
+
+const validateRequest = (value: unknown, requestPath: string): void => {
+  expectObject(value, requestPath);
+  const request = value as Record<string, unknown>;
+  expectKnownFields(request, REQUEST_FIELDS, requestPath);
+
+  for (const field of ["connectTimeout", "readTimeout", "retryDelay"]) {
+    if (request[field] !== undefined) {
+      expectNonNegativeNumber(request[field], `${requestPath}.${field}`);
+    }
+  }
+  for (const field of ["retries", "maxRedirects"]) {
+    if (request[field] !== undefined && (!Number.isInteger(request[field]) || (request[field] as number) < 0)) {
+      throw new ConfigValidationError(`${requestPath}.${field} must be a non-negative integer`);
+    }
+  }
+  if (request.maxBytes !== undefined) {
+    expectPositiveInteger(request.maxBytes, `${requestPath}.maxBytes`);
+  }
+  if (request.headers !== undefined) {
+    expectObject(request.headers, `${requestPath}.headers`);
+    for (const [name, header] of Object.entries(request.headers as Record<string, unknown>)) {
+      if (typeof header !== "string") {
+        throw new ConfigValidationError(`${requestPath}.headers.${name} must be a string`);
+      }
+    }
+  }
+  if (request.userAgent !== undefined) {
+    expectString(request.userAgent, `${requestPath}.userAgent`);
+  }
+  if (request.proxy !== undefined) {
+    expectUrl(request.proxy, `${requestPath}.proxy`);
+  }
+  if (request.charset !== undefined && (typeof request.charset !== "string" || !isSupportedCharset(request.charset))) {
+    throw new ConfigValidationError(`${requestPath}.charset is not a known charset: '${request.charset}'`);
+  }
+};
+
+const validateUrlMode = (value: unknown, urlModePath: string, fields = URL_MODE_FIELDS): void => {
+  expectObject(value, urlModePath);
+  const urlMode = value as Record<string, unknown>;
+  expectKnownFields(urlMode, fields, urlModePath);
+
+  for (const field of ["enabled", "allowPrivateAddresses"]) {
+    if (urlMode[field] !== undefined) {
+      expectBoolean(urlMode[field], `${urlModePath}.${field}`);
+    }
+  }
+  if (urlMode.schemes !== undefined) {
+    expectStringArray(urlMode.schemes, `${urlModePath}.schemes`);
+    (urlMode.schemes as string[]).forEach((scheme, index) => expectOneOf(scheme, URL_SCHEMES, `${urlModePath}.schemes[${index}]`));
+  }
+  if (urlMode.hosts !== undefined) {
+    expectStringArray(urlMode.hosts, `${urlModePath}.hosts`);
+  }
+};
+
+const validateSource = (value: unknown, sourcePath: string): void => {
+  expectObject(value, sourcePath);
+  const source = value as Record<string, unknown>;
+  expectOneOf(source.type, SOURCE_TYPES, `${sourcePath}.type`);
+
+  if (source.type === "xtream") {
+    expectKnownFields(source, [...SOURCE_FIELDS, ...XTREAM_SOURCE_FIELDS], sourcePath);
+    expectUrl(source.server, `${sourcePath}.server`);
+    expectString(source.username, `${sourcePath}.username`);
+    expectString(source.password, `${sourcePath}.password`);
+    if (source.includeVod !== undefined) {
+      expectBoolean(source.includeVod, `${sourcePath}.includeVod`);
+    }
+    expectOneOf(source.output, XTREAM_OUTPUTS, `${sourcePath}.output`);
+  } else {
+    expectKnownFields(source, [...SOURCE_FIELDS, ...M3U_SOURCE_FIELDS], sourcePath);
+    expectUrl(source.url, `${sourcePath}.url`);
+  }
+  for (const field of ["name", "groupPrefix"]) {
+    if (source[field] !== undefined) {
+      expectString(source[field], `${sourcePath}.${field}`);
+    }
+  }
+  if (source.cacheTtl !== undefined) {
+    expectNonNegativeNumber(source.cacheTtl, `${sourcePath}.cacheTtl`);
+  }
+  if (source.request !== undefined) {
+    validateRequest(source.request, `${sourcePath}.request`);
+  }
+  validateFilters(source, sourcePath);
+};
+
+const validateFilters = (filters: Record<string, unknown>, fieldPath: string): void => {
+  for (const field of ["groupsToInclude", "groupsToExclude"]) {
+    if (filters[field] !== undefined) {
+      expectStringArray(filters[field], `${fieldPath}.${field}`);
+    }
+  }
+  for (const field of ["channelsToInclude", "channelsToExclude"]) {
+    if (filters[field] !== undefined) {
+      expectRuleArray(filters[field], `${fieldPath}.${field}`);
+    }
+  }
+};
+
+export const expectObject = (value: unknown, fieldPath: string): void => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ConfigValidationError(`${fieldPath} must be an object`);
+  }
+};
+
+export const expectKnownFields = (value: Record<string, unknown>, allowed: string[], fieldPath: string): void => {
+  const unknownField = Object.keys(value).find((field) => !allowed.includes(field));
+  if (unknownField) {
+    throw new ConfigValidationError(`${fieldPath}.${unknownField} is not a known field`);
+  }
+};
+
+export const expectString = (value: unknown, fieldPath: string): void => {
+  if (typeof value !== "string" || value.length === 0) {
+    throw new ConfigValidationError(`${fieldPath} must be a non-empty string`);
+  }
+};
+
+export const expectBoolean = (value: unknown, fieldPath: string): void => {
+  if (typeof value !== "boolean") {
+    throw new ConfigValidationError(`${fieldPath} must be a boolean`);
+  }
+};
+
+export const expectNonNegativeNumber = (value: unknown, fieldPath: string): void => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new ConfigValidationError(`${fieldPath} must be a non-negative number`);
+  }
+};
+
+export const expectPositiveInteger = (value: unknown, fieldPath: string): void => {
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    throw new ConfigValidationError(`${fieldPath} must be a positive integer`);
+  }
+};
+
+export const expectStringArray = (value: unknown, fieldPath: string): void => {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new ConfigValidationError(`${fieldPath} must be an array of strings`);
+  }
+};
+
+// Undefined is accepted: the field is optional
+export const expectOneOf = (value: unknown, allowed: readonly string[], fieldPath: string): void => {
+  if (value !== undefined && !allowed.includes(value as string)) {
+    throw new ConfigValidationError(`${fieldPath} must be one of ${allowed.join(", ")}`);
+  }
+};
+
+export const expectUrl = (value: unknown, fieldPath: string): void => {
+  expectString(value, fieldPath);
+  let parsed: URL;
+  try {
+    parsed = new URL(value as string);
+  } catch {
+    throw new ConfigValidationError(`${fieldPath} is not a valid URL: '${value}'`);
+  }
+  if (!ALLOWED_URL_PROTOCOLS.includes(parsed.protocol)) {
+    throw new ConfigValidationError(`${fieldPath} must be an http or https URL: '${value}'`);
+  }
+};
+
+// A token pasted in place of its hash fails at load time rather than silently never matching
+const expectTokenHashes = (value: unknown, fieldPath: string): void => {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string" || !TOKEN_HASH_PATTERN.test(item))) {
+    throw new ConfigValidationError(`${fieldPath} must be an array of token hashes ("sha256:" followed by 64 hex digits)`);
+  }
+};
+
+// Rules are compiled (and discarded) so that bad regexes fail at load time rather than per request
+const expectRuleArray = (value: unknown, fieldPath: string): void => {
+  if (!Array.isArray(value)) {
+    throw new ConfigValidationError(`${fieldPath} must be an array`);
+  }
+  value.forEach((rule, index) => {
+    try {
+      compileRules([rule]);
+    } catch (error) {
+      const reason = error instanceof InvalidRuleError ? error.message : String(error);
+      throw new ConfigValidationError(`${fieldPath}[${index}]: ${reason}`);
+    }
+  });
+};
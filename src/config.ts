@@ -1,20 +1,127 @@
 import * as path from "path";
 import { readFile } from "fs/promises"; // Only need readFile for async I/O
+import { ChannelRule } from "./rules";
+import { DedupeOptions } from "./dedupe";
+import { TransformRule } from "./transforms";
+import { SortOptions } from "./sorting";
+import { NumberingOptions } from "./numbering";
+import { HdHomeRunOptions } from "./hdhomerun";
+import type { XtreamCredentials } from "./xtream";
+import type { UrlPolicy } from "./url-policy";
+import type { StreamProxyMode } from "./stream-proxy";
+import type { ConnectionLimitAction } from "./stream-sessions";
+import type { HealthCheckOptions } from "./health-check";
+import type { DownloadOptions } from "./downloader";
+import { ConfigValidationError, validateConfigFile } from "./config-validation";
 
 const CONTAINER_CONFIG_PATH = "/etc/m3ufilter";
 const DEFAULT_CONFIG_FILE_NAME = "config.json";
+const LIST_REFERENCE_PREFIX = "@";
+const LIST_FIELDS = ["groupsToInclude", "groupsToExclude", "channelsToInclude", "channelsToExclude"] as const;
 
-export interface ProfileConfig {
-  url: string;
+export interface FilterConfig {
   groupsToInclude?: string[];
-  channelsToExclude?: string[];
+  groupsToExclude?: string[];
+  channelsToInclude?: ChannelRule[];
+  channelsToExclude?: ChannelRule[];
+}
+
+export type SourceFailurePolicy = "fail-open" | "fail-closed";
+
+interface SourceOptions extends FilterConfig {
+  // Label used in logs and response headers; defaults to the URL
+  name?: string;
+  // Prepended to the group-title of every entry of this source
+  groupPrefix?: string;
+  cacheTtl?: number;
+  // Timeouts, retries, size limit, headers and proxy; merged over those of the profile
+  request?: DownloadOptions;
+}
+
+export interface M3uSourceConfig extends SourceOptions {
+  type?: "m3u";
+  url: string;
+}
+
+// A provider panel read through its player_api.php instead of the full M3U export
+export interface XtreamSourceConfig extends SourceOptions {
+  type: "xtream";
+  // Panel address, e.g. http://panel.example.com:8080
+  server: string;
+  username: string;
+  password: string;
+  // Also list movies; off by default as VOD catalogues are large
+  includeVod?: boolean;
+  // Container of the live stream URLs; defaults to "ts"
+  output?: "ts" | "m3u8";
+}
+
+export type SourceConfig = M3uSourceConfig | XtreamSourceConfig;
+
+export const isXtreamSource = (source: SourceConfig): source is XtreamSourceConfig => source.type === "xtream";
+
+export interface ProfileConfig extends FilterConfig {
+  // Either a single url or a list of sources
+  url?: string;
+  sources?: SourceConfig[];
+  // fail-open (default) serves the sources that worked; fail-closed fails the whole request
+  sourceFailure?: SourceFailurePolicy;
+  // Seconds an upstream copy is served from cache before being revalidated
+  cacheTtl?: number;
+  // Filter while streaming instead of buffering the whole playlist (bypasses the cache)
+  stream?: boolean;
+  // Collapse duplicate channels; true uses the default preferences
+  dedupe?: boolean | DedupeOptions;
+  // Rename channels and rewrite attributes of the entries that passed the filters
+  transforms?: TransformRule[];
+  sort?: SortOptions;
+  // Assign tvg-chno; true numbers from 1 without remembering numbers between refreshes
+  numbering?: boolean | NumberingOptions;
+  // XMLTV guide to filter for /getepg; defaults to the x-tvg-url of the upstream playlist
+  epgUrl?: string;
+  // Serve the profile as an HDHomeRun tuner under /hdhomerun/<profile>
+  hdhomerun?: boolean | HdHomeRunOptions;
+  // Login for the Xtream Codes API; usernames must be unique across profiles, and the password may be a "sha256:<hex>" hash
+  xtream?: XtreamCredentials;
+  // Hashes ("sha256:<hex>") of the access tokens that may request this profile
+  tokens?: string[];
+  // Replace the stream URLs with /stream/<profile>/<id> URLs of this server, hiding provider logins
+  streamProxy?: StreamProxyMode;
+  // What relayed streams and health check probes may fetch, as urlMode does for url=; by default internal addresses are refused
+  streamPolicy?: Omit<UrlPolicy, "enabled">;
+  // Simultaneous streams the provider account allows; needs "streamProxy": "pipe" to be counted
+  maxConnections?: number;
+  onConnectionLimit?: ConnectionLimitAction;
+  // Probe the streams of the playlist in the background and handle the channels that keep failing
+  healthCheck?: boolean | HealthCheckOptions;
+  // Defaults for the downloads of every source of the profile, and of its guide
+  request?: DownloadOptions;
 }
 
 export interface ConfigFile {
   filePath?: string;
+  lists?: Record<string, ChannelRule[]>;
+  // Hashes of the tokens that may request every profile, arbitrary URLs and the discovery endpoints
+  adminTokens?: string[];
+  // What /getm3u?url=... and the other endpoints may fetch for a URL given in the query
+  urlMode?: UrlPolicy;
   profiles: { key: string; value: ProfileConfig }[];
 }
 
+// A profile as written in the config file, before lists and "extends" are resolved
+export interface ProfileDefinition extends Partial<ProfileConfig> {
+  extends?: string;
+  // Abstract profiles only serve as a base for others and cannot be requested
+  abstract?: boolean;
+}
+
+export interface RawConfigFile {
+  lists?: Record<string, ChannelRule[]>;
+  adminTokens?: string[];
+  urlMode?: UrlPolicy;
+  profiles: { key: string; value: ProfileDefinition }[];
+}
+
 const getUserConfigDir = (): string => {
   if (process.platform === "win32") {
     return process.env.APPDATA ?? "";
@@ -33,8 +140,16 @@ const getDefaultConfigFilePath = (): string => {
   return path.join(getUserConfigDir(), "m3ufilter");
 };
 
-const getDefaultConfigFile = (): string => path.join(getDefaultConfigFilePath(), DEFAULT_CONFIG_FILE_NAME);
+export const getProfileSources = (profile: ProfileConfig): SourceConfig[] => {
+  return profile.sources ?? [{ url: profile.url }];
+};
 
+export const getDefaultConfigFile = (): string => path.join(getDefaultConfigFilePath(), DEFAULT_CONFIG_FILE_NAME);
+
+/**
+ * Reads, validates and resolves a config file. A missing file yields an empty config;
+ * anything else that is wrong with the file throws a ConfigValidationError.
+ */
 export const loadConfig = async (options?: {
   configFile?: string;
   log?: boolean; // Optional: Enable/disable logging
@@ -42,32 +157,137 @@ export const loadConfig = async (options?: {
   const configFilePath = options?.configFile ?? getDefaultConfigFile();
   const shouldLog = options?.log ?? true;
 
+  if (shouldLog) {
+    console.log(`Loading config file from: ${configFilePath}`);
+  }
+
+  let fileContents: string;
   try {
-    if (shouldLog) {
-      console.log(`Loading config file from: ${configFilePath}`);
+    fileContents = await readFile(configFilePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      if (shouldLog) {
+        console.log(`Config file does not exist: '${configFilePath}'. Falling back to empty config.`);
+      }
+      return { profiles: [] };
     }
+    throw error;
+  }
 
-    const fileContents = await readFile(configFilePath, "utf-8");
-    const parsed = JSON.parse(fileContents) as ConfigFile;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fileContents);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    throw new ConfigValidationError(`'${configFilePath}' is not valid JSON: ${errorMsg}`);
+  }
+
+  const resolved = resolveConfig(validateConfigFile(parsed));
+  resolved.filePath = configFilePath;
+  return resolved;
+};
 
-    // Basic structure validation (expand as needed)
-    if (!Array.isArray(parsed.profiles)) {
-      throw new Error("Invalid config: 'profiles' must be an array");
+/**
+ * Expands "@list" references from the top-level "lists" and merges each profile over the
+ * profile named in its "extends". Abstract profiles are dropped from the result.
+ */
+export const resolveConfig = (raw: RawConfigFile): ConfigFile => {
+  const lists = raw.lists ?? {};
+  const definitions = new Map(raw.profiles.map((profile) => [profile.key, profile.value]));
+
+  const resolveProfile = (key: string, chain: string[]): ProfileDefinition => {
+    if (chain.includes(key)) {
+      throw new ConfigValidationError(`circular "extends" between profiles ${[...chain, key].join(" -> ")}`);
+    }
+    const definition = definitions.get(key);
+    if (!definition) {
+      throw new ConfigValidationError(`profile '${chain[chain.length - 1]}' extends unknown profile '${key}'`);
     }
+    // "extends" and "abstract" describe the definition itself and are never inherited
+    const { extends: baseKey, abstract: _abstract, ...own } = definition;
+    const base = baseKey ? resolveProfile(baseKey, [...chain, key]) : {};
+    const { abstract: _baseAbstract, ...inherited } = base;
+    return { ...inherited, ...own };
+  };
 
-    parsed.filePath = configFilePath;
-    return parsed;
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    if (errorMsg.includes('ENOENT') || errorMsg.includes('no such file')) {
-      if (shouldLog) {
-        console.log(`Config file does not exist: '${configFilePath}'. Falling back to empty config.`);
+  const profiles = raw.profiles
+    .filter((profile) => !profile.value.abstract)
+    .map((profile) => {
+      const value = resolveProfile(profile.key, []);
+      const profilePath = `profiles['${profile.key}']`;
+      resolveFilterLists(value, lists, profilePath);
+      if (value.sources) {
+        value.sources = value.sources.map((source, index) => {
+          const resolvedSource = { ...source };
+          resolveFilterLists(resolvedSource, lists, `${profilePath}.sources[${index}]`);
+          return resolvedSource;
+        });
       }
-    } else {
-      if (shouldLog) {
-        console.error(`Failed to load config from '${configFilePath}': ${errorMsg}`);
+      if (!value.url === !value.sources) {
+        throw new ConfigValidationError(`${profilePath} needs exactly one of "url" or "sources" (directly or through "extends")`);
       }
+      if (value.maxConnections !== undefined && value.streamProxy !== "pipe") {
+        throw new ConfigValidationError(`${profilePath}.maxConnections needs "streamProxy": "pipe", as only relayed streams can be counted`);
+      }
+      return { key: profile.key, value: value as ProfileConfig };
+    });
+
+  // Checked after "extends" is resolved, as a base profile would hand its login to every child
+  const xtreamUsers = new Map<string, string>();
+  for (const profile of profiles) {
+    const username = profile.value.xtream?.username;
+    if (username === undefined) {
+      continue;
+    }
+    if (xtreamUsers.has(username)) {
+      throw new ConfigValidationError(`profiles '${xtreamUsers.get(username)}' and '${profile.key}' use the same xtream username '${username}'`);
     }
-    return { profiles: [] }; // Graceful fallback
+    xtreamUsers.set(username, profile.key);
   }
+
+  return {
+    ...(raw.lists ? { lists } : {}),
+    ...(raw.adminTokens ? { adminTokens: raw.adminTokens } : {}),
+    ...(raw.urlMode ? { urlMode: raw.urlMode } : {}),
+    profiles,
+  };
+};
+
+const resolveFilterLists = (filters: FilterConfig, lists: Record<string, ChannelRule[]>, fieldPath: string): void => {
+  for (const field of LIST_FIELDS) {
+    if (filters[field]) {
+      (filters as Record<string, ChannelRule[]>)[field] = expandListReferences(filters[field], lists, `${fieldPath}.${field}`);
+    }
+  }
+  for (const field of ["groupsToInclude", "groupsToExclude"] as const) {
+    if (filters[field]?.some((group) => typeof group !== "string")) {
+      throw new ConfigValidationError(`${fieldPath}.${field} must only reference lists of strings`);
+    }
+  }
+};
+
+// "@name" is replaced by the list's items (lists may reference other lists); "@@x" is the literal "@x"
+const expandListReferences = (
+  items: ChannelRule[],
+  lists: Record<string, ChannelRule[]>,
+  fieldPath: string,
+  chain: string[] = []
+): ChannelRule[] => {
+  return items.flatMap((item): ChannelRule[] => {
+    if (typeof item !== "string" || !item.startsWith(LIST_REFERENCE_PREFIX)) {
+      return [item];
+    }
+    if (item.startsWith(LIST_REFERENCE_PREFIX + LIST_REFERENCE_PREFIX)) {
+      return [item.substring(1)];
+    }
+    const listName = item.substring(1);
+    if (chain.includes(listName)) {
+      throw new ConfigValidationError(`circular list reference ${[...chain, listName].map((name) => "@" + name).join(" -> ")} in ${fieldPath}`);
+    }
+    const list = lists[listName];
+    if (!Array.isArray(list)) {
+      throw new ConfigValidationError(`unknown list '${item}' referenced in ${fieldPath}`);
+    }
+    return expandListReferences(list, lists, fieldPath, [...chain, listName]);
+  });
 };
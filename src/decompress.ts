@@ -0,0 +1,64 @@
+import { Transform, TransformCallback } from "stream";
+import { createGunzip, createInflate } from "zlib";
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+// zlib (deflate) headers at the usual compression levels
+const ZLIB_MAGICS = [[0x78, 0x01], [0x78, 0x5e], [0x78, 0x9c], [0x78, 0xda]];
+const MAGIC_LENGTH = 2;
+
+const startsWith = (head: Buffer, magic: number[]): boolean => magic.every((byte, index) => head[index] === byte);
+
+/**
+ * Passes data through, gunzipping or inflating it when it starts with the gzip magic bytes or
+ * a zlib header. Needed for files such as guide.xml.gz or playlist.m3u.gz that are served
+ * without a Content-Encoding header; encoded responses are already decoded by axios.
+ */
+export class AutoDecompressStream extends Transform {
+  private head: Buffer | null = Buffer.alloc(0);
+  private inflater: Transform | null = null;
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    if (this.head === null) {
+      this.forward(chunk, callback);
+      return;
+    }
+    this.head = Buffer.concat([this.head, chunk]);
+    if (this.head.length < MAGIC_LENGTH) {
+      callback();
+      return;
+    }
+    const head = this.head;
+    this.head = null;
+    if (startsWith(head, GZIP_MAGIC)) {
+      this.inflater = createGunzip();
+    } else if (ZLIB_MAGICS.some((magic) => startsWith(head, magic))) {
+      this.inflater = createInflate();
+    }
+    if (this.inflater) {
+      this.inflater.on("data", (data: Buffer) => this.push(data));
+      this.inflater.on("error", (error) => this.destroy(error));
+    }
+    this.forward(head, callback);
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.head && this.head.length > 0) {
+      this.push(this.head);
+    }
+    if (!this.inflater) {
+      callback();
+      return;
+    }
+    this.inflater.once("end", () => callback());
+    this.inflater.end();
+  }
+
+  private forward(chunk: Buffer, callback: TransformCallback): void {
+    if (this.inflater) {
+      // Waiting for the write keeps the inflater's buffer, and so memory use, bounded
+      this.inflater.write(chunk, () => callback());
+    } else {
+      callback(null, chunk);
+    }
+  }
+}
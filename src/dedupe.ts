@@ -0,0 +1,122 @@
+import { getEntryName, M3uEntry } from "./m3uparser";
+
+export type DedupePreference = "quality" | "source" | "first";
+
+export interface DedupeOptions {
+  // Tie-breakers applied in order when choosing which duplicate to keep
+  prefer?: DedupePreference[];
+  // Source names, most preferred first; unlisted sources rank last
+  sourcePriority?: string[];
+  // Keep the URLs of dropped duplicates on the kept entry as backups
+  keepAlternates?: boolean;
+}
+
+export const DEDUPE_PREFERENCES: DedupePreference[] = ["quality", "source", "first"];
+
+// Higher is better; names without a quality tag rank just above SD
+const QUALITY_TAGS: [RegExp, number][] = [
+  [/\b(4k|uhd|2160p)\b/i, 4],
+  [/\b(fhd|1080[pi])\b/i, 3],
+  [/\b(hd|720p)\b/i, 2],
+  [/\b(sd|480p|576p)\b/i, 0],
+];
+const UNTAGGED_QUALITY = 1;
+
+// Words that describe the feed rather than the channel
+const NOISE_WORDS = new Set([
+  "4k", "uhd", "2160p", "fhd", "1080p", "1080i", "hd", "720p", "sd", "480p", "576p", "hevc", "h264", "h265", "backup",
+]);
+// Country codes dropped when they lead or trail a name, so "US: ESPN" and "ESPN US" match
+const COUNTRY_CODES = new Set(["us", "usa", "uk", "ca", "au", "nz", "ie", "fr", "de", "es", "it", "pt", "br", "mx", "nl"]);
+
+/**
+ * Collapses entries that show the same channel into one. Entries are grouped by tvg-id, or
+ * by normalized name when the tvg-id is missing or "NULL". The best entry of each group takes
+ * the place of the group's first entry.
+ */
+export const dedupeEntries = (entries: M3uEntry[], options: DedupeOptions = {}): M3uEntry[] => {
+  const groups = new Map<string, number[]>();
+  entries.forEach((entry, index) => {
+    const key = getDedupeKey(entry);
+    const group = groups.get(key);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(key, [index]);
+    }
+  });
+
+  const compare = createComparator(entries, options);
+  const result: M3uEntry[] = [];
+  for (const group of groups.values()) {
+    const [best, ...rest] = [...group].sort(compare);
+    if (!options.keepAlternates || rest.length === 0) {
+      result.push(entries[best]);
+      continue;
+    }
+    const bestUrl = entries[best].url;
+    const alternates = [...new Set(rest.map((index) => entries[index].url))].filter((url) => url !== bestUrl);
+    result.push(alternates.length > 0 ? { ...entries[best], alternates } : entries[best]);
+  }
+  return result;
+};
+
+export const getDedupeKey = (entry: M3uEntry): string => {
+  const tvgId = entry.attributes["tvg-id"]?.trim();
+  if (tvgId && tvgId.toUpperCase() !== "NULL") {
+    return `id:${tvgId.toLowerCase()}`;
+  }
+  const name = getEntryName(entry);
+  // Entries without any name, such as bare URL lines, only collapse with the same URL
+  return name === null ? `url:${entry.url}` : `name:${normalizeChannelName(name)}`;
+};
+
+// "US: ESPN FHD", "ESPN US" and "ESPN (HD)" all become "espn"; "CA - CBC Calgary" becomes "cbc calgary"
+export const normalizeChannelName = (name: string | null): string => {
+  if (name === null) {
+    return "";
+  }
+  const words = name
+    .replace(/[[(][^\])]*[\])]/g, " ")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word && !NOISE_WORDS.has(word));
+  if (words.length > 1 && COUNTRY_CODES.has(words[0])) {
+    words.shift();
+  }
+  if (words.length > 1 && COUNTRY_CODES.has(words[words.length - 1])) {
+    words.pop();
+  }
+  return words.length > 0 ? words.join(" ") : name.trim().toLowerCase();
+};
+
+export const getQualityRank = (entry: M3uEntry): number => {
+  const name = `${getEntryName(entry) ?? ""} ${entry.title}`;
+  const tag = QUALITY_TAGS.find(([pattern]) => pattern.test(name));
+  return tag ? tag[1] : UNTAGGED_QUALITY;
+};
+
+// Sorts entry indexes best first; the original position always breaks remaining ties
+const createComparator = (entries: M3uEntry[], options: DedupeOptions) => {
+  const prefer = options.prefer ?? DEDUPE_PREFERENCES;
+  const sourceRank = (entry: M3uEntry): number => {
+    const rank = entry.source ? (options.sourcePriority ?? []).indexOf(entry.source) : -1;
+    return rank === -1 ? Number.MAX_SAFE_INTEGER : rank;
+  };
+  return (a: number, b: number): number => {
+    for (const preference of prefer) {
+      let difference = 0;
+      if (preference === "quality") {
+        difference = getQualityRank(entries[b]) - getQualityRank(entries[a]);
+      } else if (preference === "source") {
+        difference = sourceRank(entries[a]) - sourceRank(entries[b]);
+      } else if (preference === "first") {
+        difference = a - b;
+      }
+      if (difference !== 0) {
+        return difference;
+      }
+    }
+    return a - b;
+  };
+};
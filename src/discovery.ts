@@ -0,0 +1,66 @@
+import { getEntryGroup, getEntryName, M3uEntry } from "./m3uparser";
+import { toJsonEntry } from "./output-formats";
+import type { EntryExplanation } from "./playlist-builder";
+import { createGroupMatcher, describeRule } from "./rules";
+
+export interface GroupSummary {
+  name: string;
+  count: number;
+}
+
+export interface RuleSummary {
+  stage: EntryExplanation["stage"];
+  reason: EntryExplanation["reason"];
+  rule?: string;
+  count: number;
+}
+
+// Distinct groups in playlist order, with the number of entries in each
+export const summarizeGroups = (entries: M3uEntry[]): GroupSummary[] => {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    const group = getEntryGroup(entry);
+    counts.set(group, (counts.get(group) ?? 0) + 1);
+  }
+  return [...counts].map(([name, count]) => ({ name, count }));
+};
+
+// Entries of the given groups, matched as groupsToInclude is; all entries when no group is given
+export const selectChannels = (entries: M3uEntry[], groups: string[]) => {
+  const isSelected = createGroupMatcher(groups);
+  return entries
+    .filter((entry) => groups.length === 0 || isSelected(getEntryGroup(entry)))
+    .map(toJsonEntry);
+};
+
+/**
+ * Dry-run report: how many entries were kept and dropped, how many entries each rule decided
+ * (most used first) and the decision for every entry.
+ */
+export const summarizeExplanation = (explanations: EntryExplanation[]) => {
+  const rules = new Map<string, RuleSummary>();
+  for (const { stage, reason, rule } of explanations) {
+    const description = rule === undefined ? undefined : describeRule(rule);
+    const key = JSON.stringify([stage, reason, description]);
+    const summary = rules.get(key) ?? { stage, reason, rule: description, count: 0 };
+    summary.count++;
+    rules.set(key, summary);
+  }
+  const kept = explanations.filter((explanation) => explanation.kept).length;
+
+  return {
+    kept,
+    dropped: explanations.length - kept,
+    rules: [...rules.values()].sort((a, b) => b.count - a.count),
+    entries: explanations.map(({ entry, kept, stage, reason, rule }) => ({
+      name: getEntryName(entry),
+      group: getEntryGroup(entry),
+      url: entry.url,
+      source: entry.source,
+      kept,
+      stage,
+      reason,
+      rule: rule === undefined ? undefined : describeRule(rule),
+    })),
+  };
+};
@@ -0,0 +1,54 @@
+import { Request } from "express";
+import { matchesTokenHash, parseBasicAuth } from "../auth";
+import { ConfigFile } from "../config";
+import { getConfig } from "../config-store";
+import { ForbiddenError, UnauthorizedError } from "./errors";
+
+// Access control is on as soon as the config has a token anywhere
+export const isAuthEnabled = (config: ConfigFile): boolean => {
+  return (config.adminTokens?.length ?? 0) > 0 || config.profiles.some(({ value }) => (value.tokens?.length ?? 0) > 0);
+};
+
+/**
+ * The access token of a request: a path segment (for the HDHomeRun device address), the
+ * `token` query param, or the password of Basic auth, as players cannot send other headers.
+ */
+export const getRequestToken = (req: Request): string | null => {
+  if (typeof req.params?.token === "string") {
+    return req.params.token;
+  }
+  const queryToken = req.query["token"];
+  if (typeof queryToken === "string") {
+    return queryToken;
+  }
+  return parseBasicAuth(req.get("authorization"))?.password ?? null;
+};
+
+/**
+ * Checks the access token of a request when the config has tokens. The admin tokens open
+ * everything; a profile's own tokens open that profile only.
+ * @param profileKey - The requested profile; without one (url= requests, discovery) only the admin tokens are accepted
+ * @throws UnauthorizedError - No token, or a token that matches no hash of the config
+ * @throws ForbiddenError - A valid token that does not open the requested profile
+ */
+export const authorizeRequest = (req: Request, profileKey?: string): void => {
+  const config = getConfig();
+  if (!isAuthEnabled(config)) {
+    return;
+  }
+  const token = getRequestToken(req);
+  if (!token) {
+    throw new UnauthorizedError('An access token is required');
+  }
+  if (matchesTokenHash(token, config.adminTokens ?? [])) {
+    return;
+  }
+  const profile = profileKey === undefined ? undefined : config.profiles.find(({ key }) => key === profileKey);
+  if (profile && matchesTokenHash(token, profile.value.tokens ?? [])) {
+    return;
+  }
+  if (config.profiles.some(({ value }) => matchesTokenHash(token, value.tokens ?? []))) {
+    throw new ForbiddenError('The access token does not give access to this resource');
+  }
+  throw new UnauthorizedError('Invalid access token');
+};
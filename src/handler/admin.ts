@@ -0,0 +1,244 @@
+import { NextFunction, Request, Response } from "express";
+import { getCsrfToken, parseBasicAuth, safeEqual } from "../auth";
+import { getProfileSources, ProfileConfig } from "../config";
+import { applyProfileEdit, checkRawConfig, getProfileFilters, ProfileFilterEdit, readRawConfig, writeRawConfig } from "../config-editor";
+import { getConfig, getConfigFilePath, reloadConfig } from "../config-store";
+import { explainPlaylist, fetchUnfilteredPlaylist } from "../playlist-builder";
+import { GroupSummary, summarizeGroups } from "../discovery";
+import { ProfileEditorModel, renderPage, renderProfileEditor, renderProfileList } from "../admin-views";
+import { ChannelRule } from "../rules";
+import { escapeXml as escapeHtml } from "../xmltv";
+import { ForbiddenError, getErrorStatus, NotFoundError, ValidationError } from "./errors";
+import { getProfileRequestOptions, toBuildPlaylistOptions } from "./request-options";
+import { logger } from "../logger";
+
+const ADMIN_PASSWORD_ENV_VARIABLE = "ADMIN_PASSWORD";
+const REALM = "m3ufilter admin";
+// Pages must work over plain HTTP on a home network, so the app-wide policy that upgrades form posts to HTTPS is replaced
+const CONTENT_SECURITY_POLICY = "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'; frame-ancestors 'none'; base-uri 'none'";
+
+/**
+ * Guards the admin pages. They do not exist unless ADMIN_PASSWORD is set; then the password
+ * is asked with HTTP Basic authentication (any user name).
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  const password = getAdminPassword();
+  if (!password) {
+    res.status(404).json({ error: 'Endpoint not found' });
+    return;
+  }
+  const credentials = parseBasicAuth(req.get("authorization"));
+  if (!credentials || !safeEqual(password, credentials.password)) {
+    if (credentials) {
+      logger.warn({ ip: req.ip, url: req.url }, 'Admin login failed');
+    }
+    res.set("WWW-Authenticate", `Basic realm="${REALM}", charset="UTF-8"`);
+    res.status(401).json({ error: 'Admin password required' });
+    return;
+  }
+  next();
+};
+
+/**
+ * Handles GET /admin: lists the profiles of the config.
+ */
+export const handleAdminIndex = async (options: {
+  req: Request;
+  res: Response;
+}) => {
+  logger.info({ method: options.req.method, url: options.req.url, ip: options.req.ip }, 'Admin request started');
+
+  const profiles = getConfig().profiles.map(({ key, value }) => ({
+    key,
+    sourceCount: getProfileSources(value).length,
+    groupCount: value.groupsToInclude?.length ?? 0,
+    ruleCount: value.channelsToExclude?.length ?? 0,
+  }));
+  sendHtml(options.res, 200, renderProfileList(profiles, getConfigFilePath() ?? ""));
+};
+
+/**
+ * Handles GET /admin/profiles/:profile: the filter editor, with the groups of the profile's
+ * sources as a checklist.
+ * @throws NotFoundError - Missing config profile
+ */
+export const handleAdminProfile = async (options: {
+  req: Request;
+  res: Response;
+}) => {
+  logger.info({ method: options.req.method, url: options.req.url, ip: options.req.ip }, 'Admin request started');
+  const profileKey = String(options.req.params.profile);
+
+  try {
+    const snapshot = await readRawConfig(getRequiredConfigFilePath());
+    const profile = findProfile(checkRawConfig(snapshot.raw).profiles, profileKey);
+    sendHtml(options.res, 200, renderProfileEditor({
+      profileKey,
+      csrfToken: getCsrfToken(getAdminPassword()),
+      version: snapshot.version,
+      filters: getProfileFilters(snapshot.raw, profileKey),
+      groups: await loadGroups(profileKey, profile),
+      message: options.req.query["saved"] ? { kind: "info", text: "Saved." } : undefined,
+    }));
+  } catch (error) {
+    sendAdminError(options.res, error);
+  }
+};
+
+/**
+ * Handles POST /admin/profiles/:profile: previews the channel count of the edited filters or
+ * saves them to the config file. Form errors re-render the form with what was entered.
+ * @throws ForbiddenError - Missing or wrong form token
+ * @throws ValidationError - Invalid rules, or a config that would not load
+ * @throws ConfigConflictError - The config file changed since the form was loaded
+ */
+export const handleAdminProfileUpdate = async (options: {
+  req: Request;
+  res: Response;
+}) => {
+  logger.info({ method: options.req.method, url: options.req.url, ip: options.req.ip }, 'Admin update started');
+  const profileKey = String(options.req.params.profile);
+  const body = (options.req.body ?? {}) as Record<string, unknown>;
+
+  if (typeof body.csrf !== "string" || !safeEqual(getCsrfToken(getAdminPassword()), body.csrf)) {
+    sendAdminError(options.res, new ForbiddenError("The form has expired; reload the page and try again"));
+    return;
+  }
+
+  const version = typeof body.version === "string" ? body.version : "";
+  const filters = parseFilterForm(body);
+  let profile: ProfileConfig | null = null;
+  try {
+    checkRuleLines(body.channelsToExclude, "Channels to exclude");
+    const snapshot = await readRawConfig(getRequiredConfigFilePath());
+    findProfile(checkRawConfig(snapshot.raw).profiles, profileKey);
+    const edited = applyProfileEdit(snapshot.raw, profileKey, filters);
+    profile = findProfile(checkRawConfig(edited).profiles, profileKey);
+
+    if (body.action === "save") {
+      await writeRawConfig(getRequiredConfigFilePath(), edited, version);
+      await reloadConfig();
+      logger.info({ profileKey }, 'Profile saved from the admin page');
+      options.res.redirect(303, `/admin/profiles/${encodeURIComponent(profileKey)}?saved=1`);
+      return;
+    }
+
+    const explanation = await explainPlaylist(toBuildPlaylistOptions(getProfileRequestOptions(profileKey, profile)));
+    const kept = explanation.entries.filter((entry) => entry.kept).length;
+    sendHtml(options.res, 200, renderProfileEditor({
+      profileKey,
+      csrfToken: body.csrf,
+      version,
+      filters,
+      groups: summarizeGroups(explanation.entries.map(({ entry }) => entry)),
+      preview: { kept, dropped: explanation.entries.length - kept },
+    }));
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      sendAdminError(options.res, error);
+      return;
+    }
+    logger.warn({ profileKey, error: error instanceof Error ? error.message : String(error) }, 'Admin update failed');
+    const model: ProfileEditorModel = {
+      profileKey,
+      csrfToken: body.csrf,
+      version,
+      filters,
+      groups: profile ? await loadGroups(profileKey, profile) : null,
+      message: { kind: "error", text: getErrorMessage(error) },
+    };
+    sendHtml(options.res, getErrorStatus(error), renderProfileEditor(model));
+  }
+};
+
+const getAdminPassword = (): string => process.env[ADMIN_PASSWORD_ENV_VARIABLE] ?? "";
+
+const getRequiredConfigFilePath = (): string => {
+  const configFile = getConfigFilePath();
+  if (!configFile) {
+    throw new Error("No config file is loaded");
+  }
+  return configFile;
+};
+
+// Abstract profiles cannot be requested and have no sources of their own, so they are not edited here
+const findProfile = (profiles: { key: string; value: ProfileConfig }[], profileKey: string): ProfileConfig => {
+  const profile = profiles.find(({ key }) => key === profileKey);
+  if (!profile) {
+    throw new NotFoundError(`No profile named ${profileKey} found in config`);
+  }
+  return profile.value;
+};
+
+// The editor still works without the checklist when the sources are down
+const loadGroups = async (profileKey: string, profile: ProfileConfig): Promise<GroupSummary[] | null> => {
+  try {
+    const unfiltered = await fetchUnfilteredPlaylist(toBuildPlaylistOptions(getProfileRequestOptions(profileKey, profile)));
+    return summarizeGroups(unfiltered.playlist.entries);
+  } catch (error) {
+    logger.warn({ profileKey, error: error instanceof Error ? error.message : String(error) }, 'Could not load groups for the admin page');
+    return null;
+  }
+};
+
+const parseFilterForm = (body: Record<string, unknown>): ProfileFilterEdit => {
+  const checkedGroups = [body.groups ?? []].flat().map(String);
+  return {
+    groupsToInclude: [...new Set([...checkedGroups, ...parseLines(body.otherGroups)])],
+    groupsToExclude: parseLines(body.groupsToExclude),
+    channelsToExclude: parseRuleLines(body.channelsToExclude),
+  };
+};
+
+const parseLines = (value: unknown): string[] => {
+  return typeof value === "string" ? value.split(/\r?\n/).map((line) => line.trim()).filter(Boolean) : [];
+};
+
+// Lines starting with "{" are JSON rule objects; anything else is a plain or shorthand rule
+const parseRuleLines = (value: unknown): ChannelRule[] => {
+  return parseLines(value).map((line) => parseJsonRule(line) ?? line);
+};
+
+// Lines that are not valid JSON are kept by parseRuleLines, so that the form can show them again
+const checkRuleLines = (value: unknown, label: string): void => {
+  const index = parseLines(value).findIndex((line) => line.startsWith("{") && parseJsonRule(line) === null);
+  if (index !== -1) {
+    throw new ValidationError(`${label}, line ${index + 1}: not a valid JSON rule`);
+  }
+};
+
+const parseJsonRule = (line: string): ChannelRule | null => {
+  if (!line.startsWith("{")) {
+    return null;
+  }
+  try {
+    return JSON.parse(line) as ChannelRule;
+  } catch {
+    return null;
+  }
+};
+
+const sendAdminError = (res: Response, error: unknown) => {
+  const status = getErrorStatus(error);
+  if (status === 500) {
+    logger.error({ error: error instanceof Error ? error.message : 'Unknown error', stack: error instanceof Error ? error.stack : undefined }, 'Admin handler failed');
+  }
+  sendHtml(res, status, renderPage("Error", `<h1>Error</h1>\n<p class="error">${escapeHtml(getErrorMessage(error))}</p>\n<p><a href="/admin">Back to profiles</a></p>`));
+};
+
+// Upstream and internal details stay in the logs
+const getErrorMessage = (error: unknown): string => {
+  const status = getErrorStatus(error);
+  if (status === 502) {
+    return "The sources of the profile could not be fetched";
+  } else if (status === 500) {
+    return "Internal server error";
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+const sendHtml = (res: Response, status: number, html: string) => {
+  res.set("Content-Security-Policy", CONTENT_SECURITY_POLICY);
+  res.set("Cache-Control", "no-store");
+  res.status(status).type("html").send(html);
+};
@@ -0,0 +1,103 @@
+import { explainPlaylist, fetchUnfilteredPlaylist } from "../playlist-builder";
+import { selectChannels, summarizeExplanation, summarizeGroups } from "../discovery";
+import { CacheStatus } from "../playlist-cache";
+import { Request, Response } from "express";
+import { authorizeRequest } from "./access";
+import { sendErrorResponse } from "./errors";
+import {
+  getFilterOptionsFromUrlOrConfig,
+  parseArrayParam,
+  parseRequestParams,
+  toBuildPlaylistOptions,
+} from "./request-options";
+import { logger } from "../logger";
+
+/**
+ * Handles GET /groups requests: lists the groups of the sources for the same query as /getm3u,
+ * before any filter, with the number of channels in each.
+ * @throws ValidationError - Invalid params
+ * @throws UnauthorizedError - Missing or invalid admin token
+ * @throws ForbiddenError - Access token of a profile
+ * @throws NotFoundError - Missing config profile
+ * @throws UpstreamError - Download failure
+ */
+export const handleGroups = async (options: {
+  req: Request;
+  res: Response;
+}) => {
+  logger.info({ method: options.req.method, url: options.req.url, ip: options.req.ip }, 'Groups request started');
+
+  try {
+    // Only admin tokens open discovery: entries name their sources, by default their URLs with the provider login
+    authorizeRequest(options.req);
+    const filterOptions = getFilterOptionsFromUrlOrConfig(parseRequestParams(options.req));
+    const unfiltered = await fetchUnfilteredPlaylist(toBuildPlaylistOptions(filterOptions));
+    setSourceHeaders(options.res, unfiltered);
+    options.res.json({ groups: summarizeGroups(unfiltered.playlist.entries) });
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : 'Unknown error', stack: error instanceof Error ? error.stack : undefined }, 'Groups handler failed');
+    return sendErrorResponse(options.res, error, 'Failed to fetch remote playlist');
+  }
+};
+
+/**
+ * Handles GET /channels requests: lists the entries of the sources before any filter, with
+ * their attributes, optionally only those of the groups given in `group`.
+ * @throws ValidationError - Invalid params
+ * @throws UnauthorizedError - Missing or invalid admin token
+ * @throws ForbiddenError - Access token of a profile
+ * @throws NotFoundError - Missing config profile
+ * @throws UpstreamError - Download failure
+ */
+export const handleChannels = async (options: {
+  req: Request;
+  res: Response;
+}) => {
+  logger.info({ method: options.req.method, url: options.req.url, ip: options.req.ip }, 'Channels request started');
+
+  try {
+    authorizeRequest(options.req);
+    const filterOptions = getFilterOptionsFromUrlOrConfig(parseRequestParams(options.req));
+    const unfiltered = await fetchUnfilteredPlaylist(toBuildPlaylistOptions(filterOptions));
+    const groups = parseArrayParam(options.req.query["group"]);
+    setSourceHeaders(options.res, unfiltered);
+    options.res.json({ channels: selectChannels(unfiltered.playlist.entries, groups) });
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : 'Unknown error', stack: error instanceof Error ? error.stack : undefined }, 'Channels handler failed');
+    return sendErrorResponse(options.res, error, 'Failed to fetch remote playlist');
+  }
+};
+
+/**
+ * Handles GET /dryrun requests: runs the filters for the same query as /getm3u and reports, for
+ * every entry, whether it was kept or dropped and which rule decided.
+ * @throws ValidationError - Invalid params or rules
+ * @throws UnauthorizedError - Missing or invalid admin token
+ * @throws ForbiddenError - Access token of a profile
+ * @throws NotFoundError - Missing config profile
+ * @throws UpstreamError - Download failure
+ */
+export const handleDryRun = async (options: {
+  req: Request;
+  res: Response;
+}) => {
+  logger.info({ method: options.req.method, url: options.req.url, ip: options.req.ip }, 'Dry run request started');
+
+  try {
+    authorizeRequest(options.req);
+    const filterOptions = getFilterOptionsFromUrlOrConfig(parseRequestParams(options.req));
+    const explanation = await explainPlaylist(toBuildPlaylistOptions(filterOptions));
+    setSourceHeaders(options.res, explanation);
+    options.res.json(summarizeExplanation(explanation.entries));
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : 'Unknown error', stack: error instanceof Error ? error.stack : undefined }, 'Dry run handler failed');
+    return sendErrorResponse(options.res, error, 'Failed to fetch remote playlist');
+  }
+};
+
+const setSourceHeaders = (res: Response, result: { cacheStatus: CacheStatus; failedSources: string[] }) => {
+  res.set("X-Cache", result.cacheStatus);
+  if (result.failedSources.length > 0) {
+    res.set("X-Failed-Sources", result.failedSources.join(", "));
+  }
+};
@@ -0,0 +1,72 @@
+import { Response } from "express";
+import { InvalidRuleError } from "../rules";
+import { SourceFetchError } from "../playlist-builder";
+import { ConfigConflictError } from "../config-editor";
+import { ConfigValidationError } from "../config-validation";
+import { BlockedUrlError } from "../url-policy";
+import { StreamLimitError } from "../stream-sessions";
+import { DownloadError, DownloadTimeoutError, HttpStatusError } from "../downloader";
+
+// Custom error classes
+export class ValidationError extends Error {}
+export class UnauthorizedError extends Error {}
+export class ForbiddenError extends Error {}
+export class NotFoundError extends Error {}
+export class UpstreamError extends Error {}
+
+/**
+ * Maps an error to a JSON error response: 400 for bad input, 401 for a failed login, 403 for a
+ * refused request, 404 for unknown profiles, 409 for conflicting config edits, 502 when the
+ * upstream failed, 503 when a profile has no stream left, 504 when the upstream timed out and
+ * 500 for anything else. An upstream that answered with an error status is named in the body.
+ * @param upstreamMessage - Shown instead of the details of an upstream failure
+ */
+export const sendErrorResponse = (res: Response, error: unknown, upstreamMessage: string) => {
+  // A stream that fails midway cannot switch to an error response anymore
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  const status = getErrorStatus(error);
+  if (status === 401) {
+    // Lets players and browsers ask for the token as a password
+    res.set("WWW-Authenticate", 'Basic realm="m3ufilter", charset="UTF-8"');
+  }
+  if (status === 502 || status === 504) {
+    const downloadError = getDownloadError(error);
+    const upstreamStatus = downloadError instanceof HttpStatusError ? { upstreamStatus: downloadError.status } : {};
+    return res.status(status).json({ error: upstreamMessage, ...upstreamStatus });
+  } else if (status === 500) {
+    // Fallback for unclassified errors (e.g., from filterM3u)
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+  return res.status(status).json({ error: (error as Error).message });
+};
+
+export const getErrorStatus = (error: unknown): number => {
+  if (error instanceof ValidationError || error instanceof InvalidRuleError || error instanceof ConfigValidationError) {
+    return 400;
+  } else if (error instanceof UnauthorizedError) {
+    return 401;
+  } else if (error instanceof ForbiddenError || error instanceof BlockedUrlError) {
+    return 403;
+  } else if (error instanceof NotFoundError) {
+    return 404;
+  } else if (error instanceof ConfigConflictError) {
+    return 409;
+  } else if (error instanceof UpstreamError || error instanceof SourceFetchError || error instanceof DownloadError) {
+    return getDownloadError(error) instanceof DownloadTimeoutError ? 504 : 502;
+  } else if (error instanceof StreamLimitError) {
+    return 503;
+  }
+  return 500;
+};
+
+// Upstream failures carry the download error that caused them
+const getDownloadError = (error: unknown): DownloadError | undefined => {
+  if (error instanceof DownloadError) {
+    return error;
+  }
+  const cause = (error as Error | undefined)?.cause;
+  return cause instanceof DownloadError ? cause : undefined;
+};
@@ -0,0 +1,75 @@
+import { downloadStream } from "../downloader";
+import { buildPlaylist } from "../playlist-builder";
+import { getEpgChannelIds, getPlaylistEpgUrl, getXmlDeclarationCharset, XML_DECLARATION_SNIFF_LENGTH, XmltvFilterStream } from "../xmltv";
+import { DecodeTextStream } from "../charset";
+import { Request, Response } from "express";
+import { pipeline } from "stream/promises";
+import { authorizeRequest } from "./access";
+import { NotFoundError, sendErrorResponse, UpstreamError } from "./errors";
+import {
+  getFilterOptionsFromUrlOrConfig,
+  parseRequestParams,
+  PlaylistRequestOptions,
+  toBuildPlaylistOptions,
+} from "./request-options";
+import { logger } from "../logger";
+
+/**
+ * Handles GET /getepg requests: builds the playlist for the same query as /getm3u, then streams
+ * its XMLTV guide (plain or gzipped) filtered down to the channels left in the playlist.
+ * @throws UnauthorizedError - Missing or invalid access token
+ * @throws ForbiddenError - Access token of another profile
+ * @throws NotFoundError - Missing config profile, or no guide URL known for the playlist
+ * @throws UpstreamError - Guide download failure
+ */
+export const handleGetepg = async (options: {
+  req: Request;
+  res: Response;
+}) => {
+  logger.info({ method: options.req.method, url: options.req.url, ip: options.req.ip }, 'EPG request started');
+
+  try {
+    const args = parseRequestParams(options.req);
+    authorizeRequest(options.req, args.profileKey);
+    const filterOptions = getFilterOptionsFromUrlOrConfig(args);
+    await sendFilteredEpg(options.res, filterOptions);
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : 'Unknown error', stack: error instanceof Error ? error.stack : undefined }, 'EPG handler failed');
+    return sendErrorResponse(options.res, error, 'Failed to fetch remote EPG');
+  }
+};
+
+/**
+ * Streams the guide of the playlist built from `filterOptions`, keeping only its channels.
+ * @throws NotFoundError - No guide URL known for the playlist
+ * @throws UpstreamError - Guide download failure
+ */
+export const sendFilteredEpg = async (res: Response, filterOptions: PlaylistRequestOptions) => {
+  const builtPlaylist = await buildPlaylist(toBuildPlaylistOptions(filterOptions));
+  const epgUrl = filterOptions.epgUrl ?? getPlaylistEpgUrl(builtPlaylist.playlist.headerAttributes);
+  if (!epgUrl) {
+    throw new NotFoundError('No EPG URL is configured or announced by the playlist');
+  }
+  const channelIds = getEpgChannelIds(builtPlaylist.playlist.entries);
+
+  let upstream;
+  try {
+    // The guide URL of a url= request comes from the caller's playlist, so it falls under the same policy
+    upstream = await downloadStream({ url: epgUrl, policy: filterOptions.urlPolicy, request: filterOptions.request });
+  } catch (error) {
+    throw new UpstreamError(error instanceof Error ? error.message : String(error), { cause: error });
+  }
+  res.set("Content-Type", "application/xml; charset=utf-8");
+  // The guide comes decompressed. The charset of the source wins, then the XML declaration, then the Content-Type
+  await pipeline(
+    upstream.stream,
+    new DecodeTextStream(upstream.charset, filterOptions.request?.charset ? {} : {
+      sniffCharset: getXmlDeclarationCharset,
+      sniffLength: XML_DECLARATION_SNIFF_LENGTH,
+    }),
+    new XmltvFilterStream({ channelIds }),
+    res
+  );
+
+  logger.info({ epgUrl, channelCount: channelIds.size }, 'EPG filtered and streamed');
+};
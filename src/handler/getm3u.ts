@@ -1,52 +1,37 @@
-import { download, DownloadResponse } from "../downloader";
-import { filterM3u } from "../m3uparser";
-import { ConfigFile, loadConfig } from "../config";
+import { DownloadResponse, downloadStream, mergeDownloadOptions } from "../downloader";
+import { createEntryFilter } from "../m3uparser";
+import { M3UFilterStream } from "../m3ustream";
+import { DecodeTextStream } from "../charset";
+import { applySourceToEntry, buildPlaylist, BuiltPlaylist, getSourceName } from "../playlist-builder";
+import { isXtreamSource, M3uSourceConfig } from "../config";
+import { getOutputSerializer, OutputFormat, OutputSerializer } from "../output-formats";
+import { compileTransforms } from "../transforms";
+import { getPlaylistEpgUrl, setPlaylistEpgUrl } from "../xmltv";
 import { Request, Response } from "express";
-import pino from 'pino'; // npm i pino
-
-const logger = pino({ level: process.env.LOG_LEVEL || 'info' });
-
-// Custom error classes
-class ValidationError extends Error {}
-class NotFoundError extends Error {}
-class UpstreamError extends Error {}
-
-// Utility for parsing array params safely (updated to handle broader query types)
-const parseArrayParam = (param: unknown): string[] => {
-  if (Array.isArray(param)) {
-    return param.flat().map(s => String(s).trim()).filter(Boolean);
-  } else if (typeof param === 'string') {
-    return param.split(',').map(s => s.trim()).filter(Boolean);
-  } else if (param === undefined || param === null) {
-    return [];
-  } else {
-    // Fallback for unexpected types (e.g., ParsedQs objects)
-    logger.warn({ paramType: typeof param, paramValue: param }, 'Unexpected query param type');
-    return [String(param).trim()].filter(Boolean);
-  }
-};
-
-interface GetM3uCommonArgs {
-  groupsToInclude?: string[];
-  channelsToExclude?: string[];
-}
-
-interface GetM3uUrlArgs extends GetM3uCommonArgs {
-  url: string;
-  profileKey?: never;
-}
-
-interface GetM3uConfigArgs extends GetM3uCommonArgs {
-  profileKey: string;
-  url?: never;
-}
-
-export type GetM3uArgs = GetM3uUrlArgs | GetM3uConfigArgs;
+import { pipeline } from "stream/promises";
+import { authorizeRequest } from "./access";
+import { sendErrorResponse, UpstreamError } from "./errors";
+import { getEntryProxy } from "./stream";
+import {
+  getFilterOptionsFromUrlOrConfig,
+  getPublicUrl,
+  parseRequestParams,
+  PlaylistRequestOptions,
+  toBuildPlaylistOptions,
+} from "./request-options";
+import { logger } from "../logger";
+
+export type { GetM3uArgs } from "./request-options";
+
+// Served for .m3u.gz files, which reach the player decompressed
+const COMPRESSED_MEDIA_TYPES = ["application/gzip", "application/x-gzip", "application/octet-stream"];
 
 /**
  * Handles GET /m3u requests: Downloads and filters an M3U playlist based on URL or profile.
  * @param options - Request/response objects
  * @throws ValidationError - Invalid params
+ * @throws UnauthorizedError - Missing or invalid access token
+ * @throws ForbiddenError - Access token of another profile
  * @throws NotFoundError - Missing config profile
  * @throws UpstreamError - Download failure
  * @returns Filtered M3U response
@@ -59,133 +44,155 @@ export const handleGetm3u = async (options: {
 
   try {
     const args = parseRequestParams(options.req);
-    const filterOptions = await getFilterOptionsFromUrlOrConfig(args); // Await the async function
-    const serverResponse = await download({ url: filterOptions.url });
-
-    // Quick performance win: Size limit to prevent memory issues (consider streaming for large files)
-    if (serverResponse.data.length > 60 * 1024 * 1024) { // 60MB threshold
-      throw new UpstreamError('Playlist too large to process');
-    }
-
-    const filteredM3uFileContents = filterM3u({
-      groupsToInclude: filterOptions.groupsToInclude,
-      channelsToExclude: filterOptions.channelsToExclude,
-      fileContents: serverResponse.data,
-    });
-
-    setHeaders(options.res, serverResponse, filteredM3uFileContents);
-    options.res.send(filteredM3uFileContents);
-
-    logger.info({
-      url: filterOptions.url,
-      groupsCount: filterOptions.groupsToInclude?.length || 0,
-      excludesCount: filterOptions.channelsToExclude?.length || 0,
-      responseSize: filteredM3uFileContents.length,
-    }, 'M3U filtered and sent');
+    authorizeRequest(options.req, args.profileKey);
+    const filterOptions = getFilterOptionsFromUrlOrConfig(args);
+    await sendPlaylist(options.req, options.res, filterOptions, "/getepg");
   } catch (error) {
     logger.error({ error: error instanceof Error ? error.message : 'Unknown error', stack: error instanceof Error ? error.stack : undefined }, 'M3U handler failed');
-    if (error instanceof ValidationError) {
-      return options.res.status(400).json({ error: error.message });
-    } else if (error instanceof NotFoundError) {
-      return options.res.status(404).json({ error: error.message });
-    } else if (error instanceof UpstreamError) {
-      return options.res.status(502).json({ error: 'Failed to fetch remote playlist' });
-    }
-    // Fallback for unclassified errors (e.g., from filterM3u)
-    options.res.status(500).json({ error: 'Internal server error' });
+    return sendErrorResponse(options.res, error, 'Failed to fetch remote playlist');
   }
 };
 
-const setHeaders = (
-  res: Response,
-  serverResponse: DownloadResponse,
-  filteredM3uFileContents: string
-) => {
-  res.set("Content-Type", serverResponse.headers?.["content-type"] || "application/vnd.apple.mpegurl");
-  if (serverResponse.headers?.["content-description"]) {
-    res.set("Content-Description", serverResponse.headers["content-description"]);
-  }
-  if (serverResponse.headers?.["expires"]) {
-    res.set("Expires", serverResponse.headers["expires"]);
+/**
+ * Builds (or streams) the filtered playlist and sends it, pointing the announced guide URL at
+ * `epgPath` with the query of the current request.
+ */
+export const sendPlaylist = async (req: Request, res: Response, filterOptions: PlaylistRequestOptions, epgPath: string) => {
+  if (filterOptions.stream && canStream(filterOptions)) {
+    await streamFilteredM3u(req, res, filterOptions, epgPath);
+    return;
   }
-  if (serverResponse.headers?.["cache-control"]) {
-    res.set("Cache-Control", serverResponse.headers["cache-control"]);
+
+  const builtPlaylist = await buildPlaylist(toBuildPlaylistOptions(filterOptions));
+  const entryProxy = await getEntryProxy(req, filterOptions);
+  const format = filterOptions.format ?? "m3u";
+  const serializer = getOutputSerializer(format);
+  const filteredM3uFileContents = serializer.serialize({
+    entries: entryProxy ? builtPlaylist.playlist.entries.map(entryProxy) : builtPlaylist.playlist.entries,
+    headerAttributes: proxyEpgUrl(req, builtPlaylist.playlist.headerAttributes, epgPath, filterOptions.epgUrl),
+  });
+
+  if (format === "m3u") {
+    setUpstreamHeaders(res, builtPlaylist.headers);
+  } else {
+    setFormatHeaders(res, serializer, filterOptions.stateKey);
   }
-  if (serverResponse.headers?.["content-disposition"]) {
-    res.set("Content-Disposition", serverResponse.headers["content-disposition"]);
+  res.set("Content-Length", Buffer.byteLength(filteredM3uFileContents, "utf-8").toString());
+  setCacheHeaders(res, builtPlaylist);
+  res.send(filteredM3uFileContents);
+
+  logger.info({
+    sources: filterOptions.sources.map(getSourceName),
+    failedSources: builtPlaylist.failedSources,
+    cacheStatus: builtPlaylist.cacheStatus,
+    groupsCount: filterOptions.groupsToInclude?.length || 0,
+    excludedGroupsCount: filterOptions.groupsToExclude?.length || 0,
+    includesCount: filterOptions.channelsToInclude?.length || 0,
+    excludesCount: filterOptions.channelsToExclude?.length || 0,
+    format,
+    responseSize: filteredM3uFileContents.length,
+  }, 'M3U filtered and sent');
+};
+
+// Streaming handles a single M3U source entry by entry; anything needing the whole list is buffered
+const canStream = (filterOptions: PlaylistRequestOptions): boolean => {
+  return filterOptions.sources.length === 1 && !isXtreamSource(filterOptions.sources[0]) &&
+    !filterOptions.dedupe && !filterOptions.sort && !filterOptions.numbering && !filterOptions.healthCheck && isM3u(filterOptions.format);
+};
+
+const isM3u = (format?: OutputFormat): boolean => !format || format === "m3u";
+
+/**
+ * Streaming mode: the upstream body is filtered entry by entry and piped to the client with
+ * chunked encoding, so memory use does not grow with the playlist. Bypasses the upstream cache.
+ */
+const streamFilteredM3u = async (req: Request, res: Response, filterOptions: PlaylistRequestOptions, epgPath: string) => {
+  const source = filterOptions.sources[0] as M3uSourceConfig;
+  // Built before downloading so that invalid rules fail with a 400 rather than mid-stream
+  const sourceFilter = createEntryFilter(source);
+  const profileFilter = createEntryFilter(filterOptions);
+  const transform = compileTransforms(filterOptions.transforms);
+  const entryProxy = await getEntryProxy(req, filterOptions);
+  let upstream;
+  try {
+    upstream = await downloadStream({
+      url: source.url,
+      policy: filterOptions.urlPolicy,
+      request: mergeDownloadOptions(filterOptions.request, source.request),
+    });
+  } catch (error) {
+    throw new UpstreamError(error instanceof Error ? error.message : String(error), { cause: error });
   }
-  res.set(
-    "Content-Length",
-    Buffer.byteLength(filteredM3uFileContents, "utf-8").toString()
+  setUpstreamHeaders(res, upstream.headers);
+  res.set("X-Cache", "BYPASS");
+  await pipeline(
+    upstream.stream,
+    new DecodeTextStream(upstream.charset),
+    new M3UFilterStream({
+      filter: (entry) => sourceFilter(entry) && profileFilter(applySourceToEntry(entry, source)),
+      transform: (entry) => {
+        const transformed = transform(applySourceToEntry(entry, source));
+        return entryProxy ? entryProxy(transformed) : transformed;
+      },
+      transformHeader: (attributes) => proxyEpgUrl(req, attributes, epgPath, filterOptions.epgUrl),
+    }),
+    res
   );
-};
 
-const parseRequestParams = (req: Request): GetM3uArgs => {
-  const urlParam = req.query["url"];
-  const profileParam = req.query["profile"];
+  logger.info({ url: source.url, streamed: true }, 'M3U filtered and streamed');
+};
 
-  if (urlParam && profileParam) {
-    throw new ValidationError('Query params must include either "profile" or "url", not both');
+// Players then fetch the guide from this server, which filters it down to the channels of this playlist
+const proxyEpgUrl = (req: Request, headerAttributes: Record<string, string>, epgPath: string, epgUrl?: string): Record<string, string> => {
+  if (!epgUrl && !getPlaylistEpgUrl(headerAttributes)) {
+    return headerAttributes;
   }
+  return setPlaylistEpgUrl(headerAttributes, getPublicUrl(req, epgPath));
+};
 
-  if (typeof urlParam === 'string') {
-    // URL validation for security
-    try {
-      new URL(urlParam);
-    } catch {
-      throw new ValidationError('Invalid URL provided');
-    }
-
-    return {
-      url: urlParam,
-      channelsToExclude: parseArrayParam(req.query["exclude"]),
-      groupsToInclude: parseArrayParam(req.query["groups"]),
-    };
-  } else if (typeof profileParam === 'string') {
-    // Basic profile key sanitization
-    if (!/^[a-zA-Z0-9_-]+$/.test(profileParam)) {
-      throw new ValidationError('Invalid profile key format');
-    }
-    return { profileKey: profileParam };
-  } else {
-    throw new ValidationError('Query params must include either "profile" or "url"');
+// Other formats describe the converted playlist, so none of the upstream headers apply
+const setFormatHeaders = (res: Response, serializer: OutputSerializer, name = "playlist") => {
+  res.set("Content-Type", serializer.contentType);
+  res.set("Content-Disposition", `attachment; filename="${name}.${serializer.extension}"`);
+};
+
+const setUpstreamHeaders = (res: Response, headers: DownloadResponse["headers"]) => {
+  res.set("Content-Type", getPlaylistContentType(headers?.["content-type"]));
+  if (headers?.["content-description"]) {
+    res.set("Content-Description", headers["content-description"]);
+  }
+  if (headers?.["expires"]) {
+    res.set("Expires", headers["expires"]);
+  }
+  if (headers?.["cache-control"]) {
+    res.set("Cache-Control", headers["cache-control"]);
+  }
+  if (headers?.["content-disposition"]) {
+    res.set("Content-Disposition", headers["content-disposition"]);
   }
 };
 
-interface FilterOptions {
-  url: string;
-  groupsToInclude?: string[];
-  channelsToExclude?: string[];
-}
-
-const getFilterOptionsFromUrlOrConfig = async (args: GetM3uArgs): Promise<FilterOptions> => {
-  if ('url' in args) {
-    return {
-      channelsToExclude: parseArrayParam(args.channelsToExclude), // Re-parse to trim
-      groupsToInclude: parseArrayParam(args.groupsToInclude), // Re-parse to trim
-      url: args.url,
-    };
-  } else if ('profileKey' in args) {
-    // Override to use local config in project root
-    const config: ConfigFile = await loadConfig({ 
-      configFile: './config.json',  // Points to current dir
-      log: process.env.NODE_ENV !== 'production'  // Optional: dev logging
-    });
-    const profile = getConfigItem(args.profileKey, config);
-    return {
-      channelsToExclude: parseArrayParam(profile.channelsToExclude), // Ensure trimmed
-      groupsToInclude: parseArrayParam(profile.groupsToInclude), // Ensure trimmed
-      url: profile.url,
-    };
+// The playlist is sent decompressed and in UTF-8, whatever the upstream served
+const getPlaylistContentType = (upstreamType?: string): string => {
+  const mediaType = upstreamType?.split(";")[0].trim().toLowerCase();
+  if (!upstreamType || !mediaType || COMPRESSED_MEDIA_TYPES.includes(mediaType)) {
+    return "application/vnd.apple.mpegurl";
   }
-  // Unreachable due to type guard, but for safety
-  throw new ValidationError('Invalid args structure');
+  return upstreamType.replace(/charset\s*=\s*"?[^";\s]+"?/i, "charset=utf-8");
 };
 
-const getConfigItem = (profileKey: string, configFile: ConfigFile) => {
-  const configItem = configFile.profiles.find((profile) => profile.key === profileKey);
-  if (!configItem) {
-    throw new NotFoundError(`No profile named ${profileKey} found in config`);
+const setCacheHeaders = (res: Response, builtPlaylist: BuiltPlaylist) => {
+  res.set("X-Cache", builtPlaylist.cacheStatus);
+  const warnings: string[] = [];
+  if (builtPlaylist.cacheStatus === "STALE") {
+    warnings.push('111 - "Revalidation Failed"');
+  }
+  if (builtPlaylist.failedSources.length > 0) {
+    res.set("X-Failed-Sources", builtPlaylist.failedSources.join(", "));
+    warnings.push('199 - "Some sources could not be fetched"');
+  }
+  if (warnings.length > 0) {
+    res.set("Warning", warnings.join(", "));
   }
-  return configItem.value;
 };
+
@@ -0,0 +1,79 @@
+import { buildPlaylist, BuildPlaylistOptions } from "../playlist-builder";
+import { getDeviceXml, getDiscoverData, getHdHomeRunDevice, getLineup, getLineupStatus, HdHomeRunDevice } from "../hdhomerun";
+import { M3uEntry } from "../m3uparser";
+import { Request, Response } from "express";
+import { authorizeRequest } from "./access";
+import { NotFoundError, sendErrorResponse } from "./errors";
+import { getEntryProxy } from "./stream";
+import { getFilterOptionsFromUrlOrConfig, getPublicBaseUrl, toBuildPlaylistOptions } from "./request-options";
+import { logger } from "../logger";
+
+export type HdHomeRunResource = "discover" | "lineup_status" | "lineup" | "device";
+
+/**
+ * Handles the HDHomeRun endpoints under /hdhomerun/:profile, which let Plex, Jellyfin and Emby
+ * add a profile as a tuner. Only the lineup needs the playlist; the rest describe the device.
+ * @throws UnauthorizedError - Missing or invalid access token
+ * @throws ForbiddenError - Access token of another profile
+ * @throws NotFoundError - Missing config profile, or a profile without "hdhomerun"
+ * @throws UpstreamError - Download failure
+ */
+export const handleHdHomeRun = async (options: {
+  req: Request;
+  res: Response;
+  resource: HdHomeRunResource;
+}) => {
+  logger.info({ method: options.req.method, url: options.req.url, ip: options.req.ip }, 'HDHomeRun request started');
+
+  try {
+    const profileKey = String(options.req.params.profile);
+    authorizeRequest(options.req, profileKey);
+    const filterOptions = getFilterOptionsFromUrlOrConfig({ profileKey });
+    if (!filterOptions.hdhomerun) {
+      throw new NotFoundError(`Profile ${profileKey} is not served as an HDHomeRun tuner`);
+    }
+    const device = getHdHomeRunDevice(profileKey, filterOptions.hdhomerun, getDeviceBaseUrl(options.req, profileKey));
+
+    switch (options.resource) {
+      case "discover":
+        options.res.json(getDiscoverData(device));
+        break;
+      case "lineup_status":
+        options.res.json(getLineupStatus());
+        break;
+      case "device":
+        options.res.type("application/xml").send(getDeviceXml(device));
+        break;
+      case "lineup":
+        await sendLineup(options.res, device, toBuildPlaylistOptions(filterOptions), await getEntryProxy(options.req, filterOptions));
+        break;
+    }
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : 'Unknown error', stack: error instanceof Error ? error.stack : undefined }, 'HDHomeRun handler failed');
+    return sendErrorResponse(options.res, error, 'Failed to fetch remote playlist');
+  }
+};
+
+// A token given in the device address must stay in the URLs the media server is told to use
+const getDeviceBaseUrl = (req: Request, profileKey: string): string => {
+  const baseUrl = `${getPublicBaseUrl(req)}/hdhomerun/${encodeURIComponent(profileKey)}`;
+  return typeof req.params.token === "string" ? `${baseUrl}/${encodeURIComponent(req.params.token)}` : baseUrl;
+};
+
+const sendLineup = async (
+  res: Response,
+  device: HdHomeRunDevice,
+  buildOptions: BuildPlaylistOptions,
+  entryProxy: ((entry: M3uEntry) => M3uEntry) | null
+) => {
+  const builtPlaylist = await buildPlaylist(buildOptions);
+  const entries = builtPlaylist.playlist.entries;
+  const lineup = getLineup(entryProxy ? entries.map(entryProxy) : entries);
+  res.set("X-Cache", builtPlaylist.cacheStatus);
+  if (builtPlaylist.failedSources.length > 0) {
+    res.set("X-Failed-Sources", builtPlaylist.failedSources.join(", "));
+  }
+  res.json(lineup);
+
+  logger.info({ deviceId: device.deviceId, channelCount: lineup.length }, 'HDHomeRun lineup sent');
+};
@@ -0,0 +1,122 @@
+import { Request, Response } from "express";
+import { buildPlaylist } from "../playlist-builder";
+import { checkStreams, DEFAULT_HEALTH_CHECK_INTERVAL, isDeadStream, ProfileHealth, readStreamHealth } from "../health-check";
+import { getConfig } from "../config-store";
+import { authorizeRequest } from "./access";
+import { NotFoundError, sendErrorResponse } from "./errors";
+import { getFilterOptionsFromUrlOrConfig, getProfileRequestOptions, PlaylistRequestOptions, toBuildPlaylistOptions } from "./request-options";
+import { isPrimaryInstance } from "../instance";
+import { logger } from "../logger";
+
+// How often the scheduler looks for profiles that are due; each profile sets its own interval
+const SCHEDULE_TICK_MS = 60 * 1000;
+
+let scheduleTimer: NodeJS.Timeout | undefined;
+let checking = false;
+// Start of the last check of each profile, so that a failing check is not retried every tick
+const lastAttempts = new Map<string, number>();
+
+/**
+ * Handles GET /status/health/:profile: the result of the last check of every stream of a
+ * profile with "healthCheck", and whether it counts as dead.
+ * @throws UnauthorizedError - Missing or invalid admin token
+ * @throws ForbiddenError - Access token of a profile
+ * @throws NotFoundError - Missing config profile, or a profile without health checks
+ */
+export const handleHealthStatus = async (options: {
+  req: Request;
+  res: Response;
+}) => {
+  const profileKey = String(options.req.params.profile);
+  try {
+    // Only admin tokens open the status: it lists the stream URLs with the provider login
+    authorizeRequest(options.req);
+    const filterOptions = getFilterOptionsFromUrlOrConfig({ profileKey });
+    if (!filterOptions.healthCheck) {
+      throw new NotFoundError(`Profile ${profileKey} has no health checks`);
+    }
+    const health = await readStreamHealth(profileKey);
+    options.res.set("Cache-Control", "no-store");
+    options.res.json({
+      checkedAt: health.checkedAt ?? null,
+      streams: Object.entries(health.streams).map(([url, stream]) => ({
+        url,
+        ...stream,
+        dead: isDeadStream(stream, filterOptions.healthCheck),
+      })),
+    });
+  } catch (error) {
+    logger.error({ profileKey, error: error instanceof Error ? error.message : 'Unknown error' }, 'Health status handler failed');
+    return sendErrorResponse(options.res, error, 'Failed to read stream health');
+  }
+};
+
+/**
+ * Checks the profiles with "healthCheck" in the background, each after its interval. The
+ * config is read on every tick, so that edits apply without a restart. In a cluster, only the
+ * first worker checks, and the others read the results it saves.
+ */
+export const startHealthChecks = (): void => {
+  stopHealthChecks();
+  if (!isPrimaryInstance()) {
+    return;
+  }
+  scheduleTimer = setInterval(() => void runDueHealthChecks(), SCHEDULE_TICK_MS);
+  // The checks never keep the process alive on their own
+  scheduleTimer.unref();
+};
+
+export const stopHealthChecks = (): void => {
+  if (scheduleTimer) {
+    clearInterval(scheduleTimer);
+    scheduleTimer = undefined;
+  }
+};
+
+// Profiles are checked one after the other, so that only one profile's concurrency is in use
+export const runDueHealthChecks = async (now: number = Date.now()): Promise<void> => {
+  if (checking) {
+    return;
+  }
+  checking = true;
+  try {
+    for (const { key, value } of getConfig().profiles) {
+      const options = getProfileRequestOptions(key, value);
+      if (!options.healthCheck || !isDue(key, await readStreamHealth(key), options, now)) {
+        continue;
+      }
+      lastAttempts.set(key, now);
+      try {
+        await runHealthCheck(key, options);
+      } catch (error) {
+        logger.warn({ profileKey: key, error: error instanceof Error ? error.message : String(error) }, 'Stream health check failed');
+      }
+    }
+  } finally {
+    checking = false;
+  }
+};
+
+/**
+ * Probes every stream of the filtered playlist of a profile, including the dead ones, so that
+ * channels that come back are noticed.
+ * @throws SourceFetchError - The playlist could not be built
+ */
+export const runHealthCheck = async (profileKey: string, options: PlaylistRequestOptions): Promise<ProfileHealth> => {
+  const builtPlaylist = await buildPlaylist({
+    ...toBuildPlaylistOptions(options),
+    healthCheck: undefined,
+    sort: undefined,
+    numbering: undefined,
+  });
+  return checkStreams(profileKey, builtPlaylist.playlist.entries, options.healthCheck, {
+    limit: options.streamLimit,
+    policy: options.streamPolicy,
+    request: options.request,
+  });
+};
+
+const isDue = (profileKey: string, health: ProfileHealth, options: PlaylistRequestOptions, now: number): boolean => {
+  const lastRun = Math.max(health.checkedAt ? Date.parse(health.checkedAt) : 0, lastAttempts.get(profileKey) ?? 0);
+  return now - lastRun >= (options.healthCheck?.interval ?? DEFAULT_HEALTH_CHECK_INTERVAL) * 1000;
+};
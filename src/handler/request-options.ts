@@ -0,0 +1,236 @@
+import { BuildPlaylistOptions } from "../playlist-builder";
+import { ConfigFile, getProfileSources, ProfileConfig } from "../config";
+import { getConfig } from "../config-store";
+import { DedupeOptions } from "../dedupe";
+import { HdHomeRunOptions } from "../hdhomerun";
+import { isOutputFormat, OUTPUT_FORMATS, OutputFormat } from "../output-formats";
+import { ChannelRule, isJsonRuleList, parseRuleParam } from "../rules";
+import { checkUrl, UrlPolicy } from "../url-policy";
+import { StreamProxyMode } from "../stream-proxy";
+import { StreamLimit } from "../stream-sessions";
+import { Request } from "express";
+import { ForbiddenError, NotFoundError, ValidationError } from "./errors";
+import { logger } from "../logger";
+
+// Utility for parsing array params safely (updated to handle broader query types)
+export const parseArrayParam = (param: unknown): string[] => {
+  if (Array.isArray(param)) {
+    return param.flat().map(s => String(s).trim()).filter(Boolean);
+  } else if (typeof param === 'string') {
+    return param.split(',').map(s => s.trim()).filter(Boolean);
+  } else if (param === undefined || param === null) {
+    return [];
+  } else {
+    // Fallback for unexpected types (e.g., ParsedQs objects)
+    logger.warn({ paramType: typeof param, paramValue: param }, 'Unexpected query param type');
+    return [String(param).trim()].filter(Boolean);
+  }
+};
+
+// Rule lists given as a JSON array are passed whole instead of being split on commas
+const parseRulesParam = (param: unknown): ChannelRule[] => {
+  if (typeof param === 'string' && isJsonRuleList(param.trim())) {
+    return parseRuleParam([param.trim()]);
+  }
+  return parseRuleParam(parseArrayParam(param));
+};
+
+// Trims string rules and drops empty ones, keeping rule objects as they are
+const normalizeRules = (rules?: ChannelRule[]): ChannelRule[] => {
+  return (rules || [])
+    .map(rule => typeof rule === 'string' ? rule.trim() : rule)
+    .filter(rule => rule !== '');
+};
+
+// Accepts "1"/"true"/"yes" (any case); anything else is false
+const parseBooleanParam = (param: unknown): boolean => {
+  return typeof param === 'string' && ['1', 'true', 'yes'].includes(param.trim().toLowerCase());
+};
+
+// Unknown formats are rejected rather than silently answered with M3U
+const parseFormatParam = (param: unknown): OutputFormat | undefined => {
+  if (param === undefined) {
+    return undefined;
+  }
+  const format = typeof param === 'string' ? param.trim().toLowerCase() : '';
+  if (!isOutputFormat(format)) {
+    throw new ValidationError(`Invalid format; expected one of ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return format;
+};
+
+interface GetM3uCommonArgs {
+  stream?: boolean;
+  format?: OutputFormat;
+  dedupe?: boolean;
+  groupsToInclude?: string[];
+  groupsToExclude?: string[];
+  channelsToInclude?: ChannelRule[];
+  channelsToExclude?: ChannelRule[];
+}
+
+interface GetM3uUrlArgs extends GetM3uCommonArgs {
+  url: string;
+  profileKey?: never;
+}
+
+interface GetM3uConfigArgs extends GetM3uCommonArgs {
+  profileKey: string;
+  url?: never;
+}
+
+export type GetM3uArgs = GetM3uUrlArgs | GetM3uConfigArgs;
+
+export const parseRequestParams = (req: Request): GetM3uArgs => {
+  const urlParam = req.query["url"];
+  const profileParam = req.query["profile"];
+
+  if (urlParam && profileParam) {
+    throw new ValidationError('Query params must include either "profile" or "url", not both');
+  }
+
+  if (typeof urlParam === 'string') {
+    // URL validation for security
+    try {
+      new URL(urlParam);
+    } catch {
+      throw new ValidationError('Invalid URL provided');
+    }
+
+    return {
+      url: urlParam,
+      channelsToExclude: parseRulesParam(req.query["exclude"]),
+      channelsToInclude: parseRulesParam(req.query["channels"]),
+      groupsToInclude: parseArrayParam(req.query["groups"]),
+      groupsToExclude: parseArrayParam(req.query["excludeGroups"]),
+      stream: parseBooleanParam(req.query["stream"]),
+      dedupe: parseBooleanParam(req.query["dedupe"]),
+      format: parseFormatParam(req.query["format"]),
+    };
+  } else if (typeof profileParam === 'string') {
+    // Basic profile key sanitization
+    if (!/^[a-zA-Z0-9_-]+$/.test(profileParam)) {
+      throw new ValidationError('Invalid profile key format');
+    }
+    return {
+      profileKey: profileParam,
+      stream: parseBooleanParam(req.query["stream"]),
+      dedupe: parseBooleanParam(req.query["dedupe"]),
+      format: parseFormatParam(req.query["format"]),
+    };
+  } else {
+    throw new ValidationError('Query params must include either "profile" or "url"');
+  }
+};
+
+export interface PlaylistRequestOptions extends BuildPlaylistOptions {
+  stream?: boolean;
+  format?: OutputFormat;
+  epgUrl?: string;
+  hdhomerun?: HdHomeRunOptions;
+  streamProxy?: StreamProxyMode;
+  streamLimit?: StreamLimit;
+  // Checked on every relayed stream and health check probe, as their URLs come from the upstream
+  streamPolicy?: UrlPolicy;
+}
+
+/**
+ * Options for a url= request or for the profile of the query.
+ * @throws ForbiddenError - url= requests are disabled
+ * @throws BlockedUrlError - The URL is not allowed by the url= policy of the config
+ * @throws NotFoundError - Missing config profile
+ */
+export const getFilterOptionsFromUrlOrConfig = (args: GetM3uArgs): PlaylistRequestOptions => {
+  if ('url' in args) {
+    const urlPolicy = getConfig().urlMode ?? {};
+    if (urlPolicy.enabled === false) {
+      throw new ForbiddenError('Requests with "url" are disabled; use a profile');
+    }
+    checkUrl(args.url, urlPolicy);
+    return {
+      channelsToExclude: normalizeRules(args.channelsToExclude), // Re-normalize to trim
+      channelsToInclude: normalizeRules(args.channelsToInclude),
+      groupsToInclude: parseArrayParam(args.groupsToInclude), // Re-parse to trim
+      groupsToExclude: parseArrayParam(args.groupsToExclude),
+      sources: [{ url: args.url }],
+      stream: args.stream,
+      dedupe: args.dedupe ? {} : undefined,
+      format: args.format,
+      urlPolicy,
+    };
+  } else if ('profileKey' in args) {
+    // Loaded once at startup and hot-reloaded by the config store
+    const config: ConfigFile = getConfig();
+    const profile = getConfigItem(args.profileKey, config);
+    return getProfileRequestOptions(args.profileKey, profile, args);
+  }
+  // Unreachable due to type guard, but for safety
+  throw new ValidationError('Invalid args structure');
+};
+
+// Options of a resolved profile; the query can turn on streaming and dedupe and pick the format
+export const getProfileRequestOptions = (
+  profileKey: string,
+  profile: ProfileConfig,
+  args: Pick<GetM3uCommonArgs, "stream" | "dedupe" | "format"> = {}
+): PlaylistRequestOptions => {
+  return {
+    channelsToExclude: normalizeRules(profile.channelsToExclude), // Ensure trimmed
+    channelsToInclude: normalizeRules(profile.channelsToInclude),
+    groupsToInclude: parseArrayParam(profile.groupsToInclude), // Ensure trimmed
+    groupsToExclude: parseArrayParam(profile.groupsToExclude),
+    sources: getProfileSources(profile),
+    sourceFailure: profile.sourceFailure,
+    cacheTtl: profile.cacheTtl,
+    stream: args.stream || profile.stream,
+    format: args.format,
+    transforms: profile.transforms,
+    dedupe: getDedupeOptions(profile, args.dedupe),
+    sort: profile.sort,
+    numbering: profile.numbering === true ? {} : profile.numbering || undefined,
+    stateKey: profileKey,
+    epgUrl: profile.epgUrl,
+    hdhomerun: profile.hdhomerun === true ? {} : profile.hdhomerun || undefined,
+    streamProxy: profile.streamProxy,
+    streamLimit: profile.maxConnections ? { maxConnections: profile.maxConnections, onLimit: profile.onConnectionLimit } : undefined,
+    streamPolicy: profile.streamPolicy ?? {},
+    healthCheck: profile.healthCheck === true ? {} : profile.healthCheck || undefined,
+    request: profile.request,
+  };
+};
+
+// The query can turn dedupe on for a profile, but not off
+const getDedupeOptions = (profile: ProfileConfig, requested?: boolean): DedupeOptions | undefined => {
+  if (profile.dedupe && typeof profile.dedupe === 'object') {
+    return profile.dedupe;
+  }
+  return profile.dedupe || requested ? {} : undefined;
+};
+
+const getConfigItem = (profileKey: string, configFile: ConfigFile) => {
+  const configItem = configFile.profiles.find((profile) => profile.key === profileKey);
+  if (!configItem) {
+    throw new NotFoundError(`No profile named ${profileKey} found in config`);
+  }
+  return configItem.value;
+};
+
+/**
+ * Absolute URL of another endpoint of this server, carrying over the query of the current
+ * request. PUBLIC_BASE_URL overrides the scheme and host seen by the server, for use behind
+ * a reverse proxy.
+ */
+export const getPublicUrl = (req: Request, pathname: string): string => {
+  const query = new URL(req.originalUrl || req.url, "http://localhost").search;
+  return `${getPublicBaseUrl(req)}${pathname}${query}`;
+};
+
+export const getPublicBaseUrl = (req: Request): string => {
+  return process.env.PUBLIC_BASE_URL?.replace(/\/+$/, "") ?? `${req.protocol}://${req.get("host")}`;
+};
+
+// Request options without the parts that only matter to the handler
+export const toBuildPlaylistOptions = (options: PlaylistRequestOptions): BuildPlaylistOptions => {
+  const { stream: _stream, format: _format, epgUrl: _epgUrl, hdhomerun: _hdhomerun, streamProxy: _streamProxy, streamLimit: _streamLimit, streamPolicy: _streamPolicy, ...buildOptions } = options;
+  return buildOptions;
+};
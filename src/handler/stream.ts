@@ -0,0 +1,205 @@
+import { DownloadOptions, openProxiedStream, ProxiedStreamResponse } from "../downloader";
+import { M3uEntry } from "../m3uparser";
+import { decodeStreamId, getProxiedUrl, getStreamKey, isHlsPlaylist, proxyEntry, rewriteHlsPlaylist, StreamProxyTarget } from "../stream-proxy";
+import { Request, Response } from "express";
+import { pipeline } from "stream/promises";
+import { getStreamSessions, openStreamSession, StreamLimit, StreamSessionHandle } from "../stream-sessions";
+import { getConfig } from "../config-store";
+import { authorizeRequest } from "./access";
+import { NotFoundError, sendErrorResponse, UpstreamError } from "./errors";
+import { getFilterOptionsFromUrlOrConfig, getPublicBaseUrl, PlaylistRequestOptions } from "./request-options";
+import { UrlPolicy } from "../url-policy";
+import { logger } from "../logger";
+
+// Request headers passed on to the upstream; players resume and seek with Range
+const FORWARDED_REQUEST_HEADERS = ["range", "user-agent", "accept", "if-range"];
+// Response headers passed back to the player
+const FORWARDED_RESPONSE_HEADERS = ["content-type", "content-length", "content-range", "accept-ranges", "last-modified", "etag"];
+// HLS playlists are read whole to be rewritten; real ones are a few kilobytes
+const MAX_HLS_PLAYLIST_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Handles GET /stream/:profile/:id, the stream URLs of profiles with "streamProxy": resolves the
+ * id to the upstream URL, then redirects to it or relays the stream. HLS playlists are relayed
+ * with their URIs rewritten to /stream URLs, so that segments go through the proxy as well.
+ * Ids are not guessable and only open under their profile, so they need no access token.
+ * @throws NotFoundError - Unknown id, or a profile that does not proxy streams
+ * @throws StreamLimitError - The profile already relays its maxConnections streams
+ * @throws UpstreamError - Stream download failure
+ */
+export const handleStream = async (options: {
+  req: Request;
+  res: Response;
+}) => {
+  const profileKey = String(options.req.params.profile);
+  logger.info({ method: options.req.method, profileKey, ip: options.req.ip }, 'Stream request started');
+
+  try {
+    const filterOptions = getFilterOptionsFromUrlOrConfig({ profileKey });
+    if (!filterOptions.streamProxy) {
+      throw new NotFoundError(`Profile ${profileKey} does not proxy streams`);
+    }
+    const target = await getStreamProxyTarget(options.req, profileKey);
+    // The file extension only serves the player
+    const id = String(options.req.params.id).replace(/\.[a-z0-9]+$/i, "");
+    const url = decodeStreamId(target.key, profileKey, id);
+    if (!url) {
+      throw new NotFoundError('Unknown stream');
+    }
+
+    if (filterOptions.streamProxy === "redirect") {
+      options.res.redirect(302, url);
+      return;
+    }
+    // URIs of HLS playlists carry the id of their channel, so that all their requests make one session
+    const channel = options.req.query.channel;
+    const isChannelId = typeof channel === "string" && decodeStreamId(target.key, profileKey, channel) !== null;
+    await relayStream(options.req, options.res, url, target, {
+      channel: isChannelId ? channel : id,
+      limit: filterOptions.streamLimit,
+      hls: isChannelId,
+      request: filterOptions.request,
+      policy: filterOptions.streamPolicy,
+    });
+  } catch (error) {
+    logger.error({ profileKey, error: error instanceof Error ? error.message : 'Unknown error' }, 'Stream handler failed');
+    return sendErrorResponse(options.res, error, 'Failed to fetch remote stream');
+  }
+};
+
+/**
+ * Handles GET /status/streams: the sessions of the relayed streams, and how full each profile
+ * with maxConnections is.
+ * @throws UnauthorizedError - Missing or invalid admin token
+ * @throws ForbiddenError - Access token of a profile
+ */
+export const handleStreamStatus = async (options: {
+  req: Request;
+  res: Response;
+}) => {
+  try {
+    // Only admin tokens open the status: sessions show the addresses of the players
+    authorizeRequest(options.req);
+    const sessions = getStreamSessions();
+    const profiles = getConfig().profiles
+      .filter(({ value }) => value.maxConnections !== undefined)
+      .map(({ key, value }) => ({
+        profileKey: key,
+        openStreams: sessions.filter((session) => session.profileKey === key).length,
+        maxConnections: value.maxConnections,
+      }));
+    options.res.set("Cache-Control", "no-store");
+    options.res.json({ profiles, sessions });
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'Stream status handler failed');
+    return sendErrorResponse(options.res, error, 'Failed to list streams');
+  }
+};
+
+/**
+ * Rewrites entries to the /stream URLs of the profile when it proxies streams.
+ * @returns The rewrite, or null when the stream URLs are served as they are
+ */
+export const getEntryProxy = async (req: Request, filterOptions: PlaylistRequestOptions): Promise<((entry: M3uEntry) => M3uEntry) | null> => {
+  if (!filterOptions.streamProxy || !filterOptions.stateKey) {
+    return null;
+  }
+  const target = await getStreamProxyTarget(req, filterOptions.stateKey);
+  return (entry) => proxyEntry(entry, target);
+};
+
+const getStreamProxyTarget = async (req: Request, profileKey: string): Promise<StreamProxyTarget> => {
+  return { baseUrl: getPublicBaseUrl(req), profileKey, key: await getStreamKey() };
+};
+
+const relayStream = async (
+  req: Request,
+  res: Response,
+  url: string,
+  target: StreamProxyTarget,
+  relayOptions: { channel: string; limit?: StreamLimit; hls: boolean; request?: DownloadOptions; policy?: UrlPolicy }
+) => {
+  // Stops the upstream download as soon as the player goes away, or its session is replaced
+  const abort = new AbortController();
+  res.on("close", () => abort.abort());
+  const session = openStreamSession(
+    { profileKey: target.profileKey, client: req.ip ?? "unknown", userAgent: req.get("user-agent"), channel: relayOptions.channel },
+    relayOptions.limit,
+    abort
+  );
+  if (relayOptions.hls) {
+    session.markHls();
+  }
+  try {
+    await relayUpstream(req, res, url, target, relayOptions, abort, session);
+  } finally {
+    session.release();
+  }
+};
+
+const relayUpstream = async (
+  req: Request,
+  res: Response,
+  url: string,
+  target: StreamProxyTarget,
+  relayOptions: { channel: string; request?: DownloadOptions; policy?: UrlPolicy },
+  abort: AbortController,
+  session: StreamSessionHandle
+) => {
+  let upstream: ProxiedStreamResponse;
+  try {
+    upstream = await openProxiedStream({ url, headers: getForwardedHeaders(req), signal: abort.signal, policy: relayOptions.policy, request: relayOptions.request });
+  } catch (error) {
+    throw new UpstreamError(error instanceof Error ? error.message : String(error), { cause: error });
+  }
+
+  if (isHlsPlaylist(upstream.url, upstream.headers["content-type"])) {
+    session.markHls();
+    const playlist = await readText(upstream);
+    res.set("Content-Type", "application/vnd.apple.mpegurl");
+    res.set("Cache-Control", "no-cache");
+    res.send(rewriteHlsPlaylist(playlist, upstream.url, (uri) => `${getProxiedUrl(target, uri)}?channel=${relayOptions.channel}`));
+    return;
+  }
+
+  res.status(upstream.status);
+  for (const header of FORWARDED_RESPONSE_HEADERS) {
+    if (upstream.headers[header]) {
+      res.set(header, upstream.headers[header]);
+    }
+  }
+  upstream.stream.on("data", (chunk: Buffer) => session.countBytes(chunk.length));
+  try {
+    await pipeline(upstream.stream, res);
+  } catch (error) {
+    // Players close live streams whenever they switch channels
+    if (!abort.signal.aborted) {
+      throw error;
+    }
+  }
+};
+
+const getForwardedHeaders = (req: Request): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const header of FORWARDED_REQUEST_HEADERS) {
+    const value = req.get(header);
+    if (value) {
+      headers[header] = value;
+    }
+  }
+  return headers;
+};
+
+const readText = async (upstream: ProxiedStreamResponse): Promise<string> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of upstream.stream) {
+    size += chunk.length;
+    if (size > MAX_HLS_PLAYLIST_SIZE) {
+      upstream.stream.destroy();
+      throw new UpstreamError(`HLS playlist larger than ${MAX_HLS_PLAYLIST_SIZE} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+};
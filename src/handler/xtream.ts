@@ -0,0 +1,150 @@
+import { buildPlaylist } from "../playlist-builder";
+import { getConfig } from "../config-store";
+import {
+  buildXtreamCatalog,
+  findXtreamProfile,
+  getXtreamAccountInfo,
+  getXtreamCategories,
+  getXtreamStreams,
+  XtreamCredentials,
+  XtreamStreamType,
+} from "../xtream";
+import { Request, Response } from "express";
+import { NotFoundError, sendErrorResponse, UnauthorizedError, ValidationError } from "./errors";
+import { sendFilteredEpg } from "./getepg";
+import { sendPlaylist } from "./getm3u";
+import { getEntryProxy } from "./stream";
+import { getFilterOptionsFromUrlOrConfig, getPublicBaseUrl, toBuildPlaylistOptions } from "./request-options";
+import { logger } from "../logger";
+
+// Series are not modelled, but clients ask for them right after logging in
+const EMPTY_ACTIONS = ["get_series_categories", "get_series"];
+
+/**
+ * Handles GET /player_api.php, the Xtream Codes API: account info without an action, otherwise
+ * the categories or streams of the profile the credentials belong to.
+ * @throws UnauthorizedError - Unknown username or wrong password
+ * @throws ValidationError - Unknown action
+ * @throws UpstreamError - Download failure
+ */
+export const handleXtreamApi = async (options: {
+  req: Request;
+  res: Response;
+}) => {
+  logger.info({ method: options.req.method, action: options.req.query["action"], ip: options.req.ip }, 'Xtream API request started');
+
+  try {
+    const { credentials, profileKey } = authenticate(options.req.query["username"], options.req.query["password"]);
+    const action = options.req.query["action"];
+    if (action === undefined) {
+      options.res.json(getXtreamAccountInfo(credentials, getPublicBaseUrl(options.req)));
+      return;
+    }
+    if (typeof action === "string" && EMPTY_ACTIONS.includes(action)) {
+      options.res.json([]);
+      return;
+    }
+    const type = getActionStreamType(action);
+    const catalog = buildXtreamCatalog(await getProfileEntries(profileKey));
+    const categoryId = options.req.query["category_id"];
+    if (action === `get_${type === "live" ? "live" : "vod"}_categories`) {
+      options.res.json(getXtreamCategories(catalog, type));
+    } else {
+      options.res.json(getXtreamStreams(catalog, type, typeof categoryId === "string" ? categoryId : undefined));
+    }
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : 'Unknown error', stack: error instanceof Error ? error.stack : undefined }, 'Xtream API handler failed');
+    return sendErrorResponse(options.res, error, 'Failed to fetch remote playlist');
+  }
+};
+
+/**
+ * Handles GET /get.php: the filtered playlist of the profile, as with /getm3u?profile=...
+ */
+export const handleXtreamPlaylist = async (options: {
+  req: Request;
+  res: Response;
+}) => {
+  logger.info({ method: options.req.method, ip: options.req.ip }, 'Xtream playlist request started');
+
+  try {
+    const { profileKey } = authenticate(options.req.query["username"], options.req.query["password"]);
+    await sendPlaylist(options.req, options.res, getFilterOptionsFromUrlOrConfig({ profileKey }), "/xmltv.php");
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : 'Unknown error', stack: error instanceof Error ? error.stack : undefined }, 'Xtream playlist handler failed');
+    return sendErrorResponse(options.res, error, 'Failed to fetch remote playlist');
+  }
+};
+
+/**
+ * Handles GET /xmltv.php: the guide of the profile, as with /getepg?profile=...
+ */
+export const handleXtreamEpg = async (options: {
+  req: Request;
+  res: Response;
+}) => {
+  logger.info({ method: options.req.method, ip: options.req.ip }, 'Xtream EPG request started');
+
+  try {
+    const { profileKey } = authenticate(options.req.query["username"], options.req.query["password"]);
+    await sendFilteredEpg(options.res, getFilterOptionsFromUrlOrConfig({ profileKey }));
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : 'Unknown error', stack: error instanceof Error ? error.stack : undefined }, 'Xtream EPG handler failed');
+    return sendErrorResponse(options.res, error, 'Failed to fetch remote EPG');
+  }
+};
+
+/**
+ * Handles GET /live/:username/:password/:stream and /movie/..., the URLs clients build from a
+ * stream id, by redirecting to the upstream URL of the stream (or its /stream URL when the
+ * profile proxies streams).
+ * @throws NotFoundError - No stream with that id in the profile
+ */
+export const handleXtreamStream = async (options: {
+  req: Request;
+  res: Response;
+  type: XtreamStreamType;
+}) => {
+  try {
+    const { profileKey } = authenticate(options.req.params.username, options.req.params.password);
+    // The extension (.ts, .m3u8, .mp4) is the client's choice; the upstream URL decides
+    const streamId = parseInt(String(options.req.params.stream), 10);
+    const catalog = buildXtreamCatalog(await getProfileEntries(profileKey));
+    const stream = catalog.streams.find((candidate) => candidate.id === streamId && candidate.type === options.type);
+    if (!stream) {
+      throw new NotFoundError(`No ${options.type} stream ${options.req.params.stream} in profile ${profileKey}`);
+    }
+    const entryProxy = await getEntryProxy(options.req, getFilterOptionsFromUrlOrConfig({ profileKey }));
+    options.res.redirect(302, entryProxy ? entryProxy(stream.entry).url : stream.entry.url);
+  } catch (error) {
+    logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'Xtream stream handler failed');
+    return sendErrorResponse(options.res, error, 'Failed to fetch remote playlist');
+  }
+};
+
+const authenticate = (username: unknown, password: unknown): { credentials: XtreamCredentials; profileKey: string } => {
+  if (typeof username !== "string" || typeof password !== "string") {
+    throw new UnauthorizedError('Username and password are required');
+  }
+  const credentials = { username, password };
+  const profileKey = findXtreamProfile(getConfig(), credentials);
+  if (!profileKey) {
+    throw new UnauthorizedError('Invalid username or password');
+  }
+  return { credentials, profileKey };
+};
+
+const getActionStreamType = (action: unknown): XtreamStreamType => {
+  if (action === "get_live_categories" || action === "get_live_streams") {
+    return "live";
+  } else if (action === "get_vod_categories" || action === "get_vod_streams") {
+    return "movie";
+  }
+  throw new ValidationError(`Unsupported action: ${String(action)}`);
+};
+
+const getProfileEntries = async (profileKey: string) => {
+  const filterOptions = getFilterOptionsFromUrlOrConfig({ profileKey });
+  const builtPlaylist = await buildPlaylist(toBuildPlaylistOptions(filterOptions));
+  return builtPlaylist.playlist.entries;
+};
@@ -0,0 +1,104 @@
+import { createHash } from "crypto";
+import { getEntryName, M3uEntry } from "./m3uparser";
+import { escapeXml } from "./xmltv";
+
+export interface HdHomeRunOptions {
+  // Name shown by the media server; defaults to "m3ufilter <profile>"
+  friendlyName?: string;
+  // 8 hex digits; derived from the profile key by default so that it survives restarts
+  deviceId?: string;
+  // Concurrent streams the media server may open; defaults to 2
+  tunerCount?: number;
+}
+
+export interface HdHomeRunDevice {
+  friendlyName: string;
+  deviceId: string;
+  tunerCount: number;
+  // Absolute URL the device endpoints are served under
+  baseUrl: string;
+}
+
+export interface LineupEntry {
+  GuideNumber: string;
+  GuideName: string;
+  URL: string;
+}
+
+export const DEVICE_ID_PATTERN = /^[0-9A-F]{8}$/i;
+const DEFAULT_TUNER_COUNT = 2;
+// Model and firmware of a real tuner; media servers check them to pick a code path
+const MANUFACTURER = "Silicondust";
+const MODEL_NUMBER = "HDTC-2US";
+const FIRMWARE_NAME = "hdhomeruntc_atsc";
+const FIRMWARE_VERSION = "20150826";
+
+export const getHdHomeRunDevice = (profileKey: string, options: HdHomeRunOptions, baseUrl: string): HdHomeRunDevice => {
+  return {
+    friendlyName: options.friendlyName ?? `m3ufilter ${profileKey}`,
+    deviceId: (options.deviceId ?? createHash("sha1").update(profileKey).digest("hex").substring(0, 8)).toUpperCase(),
+    tunerCount: options.tunerCount ?? DEFAULT_TUNER_COUNT,
+    baseUrl,
+  };
+};
+
+export const getDiscoverData = (device: HdHomeRunDevice) => {
+  return {
+    FriendlyName: device.friendlyName,
+    Manufacturer: MANUFACTURER,
+    ModelNumber: MODEL_NUMBER,
+    FirmwareName: FIRMWARE_NAME,
+    FirmwareVersion: FIRMWARE_VERSION,
+    DeviceID: device.deviceId,
+    DeviceAuth: device.deviceId,
+    TunerCount: device.tunerCount,
+    BaseURL: device.baseUrl,
+    LineupURL: `${device.baseUrl}/lineup.json`,
+  };
+};
+
+// The lineup is built from the playlist, so there is never a scan to run
+export const getLineupStatus = () => {
+  return {
+    ScanInProgress: 0,
+    ScanPossible: 1,
+    Source: "Cable",
+    SourceList: ["Cable"],
+  };
+};
+
+/**
+ * One lineup entry per channel. GuideNumber is the tvg-chno of the entry; channels without
+ * one are numbered after the highest tvg-chno of the playlist, in playlist order.
+ */
+export const getLineup = (entries: M3uEntry[]): LineupEntry[] => {
+  const numbers = entries.map((entry) => entry.attributes["tvg-chno"]?.trim() || null);
+  const highest = numbers.reduce((max, number) => Math.max(max, Number.isFinite(Number(number)) ? Number(number) : 0), 0);
+  let nextNumber = Math.floor(highest) + 1;
+  return entries.map((entry, index) => ({
+    GuideNumber: numbers[index] ?? String(nextNumber++),
+    GuideName: getEntryName(entry) ?? "",
+    URL: entry.url,
+  }));
+};
+
+// UPnP description that some clients read instead of discover.json
+export const getDeviceXml = (device: HdHomeRunDevice): string => {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<root xmlns="urn:schemas-upnp-org:device-1-0">',
+    "  <specVersion><major>1</major><minor>0</minor></specVersion>",
+    `  <URLBase>${escapeXml(device.baseUrl)}</URLBase>`,
+    "  <device>",
+    "    <deviceType>urn:schemas-upnp-org:device:MediaServer:1</deviceType>",
+    `    <friendlyName>${escapeXml(device.friendlyName)}</friendlyName>`,
+    `    <manufacturer>${MANUFACTURER}</manufacturer>`,
+    `    <modelName>${MODEL_NUMBER}</modelName>`,
+    `    <modelNumber>${MODEL_NUMBER}</modelNumber>`,
+    `    <serialNumber>${device.deviceId}</serialNumber>`,
+    `    <UDN>uuid:${device.deviceId}</UDN>`,
+    "  </device>",
+    "</root>",
+    "",
+  ].join("\n");
+};
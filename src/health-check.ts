@@ -0,0 +1,224 @@
+import { Readable } from "stream";
+import { DownloadOptions, HttpStatusError, openProxiedStream } from "./downloader";
+import { getEntryName, M3uEntry } from "./m3uparser";
+import { isHlsPlaylist } from "./stream-proxy";
+import { mapWithConcurrency } from "./concurrency";
+import { openStreamSession, StreamLimit, StreamLimitError } from "./stream-sessions";
+import { reloadState, writeState } from "./state-store";
+import { UrlPolicy } from "./url-policy";
+import { logger } from "./logger";
+
+export const DEAD_CHANNEL_ACTIONS = ["flag", "group", "drop"] as const;
+export type DeadChannelAction = typeof DEAD_CHANNEL_ACTIONS[number];
+
+export interface HealthCheckOptions {
+  // Seconds between two checks of the profile; defaults to 6 hours
+  interval?: number;
+  // Streams probed at once; defaults to 4
+  concurrency?: number;
+  // Seconds a single probe may take; defaults to 10
+  timeout?: number;
+  // Consecutive failed checks after which a channel is dead; defaults to 3
+  failuresBeforeDead?: number;
+  // flag sets status="dead", group moves the channel to deadGroup and drop removes it; defaults to flag
+  deadChannels?: DeadChannelAction;
+  // Defaults to "Dead"
+  deadGroup?: string;
+}
+
+export interface ProbeResult {
+  ok: boolean;
+  status?: number;
+  contentType?: string;
+  error?: string;
+}
+
+export interface StreamHealth extends ProbeResult {
+  name?: string;
+  // Consecutive failed checks, 0 once a check succeeds
+  failures: number;
+  checkedAt: string;
+}
+
+export interface ProfileHealth {
+  checkedAt?: string;
+  // By stream URL
+  streams: Record<string, StreamHealth>;
+}
+
+export const DEFAULT_HEALTH_CHECK_INTERVAL = 6 * 60 * 60;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_TIMEOUT = 10;
+const DEFAULT_FAILURES_BEFORE_DEAD = 3;
+const DEFAULT_DEAD_GROUP = "Dead";
+// Panels answer dead streams with an error page rather than an error status
+const ERROR_CONTENT_TYPES = ["text/html", "application/json"];
+const MAX_HLS_PLAYLIST_SIZE = 1024 * 1024;
+// Shown as the player address of the probes in /status/streams
+const HEALTH_CHECK_CLIENT = "health-check";
+
+/**
+ * Fetches the start of a stream: the status must be a success, the content type must not be
+ * an error page, and the body must hold data, or a playlist with at least one URI for HLS.
+ */
+export const probeStream = async (
+  url: string,
+  timeoutMs: number,
+  options: { signal?: AbortSignal; policy?: UrlPolicy; request?: DownloadOptions } = {}
+): Promise<ProbeResult> => {
+  const { signal } = options;
+  const abort = new AbortController();
+  const timer = setTimeout(() => abort.abort(), timeoutMs);
+  const cancel = () => abort.abort();
+  signal?.addEventListener("abort", cancel);
+  try {
+    const upstream = await openProxiedStream({ url, signal: abort.signal, policy: options.policy, request: options.request });
+    const contentType = upstream.headers["content-type"];
+    const result = { status: upstream.status, ...(contentType ? { contentType } : {}) };
+    if (isHlsPlaylist(upstream.url, contentType)) {
+      const playlist = (await readUpTo(upstream.stream, MAX_HLS_PLAYLIST_SIZE)).toString("utf-8");
+      return isValidHlsPlaylist(playlist) ? { ok: true, ...result } : { ok: false, ...result, error: 'Invalid HLS playlist' };
+    }
+    if (contentType && ERROR_CONTENT_TYPES.some((type) => contentType.toLowerCase().startsWith(type))) {
+      return { ok: false, ...result, error: `Unexpected content type ${contentType}` };
+    }
+    // Live streams never end, so the first chunk is enough
+    const received = await readUpTo(upstream.stream, 1);
+    return received.length > 0 ? { ok: true, ...result } : { ok: false, ...result, error: 'Empty response' };
+  } catch (error) {
+    if (abort.signal.aborted) {
+      return { ok: false, error: `No response within ${timeoutMs} ms` };
+    }
+    const status = error instanceof HttpStatusError ? { status: error.status } : {};
+    return { ok: false, ...status, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", cancel);
+    // Closes the connection of a stream that was only partly read
+    abort.abort();
+  }
+};
+
+/**
+ * Probes the streams of the entries and saves the results under the state key. The failures
+ * of a stream are counted across checks; streams that are no longer listed are forgotten.
+ * Probes are streams of the profile like any other, so they never take the room of a player:
+ * a stream that finds the profile full, or whose probe is ended by "replaceOldest", keeps its
+ * previous result.
+ * @param stateKey - Also the profile the probes are counted under
+ * @param stream - The connection limit, stream policy and download options of the profile
+ */
+export const checkStreams = async (
+  stateKey: string,
+  entries: M3uEntry[],
+  options: HealthCheckOptions = {},
+  stream: { limit?: StreamLimit; policy?: UrlPolicy; request?: DownloadOptions } = {}
+): Promise<ProfileHealth> => {
+  const previous = await readStreamHealth(stateKey);
+  const names = new Map(entries.map((entry) => [entry.url, getEntryName(entry) ?? undefined]));
+  const urls = [...names.keys()];
+  const timeoutMs = (options.timeout ?? DEFAULT_TIMEOUT) * 1000;
+  const probe = { ...stream, limit: stream.limit ? { ...stream.limit, onLimit: "reject" as const } : undefined };
+  const results = await mapWithConcurrency(urls, options.concurrency ?? DEFAULT_CONCURRENCY, (url) => probeInSession(stateKey, url, timeoutMs, probe));
+
+  const checkedAt = new Date().toISOString();
+  const health: ProfileHealth = { checkedAt, streams: {} };
+  urls.forEach((url, index) => {
+    const result = results[index];
+    const name = names.get(url);
+    if (!result) {
+      if (previous.streams[url]) {
+        health.streams[url] = previous.streams[url];
+      }
+      return;
+    }
+    health.streams[url] = {
+      ...result,
+      ...(name ? { name } : {}),
+      failures: result.ok ? 0 : (previous.streams[url]?.failures ?? 0) + 1,
+      checkedAt,
+    };
+  });
+  try {
+    await writeState(getStateName(stateKey), health);
+  } catch (error) {
+    logger.warn({ stateKey, error: error instanceof Error ? error.message : String(error) }, 'Could not save stream health');
+  }
+  logger.info({
+    stateKey,
+    streams: urls.length,
+    failed: results.filter((result) => result && !result.ok).length,
+    skipped: results.filter((result) => !result).length,
+  }, 'Stream health checked');
+  return health;
+};
+
+// Checks run in one worker of a cluster, so the others re-read the results they save
+export const readStreamHealth = (stateKey: string): Promise<ProfileHealth> => {
+  return reloadState<ProfileHealth>(getStateName(stateKey), { streams: {} });
+};
+
+export const isDeadStream = (health: StreamHealth | undefined, options: HealthCheckOptions = {}): boolean => {
+  return (health?.failures ?? 0) >= (options.failuresBeforeDead ?? DEFAULT_FAILURES_BEFORE_DEAD);
+};
+
+// Streams that were never checked count as alive
+export const applyStreamHealth = (entries: M3uEntry[], health: ProfileHealth, options: HealthCheckOptions = {}): M3uEntry[] => {
+  const action = options.deadChannels ?? "flag";
+  return entries.flatMap((entry) => {
+    if (!isDeadStream(health.streams[entry.url], options)) {
+      return [entry];
+    } else if (action === "drop") {
+      return [];
+    } else if (action === "group") {
+      return [{ ...entry, attributes: { ...entry.attributes, "group-title": options.deadGroup ?? DEFAULT_DEAD_GROUP } }];
+    }
+    return [{ ...entry, attributes: { ...entry.attributes, status: "dead" } }];
+  });
+};
+
+// The result of the probe, or null when it gave way to a player
+const probeInSession = async (
+  profileKey: string,
+  url: string,
+  timeoutMs: number,
+  stream: { limit?: StreamLimit; policy?: UrlPolicy; request?: DownloadOptions }
+): Promise<ProbeResult | null> => {
+  const replaced = new AbortController();
+  let session;
+  try {
+    session = openStreamSession({ profileKey, client: HEALTH_CHECK_CLIENT, channel: url }, stream.limit, replaced);
+  } catch (error) {
+    if (error instanceof StreamLimitError) {
+      return null;
+    }
+    throw error;
+  }
+  try {
+    const result = await probeStream(url, timeoutMs, { signal: replaced.signal, policy: stream.policy, request: stream.request });
+    return replaced.signal.aborted ? null : result;
+  } finally {
+    session.release();
+  }
+};
+
+const getStateName = (stateKey: string): string => `health-${stateKey}`;
+
+// A playlist parses when it has the header and at least one variant or segment URI
+const isValidHlsPlaylist = (text: string): boolean => {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line !== "");
+  return lines[0] === "#EXTM3U" && lines.some((line) => !line.startsWith("#"));
+};
+
+const readUpTo = async (stream: Readable, limit: number): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+    size += chunk.length;
+    if (size >= limit) {
+      break;
+    }
+  }
+  return Buffer.concat(chunks);
+};
@@ -0,0 +1,4 @@
+// PM2 numbers the workers of a cluster from 0; a process started without PM2 is the only one
+export const isPrimaryInstance = (env: NodeJS.ProcessEnv = process.env): boolean => {
+  return (env.NODE_APP_INSTANCE ?? "0") === "0";
+};
@@ -1,124 +1,274 @@
+import { ChannelRule, compileRules, createGroupPatternFinder } from "./rules";
+
 export interface FilterOptions {
   groupsToInclude?: string[];
-  channelsToExclude?: string[];
+  groupsToExclude?: string[];
+  channelsToInclude?: ChannelRule[];
+  channelsToExclude?: ChannelRule[];
   fileContents: string;
 }
 
+export type EntryFilterOptions = Omit<FilterOptions, "fileContents">;
+
+export interface M3uEntry {
+  duration: number;
+  attributes: Record<string, string>;
+  title: string;
+  // Lines such as #EXTVLCOPT, #EXTGRP, #KODIPROP or #EXTHTTP that belong to this entry
+  directives: string[];
+  url: string;
+  // Name of the source the entry came from when several are merged; not written to M3U output
+  source?: string;
+  // URLs of duplicates dropped in favour of this entry; not written to M3U output
+  alternates?: string[];
+  // Listed as a bare URL; written back without #EXTINF as long as no title or attribute was added
+  withoutExtinf?: boolean;
+}
+
+export interface M3uPlaylist {
+  headerAttributes: Record<string, string>;
+  entries: M3uEntry[];
+}
+
+export interface M3uLineParser {
+  pushLine: (line: string) => void;
+  end: () => void;
+}
+
+const EXTM3U = "#EXTM3U";
+const EXTINF = "#EXTINF:";
+const UNKNOWN_GROUP = "Unknown";
+
 export const filterM3u = (options?: FilterOptions): string => {
   return parseFileAsString(options);
 };
 
 const parseFileAsString = (options?: FilterOptions): string => {
   // Early return if no filtering needed
-  if (shouldAllGroupsBeReturned(options) && noChannelsToExclude(options)) {
+  if (noFilters(options)) {
     return options.fileContents;
   }
 
-  const fileContentLines = options.fileContents.split("\n").map(line => line.trim());
-  const output: string[] = ['#EXTM3U'];
-  
-  // Pre-compile regex for attribute extraction
-  const attrPattern = /([a-z-]+)=(?:"([^"]*)"|'([^']*)'|([^,\s]+))/g;
-  
-  // Pre-process exclusion patterns for case-insensitive matching
-  const excludedChannelsLower = options?.channelsToExclude?.map(ch => ch.toLowerCase()) || [];
-  const includedGroupsSet = new Set(options?.groupsToInclude || []);
-
-  // Pre-build exclusion regex if needed
-  const exclusionRegex = excludedChannelsLower.length > 0 
-    ? new RegExp(excludedChannelsLower.map(escapeRegExp).join('|'))
-    : null;
-
-  let i = 0;
-
-  while (i < fileContentLines.length) {
-    const line = fileContentLines[i];
-    
-    // Skip empty lines and EXTMLU header
-    if (!line || line === '#EXTM3U') {
-      i++;
-      continue;
+  const playlist = parseM3u(options.fileContents);
+  return serializeM3u({
+    headerAttributes: playlist.headerAttributes,
+    entries: filterEntries(playlist.entries, options),
+  });
+};
+
+export const filterEntries = (entries: M3uEntry[], options?: EntryFilterOptions): M3uEntry[] => {
+  return entries.filter(createEntryFilter(options));
+};
+
+export type FilterReason =
+  | "channelsToExclude"
+  | "channelsToInclude"
+  | "groupsToExclude"
+  | "groupsToInclude"
+  | "notInGroupsToInclude"
+  | "notInChannelsToInclude"
+  | "notExcluded";
+
+export interface FilterDecision {
+  kept: boolean;
+  // The list that decided, or why no list did
+  reason: FilterReason;
+  // The channel rule or group pattern that matched, if any
+  rule?: ChannelRule;
+}
+
+export const createEntryFilter = (options?: EntryFilterOptions): ((entry: M3uEntry) => boolean) => {
+  const explain = createEntryExplainer(options);
+  return (entry: M3uEntry): boolean => explain(entry).kept;
+};
+
+/**
+ * Builds the keep/drop decision, with the rule that made it. Precedence, first match wins:
+ * 1. channelsToExclude drops the entry
+ * 2. channelsToInclude keeps the entry, whatever its group
+ * 3. groupsToExclude drops the entry
+ * 4. groupsToInclude keeps only entries of the listed groups
+ * 5. with channelsToInclude but no groupsToInclude, everything else is dropped (allow-list)
+ */
+export const createEntryExplainer = (options?: EntryFilterOptions): ((entry: M3uEntry) => FilterDecision) => {
+  // Compile rules once; throws InvalidRuleError for malformed rules
+  const exclusionRules = compileRules(options?.channelsToExclude);
+  const inclusionRules = compileRules(options?.channelsToInclude);
+  const findIncludedGroup = createGroupPatternFinder(options?.groupsToInclude);
+  const findExcludedGroup = createGroupPatternFinder(options?.groupsToExclude);
+  const hasGroupsToInclude = (options?.groupsToInclude?.length ?? 0) > 0;
+  const hasGroupsToExclude = (options?.groupsToExclude?.length ?? 0) > 0;
+
+  return (entry: M3uEntry): FilterDecision => {
+    const excludedBy = exclusionRules.size > 0 ? exclusionRules.findMatch(entry) : null;
+    if (excludedBy) {
+      return { kept: false, reason: "channelsToExclude", rule: excludedBy };
+    }
+    const includedBy = inclusionRules.size > 0 ? inclusionRules.findMatch(entry) : null;
+    if (includedBy) {
+      return { kept: true, reason: "channelsToInclude", rule: includedBy };
+    }
+    const group = getEntryGroup(entry);
+    const excludedGroup = hasGroupsToExclude ? findExcludedGroup(group) : null;
+    if (excludedGroup !== null) {
+      return { kept: false, reason: "groupsToExclude", rule: excludedGroup };
     }
+    if (hasGroupsToInclude) {
+      const includedGroup = findIncludedGroup(group);
+      return includedGroup !== null
+        ? { kept: true, reason: "groupsToInclude", rule: includedGroup }
+        : { kept: false, reason: "notInGroupsToInclude" };
+    }
+    return inclusionRules.size === 0
+      ? { kept: true, reason: "notExcluded" }
+      : { kept: false, reason: "notInChannelsToInclude" };
+  };
+};
 
-    if (line.startsWith('#EXTINF')) {
-      // Extract group and channel in single pass
-      let groupName: string | null = null;
-      let channelName: string | null = null;
-      let match;
-      attrPattern.lastIndex = 0; // Reset for reuse
-      while ((match = attrPattern.exec(line)) !== null) {
-        const attr = match[1];
-        const value = match[2] || match[3] || match[4];
-        if (attr === 'group-title') {
-          groupName = value;
-        } else if (attr === 'tvg-name') {
-          channelName = value;
-        }
-      }
+/**
+ * Parses a playlist into its header attributes and entries. Every line between an #EXTINF
+ * and its URL is kept with the entry, so entries are never split when filtered.
+ */
+export const parseM3u = (fileContents: string): M3uPlaylist => {
+  const playlist: M3uPlaylist = { headerAttributes: {}, entries: [] };
+  const parser = createM3uLineParser({
+    onHeader: (attributes) => Object.assign(playlist.headerAttributes, attributes),
+    onEntry: (entry) => playlist.entries.push(entry),
+  });
+  fileContents.split("\n").forEach(parser.pushLine);
+  parser.end();
+  return playlist;
+};
 
-      // Fallback for channel name
-      const channelNameFull = channelName || extractChannelNameFromTitle(line);
-      
-      // Check channel exclusion first (cheaper check)
-      let shouldExclude = false;
-      if (excludedChannelsLower.length > 0 && channelNameFull) {
-        const channelNameLower = channelNameFull.toLowerCase();
-        shouldExclude = exclusionRegex ? !!channelNameLower.match(exclusionRegex) : false;
-      }
-      
-      if (shouldExclude) {
-        i += 2; // Skip metadata line and URL line
-        continue;
-      }
+/**
+ * Line-by-line parser state machine, shared by the buffered and incremental parsers.
+ */
+export const createM3uLineParser = (handlers: {
+  onHeader?: (attributes: Record<string, string>) => void;
+  onEntry: (entry: M3uEntry) => void;
+}): M3uLineParser => {
+  let pending: Omit<M3uEntry, "url"> | null = null;
+  // Directives seen before an #EXTINF (e.g. #KODIPROP) are attached to the next entry
+  let orphanDirectives: string[] = [];
 
-      // Fallback for group name
-      const finalGroupName = groupName || "Unknown";
-      
-      // Check group inclusion
-      const groupIncluded = shouldGroupBeIncludedFast(finalGroupName, includedGroupsSet);
-      
-      if (groupIncluded) {
-        output.push(line); // Push metadata line
-        
-        // Push URL line if it exists
-        if (i + 1 < fileContentLines.length) {
-          output.push(fileContentLines[i + 1]);
-        }
+  const pushLine = (rawLine: string) => {
+    const line = rawLine.trim();
+    if (!line) {
+      return;
+    }
+    if (line.startsWith(EXTM3U)) {
+      handlers.onHeader?.(parseAttributes(line.substring(EXTM3U.length)).attributes);
+      return;
+    }
+    if (line.startsWith(EXTINF)) {
+      // An #EXTINF without a URL is malformed and gets replaced by this one
+      pending = { ...parseExtinf(line), directives: orphanDirectives };
+      orphanDirectives = [];
+      return;
+    }
+    if (line.startsWith("#")) {
+      if (pending) {
+        pending.directives.push(line);
+      } else {
+        orphanDirectives.push(line);
       }
-      
-      i += 2; // Skip to next metadata line
-      continue;
+      return;
     }
+    // Anything else is the URL that closes the current entry
+    const entry: M3uEntry = pending
+      ? { ...pending, url: line }
+      : { duration: -1, attributes: {}, title: "", directives: orphanDirectives, url: line, withoutExtinf: true };
+    pending = null;
+    orphanDirectives = [];
+    handlers.onEntry(entry);
+  };
+
+  const end = () => {
+    pending = null;
+    orphanDirectives = [];
+  };
+
+  return { pushLine, end };
+};
+
+export const parseExtinf = (line: string): Pick<M3uEntry, "duration" | "attributes" | "title"> => {
+  const body = line.substring(EXTINF.length);
+  const durationMatch = /^\s*(-?\d+(?:\.\d+)?)/.exec(body);
+  const duration = durationMatch ? Number(durationMatch[1]) : -1;
+  const { attributes, rest } = parseAttributes(body.substring(durationMatch ? durationMatch[0].length : 0));
+  // The display title is whatever follows the first comma outside of a quoted attribute value
+  const commaIndex = rest.indexOf(",");
+  const title = commaIndex !== -1 ? rest.substring(commaIndex + 1).trim() : "";
+  return { duration, attributes, title };
+};
+
+// Reads key=value pairs until an unquoted comma (or the end of the line) is reached
+const parseAttributes = (text: string): { attributes: Record<string, string>; rest: string } => {
+  const attributes: Record<string, string> = {};
+  const attrPattern = /\s*([A-Za-z0-9_-]+)=(?:"([^"]*)"|'([^']*)'|([^,\s"']*))/y;
+  let position = 0;
 
-    // For non-metadata lines (always include if non-empty)
-    if (line.length > 0) {
-      output.push(line);
+  while (position < text.length) {
+    attrPattern.lastIndex = position;
+    const match = attrPattern.exec(text);
+    if (!match) {
+      break;
     }
-    
-    i++;
+    attributes[match[1]] = match[2] ?? match[3] ?? match[4] ?? "";
+    position = attrPattern.lastIndex;
   }
-  
+
+  const rest = text.substring(position).trimStart();
+  return { attributes, rest };
+};
+
+export const serializeM3u = (playlist: M3uPlaylist): string => {
+  const output: string[] = [serializeHeader(playlist.headerAttributes)];
+  playlist.entries.forEach((entry) => output.push(serializeEntry(entry)));
   return output.join('\n') + '\n';
 };
 
-// Optimized helper functions
-const shouldAllGroupsBeReturned = (options?: FilterOptions): boolean => {
-  return !options?.groupsToInclude || options.groupsToInclude.length === 0;
+export const serializeHeader = (headerAttributes: Record<string, string>): string => {
+  const attributes = serializeAttributes(headerAttributes);
+  return attributes ? `${EXTM3U} ${attributes}` : EXTM3U;
+};
+
+export const serializeEntry = (entry: M3uEntry): string => {
+  const extinf = hasExtinf(entry) ? [serializeExtinf(entry)] : [];
+  return [...extinf, ...entry.directives, entry.url].join('\n');
 };
 
-const noChannelsToExclude = (options?: FilterOptions): boolean => {
-  return !options?.channelsToExclude || options.channelsToExclude.length === 0;
+export const serializeExtinf = (entry: Pick<M3uEntry, "duration" | "attributes" | "title">): string => {
+  const attributes = serializeAttributes(entry.attributes);
+  return `${EXTINF}${entry.duration}${attributes ? ` ${attributes}` : ""},${entry.title}`;
 };
 
-const shouldGroupBeIncludedFast = (group: string, includedGroupsSet: Set<string>): boolean => {
-  return includedGroupsSet.size === 0 || (group && includedGroupsSet.has(group));
+const serializeAttributes = (attributes: Record<string, string>): string => {
+  return Object.entries(attributes)
+    .map(([key, value]) => `${key}="${value.replace(/"/g, "'")}"`)
+    .join(" ");
 };
 
-const extractChannelNameFromTitle = (line: string): string | null => {
-  const commaIndex = line.indexOf(',');
-  return commaIndex !== -1 ? line.substring(commaIndex + 1).trim() : null;
+// Channel name used for matching: tvg-name, falling back to the display title
+export const getEntryName = (entry: M3uEntry): string | null => {
+  return entry.attributes["tvg-name"] || entry.title || null;
 };
 
-const escapeRegExp = (str: string): string => {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+// Group used for matching: group-title, falling back to #EXTGRP
+export const getEntryGroup = (entry: M3uEntry): string => {
+  if (entry.attributes["group-title"]) {
+    return entry.attributes["group-title"];
+  }
+  const extgrp = entry.directives.find((directive) => directive.startsWith("#EXTGRP:"));
+  return extgrp?.substring("#EXTGRP:".length).trim() || UNKNOWN_GROUP;
+};
+
+const hasExtinf = (entry: M3uEntry): boolean => {
+  return !entry.withoutExtinf || entry.title !== "" || entry.duration !== -1 || Object.keys(entry.attributes).length > 0;
+};
+
+// Optimized helper functions
+const noFilters = (options?: FilterOptions): boolean => {
+  return [options?.groupsToInclude, options?.groupsToExclude, options?.channelsToInclude, options?.channelsToExclude]
+    .every((list) => !list || list.length === 0);
 };
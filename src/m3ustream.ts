@@ -0,0 +1,79 @@
+import { Transform, TransformCallback } from "stream";
+import { StringDecoder } from "string_decoder";
+import { createM3uLineParser, M3uEntry, M3uLineParser, serializeEntry, serializeHeader } from "./m3uparser";
+
+export interface M3UFilterStreamOptions {
+  // Entries for which this returns false are dropped
+  filter?: (entry: M3uEntry) => boolean;
+  // Applied to the entries that were kept
+  transform?: (entry: M3uEntry) => M3uEntry;
+  // Applied to the attributes of the #EXTM3U header
+  transformHeader?: (attributes: Record<string, string>) => Record<string, string>;
+}
+
+// Guards against an upstream that never sends a newline
+const MAX_LINE_LENGTH = 1024 * 1024;
+
+/**
+ * Filters a playlist as it streams through: text comes in as chunks, entries are parsed one
+ * at a time and written out as soon as they are complete. Memory use is bounded by the
+ * longest entry rather than by the size of the playlist.
+ */
+export class M3UFilterStream extends Transform {
+  private readonly decoder = new StringDecoder("utf-8");
+  private readonly parser: M3uLineParser;
+  private partialLine = "";
+  private headerWritten = false;
+
+  constructor(private readonly options: M3UFilterStreamOptions = {}) {
+    super();
+    this.parser = createM3uLineParser({
+      onHeader: (attributes) => this.writeHeader(attributes),
+      onEntry: (entry) => this.writeEntry(entry),
+    });
+  }
+
+  _transform(chunk: Buffer | string, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      const text = this.partialLine + (typeof chunk === "string" ? chunk : this.decoder.write(chunk));
+      const lines = text.split("\n");
+      this.partialLine = lines.pop() ?? "";
+      if (this.partialLine.length > MAX_LINE_LENGTH) {
+        throw new Error(`Playlist line longer than ${MAX_LINE_LENGTH} characters`);
+      }
+      lines.forEach(this.parser.pushLine);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      this.parser.pushLine(this.partialLine + this.decoder.end());
+      this.parser.end();
+      // An empty upstream still produces a valid (empty) playlist
+      this.writeHeader({});
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  // Only the first header is written; entries never arrive before it
+  private writeHeader(attributes: Record<string, string>): void {
+    if (!this.headerWritten) {
+      this.headerWritten = true;
+      const headerAttributes = this.options.transformHeader ? this.options.transformHeader(attributes) : attributes;
+      this.push(serializeHeader(headerAttributes) + "\n");
+    }
+  }
+
+  private writeEntry(entry: M3uEntry): void {
+    if (this.options.filter && !this.options.filter(entry)) {
+      return;
+    }
+    this.writeHeader({});
+    this.push(serializeEntry(this.options.transform ? this.options.transform(entry) : entry) + "\n");
+  }
+}
@@ -0,0 +1,65 @@
+import { getEntryGroup, M3uEntry } from "./m3uparser";
+import { createGroupMatcher } from "./rules";
+import { getDedupeKey } from "./dedupe";
+
+export interface NumberingOptions {
+  // First channel number; defaults to 1
+  start?: number;
+  // First number for the groups matching each pattern, e.g. { "Sports": 100, "News*": 200 }
+  groupStarts?: Record<string, number>;
+  // Remember numbers across refreshes so that a channel keeps its number
+  stable?: boolean;
+}
+
+// Channel key to the number it was given
+export type ChannelNumbers = Record<string, number>;
+
+const DEFAULT_START = 1;
+
+/**
+ * Sets tvg-chno on every entry, counting up from the start of its group. Channels found in
+ * `previous` keep their number, and numbers in `previous` are never handed to another
+ * channel, even if their channel is missing from this refresh.
+ * @returns The entries and the numbers to remember for the next refresh
+ */
+export const assignChannelNumbers = (
+  entries: M3uEntry[],
+  options: NumberingOptions = {},
+  previous: ChannelNumbers = {}
+): { entries: M3uEntry[]; numbers: ChannelNumbers } => {
+  const numbers: ChannelNumbers = { ...previous };
+  const used = new Set(Object.values(previous));
+  const groupStarts = Object.entries(options.groupStarts ?? {})
+    .map(([pattern, start]) => ({ matches: createGroupMatcher([pattern]), start }));
+  const occurrences = new Map<string, number>();
+  // Numbers below the cursor of a start are all taken, so the search resumes from there
+  const cursors = new Map<number, number>();
+
+  const numbered = entries.map((entry) => {
+    const key = getNumberingKey(entry, occurrences);
+    let number = previous[key];
+    if (number === undefined) {
+      const group = getEntryGroup(entry);
+      const start = groupStarts.find(({ matches }) => matches(group))?.start ?? options.start ?? DEFAULT_START;
+      number = cursors.get(start) ?? start;
+      while (used.has(number)) {
+        number++;
+      }
+      used.add(number);
+      cursors.set(start, number + 1);
+      numbers[key] = number;
+    }
+    return { ...entry, attributes: { ...entry.attributes, "tvg-chno": String(number) } };
+  });
+
+  return { entries: numbered, numbers };
+};
+
+// The source is left out so that a channel keeps its number when dedupe picks another source.
+// Entries sharing a key (when not deduplicated) are told apart by their position among them.
+const getNumberingKey = (entry: M3uEntry, occurrences: Map<string, number>): string => {
+  const baseKey = getDedupeKey(entry);
+  const occurrence = (occurrences.get(baseKey) ?? 0) + 1;
+  occurrences.set(baseKey, occurrence);
+  return occurrence === 1 ? baseKey : `${baseKey}#${occurrence}`;
+};
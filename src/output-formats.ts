@@ -0,0 +1,135 @@
+import { getEntryGroup, getEntryName, M3uEntry, M3uPlaylist, serializeM3u } from "./m3uparser";
+import { escapeXml } from "./xmltv";
+
+export const OUTPUT_FORMATS = ["m3u", "json", "csv", "m3u8-simple", "xspf"] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface OutputSerializer {
+  contentType: string;
+  // File extension used in the Content-Disposition filename
+  extension: string;
+  serialize: (playlist: M3uPlaylist) => string;
+}
+
+const CSV_COLUMNS = ["name", "group", "url"];
+const XSPF_NAMESPACE = "http://xspf.org/ns/0/";
+const VLC_NAMESPACE = "http://www.videolan.org/vlc/playlist/ns/0/";
+const VLC_APPLICATION = "http://www.videolan.org/vlc/playlist/0";
+const VLC_OPTION_PREFIX = "#EXTVLCOPT:";
+
+/**
+ * JSON for dashboards and scripts: the header attributes and one object per entry with its
+ * parsed attributes. Unlike the M3U output, it includes the source and the alternate URLs.
+ */
+export const serializeJson = (playlist: M3uPlaylist): string => {
+  return JSON.stringify({
+    headerAttributes: playlist.headerAttributes,
+    entries: playlist.entries.map(toJsonEntry),
+  });
+};
+
+export const toJsonEntry = (entry: M3uEntry) => {
+  return {
+    name: getEntryName(entry),
+    group: getEntryGroup(entry),
+    title: entry.title,
+    duration: entry.duration,
+    url: entry.url,
+    attributes: entry.attributes,
+    directives: entry.directives,
+    source: entry.source,
+    alternates: entry.alternates,
+  };
+};
+
+// One row per entry: name, group and URL, then a column per attribute in order of first use
+export const serializeCsv = (playlist: M3uPlaylist): string => {
+  const attributeNames = [...new Set(playlist.entries.flatMap((entry) => Object.keys(entry.attributes)))];
+  const rows = [[...CSV_COLUMNS, ...attributeNames]];
+  playlist.entries.forEach((entry) => {
+    rows.push([
+      getEntryName(entry) ?? "",
+      getEntryGroup(entry),
+      entry.url,
+      ...attributeNames.map((name) => entry.attributes[name] ?? ""),
+    ]);
+  });
+  return rows.map((row) => row.map(quoteCsvField).join(",")).join("\r\n") + "\r\n";
+};
+
+const quoteCsvField = (value: string): string => {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Bare #EXTINF lines without attributes or directives, for devices that reject anything else
+export const serializeSimpleM3u = (playlist: M3uPlaylist): string => {
+  const output = ["#EXTM3U"];
+  playlist.entries.forEach((entry) => output.push(`#EXTINF:-1,${entry.title || getEntryName(entry) || ""}`, entry.url));
+  return output.join("\n") + "\n";
+};
+
+/**
+ * XSPF playlist for VLC. Groups become VLC playlist nodes and #EXTVLCOPT directives become
+ * VLC options, so the playlist looks and plays as the M3U does.
+ */
+export const serializeXspf = (playlist: M3uPlaylist): string => {
+  const groups = new Map<string, number[]>();
+  const tracks = playlist.entries.map((entry, index) => {
+    const group = getEntryGroup(entry);
+    const ids = groups.get(group) ?? [];
+    ids.push(index);
+    groups.set(group, ids);
+    return serializeXspfTrack(entry, index);
+  });
+  const nodes = [...groups].map(([group, ids]) => [
+    `    <vlc:node title="${escapeXml(group)}">`,
+    ...ids.map((id) => `      <vlc:item tid="${id}"/>`),
+    "    </vlc:node>",
+  ]);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<playlist xmlns="${XSPF_NAMESPACE}" xmlns:vlc="${VLC_NAMESPACE}" version="1">`,
+    "  <trackList>",
+    ...tracks.flat(),
+    "  </trackList>",
+    `  <extension application="${VLC_APPLICATION}">`,
+    ...nodes.flat(),
+    "  </extension>",
+    "</playlist>",
+    "",
+  ].join("\n");
+};
+
+const serializeXspfTrack = (entry: M3uEntry, id: number): string[] => {
+  const logo = entry.attributes["tvg-logo"];
+  const options = entry.directives
+    .filter((directive) => directive.startsWith(VLC_OPTION_PREFIX))
+    .map((directive) => `        <vlc:option>${escapeXml(directive.substring(VLC_OPTION_PREFIX.length).trim())}</vlc:option>`);
+  return [
+    "    <track>",
+    `      <location>${escapeXml(entry.url)}</location>`,
+    `      <title>${escapeXml(entry.title || getEntryName(entry) || "")}</title>`,
+    ...(logo ? [`      <image>${escapeXml(logo)}</image>`] : []),
+    `      <extension application="${VLC_APPLICATION}">`,
+    `        <vlc:id>${id}</vlc:id>`,
+    ...options,
+    "      </extension>",
+    "    </track>",
+  ];
+};
+
+const SERIALIZERS: Record<OutputFormat, OutputSerializer> = {
+  "m3u": { contentType: "application/vnd.apple.mpegurl", extension: "m3u", serialize: serializeM3u },
+  "json": { contentType: "application/json; charset=utf-8", extension: "json", serialize: serializeJson },
+  "csv": { contentType: "text/csv; charset=utf-8", extension: "csv", serialize: serializeCsv },
+  "m3u8-simple": { contentType: "application/vnd.apple.mpegurl", extension: "m3u8", serialize: serializeSimpleM3u },
+  "xspf": { contentType: "application/xspf+xml; charset=utf-8", extension: "xspf", serialize: serializeXspf },
+};
+
+export const getOutputSerializer = (format: OutputFormat): OutputSerializer => SERIALIZERS[format];
+
+export const isOutputFormat = (value: string): value is OutputFormat => {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+};
@@ -0,0 +1,265 @@
+import { DownloadOptions, DownloadResponse, mergeDownloadOptions } from "./downloader";
+import { createEntryExplainer, EntryFilterOptions, FilterDecision, filterEntries, getEntryGroup, M3uEntry, M3uPlaylist, parseM3u } from "./m3uparser";
+import { CacheStatus, fetchPlaylist, getWorstCacheStatus, PlaylistResponse } from "./playlist-cache";
+import { isXtreamSource, SourceConfig, SourceFailurePolicy } from "./config";
+import { fetchXtreamSource, getXtreamSourceLabel } from "./xtream-source";
+import { dedupeEntries, DedupeOptions, getDedupeKey } from "./dedupe";
+import { applyTransforms, TransformRule } from "./transforms";
+import { sortEntries, SortOptions } from "./sorting";
+import { assignChannelNumbers, ChannelNumbers, NumberingOptions } from "./numbering";
+import { reloadState, writeState } from "./state-store";
+import { applyStreamHealth, HealthCheckOptions, readStreamHealth } from "./health-check";
+import { UrlPolicy } from "./url-policy";
+import { logger } from "./logger";
+
+export interface BuildPlaylistOptions extends EntryFilterOptions {
+  sources: SourceConfig[];
+  sourceFailure?: SourceFailurePolicy;
+  // Default TTL for sources that do not set their own
+  cacheTtl?: number;
+  // Applied to the entries left after filtering
+  transforms?: TransformRule[];
+  // Duplicate channels are collapsed when set
+  dedupe?: DedupeOptions;
+  sort?: SortOptions;
+  numbering?: NumberingOptions;
+  // Name under which stable channel numbers and stream health are remembered, usually the profile key
+  stateKey?: string;
+  // Dead channels, as found by the last health checks, are flagged, moved or dropped
+  healthCheck?: HealthCheckOptions;
+  // Restricts what the sources may fetch, for URLs given by the caller
+  urlPolicy?: UrlPolicy;
+  // Download settings of the profile; each source may override them
+  request?: DownloadOptions;
+}
+
+export interface BuiltPlaylist {
+  playlist: M3uPlaylist;
+  // Upstream headers of the first source that could be fetched
+  headers: DownloadResponse["headers"];
+  cacheStatus: CacheStatus;
+  failedSources: string[];
+}
+
+export class SourceFetchError extends Error {}
+
+export interface EntryExplanation extends Omit<FilterDecision, "reason"> {
+  entry: M3uEntry;
+  // "source" and "profile" for the filters at each level, "dedupe" for duplicates
+  stage: "source" | "profile" | "dedupe";
+  reason: FilterDecision["reason"] | "duplicate";
+}
+
+export interface PlaylistExplanation {
+  entries: EntryExplanation[];
+  cacheStatus: CacheStatus;
+  failedSources: string[];
+}
+
+interface FetchedSource {
+  source: SourceConfig;
+  response: PlaylistResponse;
+  playlist: M3uPlaylist;
+}
+
+/**
+ * Fetches every source in parallel, filters each with its own rules, prefixes its groups,
+ * merges them in source order, applies the profile-wide filters and transforms, drops
+ * duplicates, handles dead channels and finally sorts and numbers the channels.
+ * @throws SourceFetchError - All sources failed, or any failed under the fail-closed policy
+ */
+export const buildPlaylist = async (options: BuildPlaylistOptions): Promise<BuiltPlaylist> => {
+  const { fetched, failedSources } = await fetchSources(options);
+
+  const playlist: M3uPlaylist = { headerAttributes: mergeHeaderAttributes(fetched), entries: [] };
+  for (const { source, playlist: sourcePlaylist } of fetched) {
+    const entries = filterEntries(sourcePlaylist.entries, source);
+    for (const entry of entries) {
+      playlist.entries.push(applySourceToEntry(entry, source));
+    }
+  }
+  playlist.entries = applyTransforms(filterEntries(playlist.entries, options), options.transforms);
+  if (options.dedupe) {
+    playlist.entries = dedupeEntries(playlist.entries, getDedupeOptions(options, options.dedupe));
+  }
+  if (options.healthCheck && options.stateKey) {
+    playlist.entries = applyStreamHealth(playlist.entries, await readStreamHealth(options.stateKey), options.healthCheck);
+  }
+  if (options.sort) {
+    playlist.entries = sortEntries(playlist.entries, options.sort, options.groupsToInclude);
+  }
+  if (options.numbering) {
+    playlist.entries = await numberEntries(playlist.entries, options.numbering, options.stateKey);
+  }
+
+  return {
+    playlist,
+    headers: fetched[0].response.headers,
+    cacheStatus: getWorstCacheStatus(fetched.map(({ response }) => response.cacheStatus)),
+    failedSources,
+  };
+};
+
+/**
+ * Every entry of the sources, with the source's group prefix but before any filter, for
+ * discovering the groups and channels to write rules for.
+ * @throws SourceFetchError - As for buildPlaylist
+ */
+export const fetchUnfilteredPlaylist = async (options: BuildPlaylistOptions): Promise<BuiltPlaylist> => {
+  const { fetched, failedSources } = await fetchSources(options);
+  return {
+    playlist: {
+      headerAttributes: mergeHeaderAttributes(fetched),
+      entries: fetched.flatMap(({ source, playlist }) => playlist.entries.map((entry) => applySourceToEntry(entry, source))),
+    },
+    headers: fetched[0].response.headers,
+    cacheStatus: getWorstCacheStatus(fetched.map(({ response }) => response.cacheStatus)),
+    failedSources,
+  };
+};
+
+/**
+ * Runs the filters of buildPlaylist without building the playlist, and tells for every entry
+ * whether it was kept and which rule decided. Entries are listed as fetched, before transforms.
+ * @throws SourceFetchError - As for buildPlaylist
+ */
+export const explainPlaylist = async (options: BuildPlaylistOptions): Promise<PlaylistExplanation> => {
+  const { fetched, failedSources } = await fetchSources(options);
+
+  const explanations: EntryExplanation[] = [];
+  const explainProfile = createEntryExplainer(options);
+  for (const { source, playlist } of fetched) {
+    const explainSource = createEntryExplainer(source);
+    for (const entry of playlist.entries) {
+      const sourceDecision = explainSource(entry);
+      const taggedEntry = applySourceToEntry(entry, source);
+      explanations.push(sourceDecision.kept
+        ? { entry: taggedEntry, stage: "profile", ...explainProfile(taggedEntry) }
+        : { entry: taggedEntry, stage: "source", ...sourceDecision });
+    }
+  }
+  if (options.dedupe) {
+    markDuplicates(explanations, options, options.dedupe);
+  }
+
+  return {
+    entries: explanations,
+    cacheStatus: getWorstCacheStatus(fetched.map(({ response }) => response.cacheStatus)),
+    failedSources,
+  };
+};
+
+// Dedupes the transformed entries as buildPlaylist does and marks the entries it dropped
+const markDuplicates = (explanations: EntryExplanation[], options: BuildPlaylistOptions, dedupe: DedupeOptions) => {
+  const keptIndexes = explanations.flatMap((explanation, index) => (explanation.kept ? [index] : []));
+  const transformed = applyTransforms(keptIndexes.map((index) => explanations[index].entry), options.transforms);
+  const survivors = new Set(dedupeEntries(transformed, { ...getDedupeOptions(options, dedupe), keepAlternates: false }));
+  transformed.forEach((entry, position) => {
+    if (!survivors.has(entry)) {
+      const index = keptIndexes[position];
+      explanations[index] = { ...explanations[index], kept: false, stage: "dedupe", reason: "duplicate", rule: getDedupeKey(entry) };
+    }
+  });
+};
+
+const fetchSources = async (options: BuildPlaylistOptions): Promise<{ fetched: FetchedSource[]; failedSources: string[] }> => {
+  const results = await Promise.allSettled(
+    options.sources.map((source) => fetchSource(
+      { ...source, request: mergeDownloadOptions(options.request, source.request) },
+      source.cacheTtl ?? options.cacheTtl,
+      options.urlPolicy
+    ))
+  );
+
+  const failedSources: string[] = [];
+  const errors: unknown[] = [];
+  const fetched: FetchedSource[] = [];
+  results.forEach((result, index) => {
+    const source = options.sources[index];
+    if (result.status === "fulfilled") {
+      fetched.push({ source, response: result.value, playlist: parseM3u(result.value.data) });
+    } else {
+      failedSources.push(getSourceName(source));
+      errors.push(result.reason);
+      logger.warn({ source: getSourceName(source), error: result.reason instanceof Error ? result.reason.message : String(result.reason) }, 'Source failed');
+    }
+  });
+
+  if (fetched.length === 0 || (failedSources.length > 0 && options.sourceFailure === "fail-closed")) {
+    // The first failure tells the handlers whether the upstream timed out or answered with an error
+    throw new SourceFetchError(`Failed to fetch source(s): ${failedSources.join(", ")}`, { cause: errors[0] });
+  }
+  return { fetched, failedSources };
+};
+
+// Header attributes of earlier sources take precedence
+const mergeHeaderAttributes = (fetched: FetchedSource[]): Record<string, string> => {
+  return fetched.reduceRight((attributes, { playlist }) => ({ ...attributes, ...playlist.headerAttributes }), {});
+};
+
+// Unless told otherwise, sources listed first are preferred
+const getDedupeOptions = (options: BuildPlaylistOptions, dedupe: DedupeOptions): DedupeOptions => {
+  return { ...dedupe, sourcePriority: dedupe.sourcePriority ?? options.sources.map(getSourceName) };
+};
+
+// Stable numbers are remembered per profile; without a state key numbering starts over every time.
+// They are re-read from disk, as other workers of a cluster may have numbered new channels.
+const numberEntries = async (entries: M3uEntry[], numbering: NumberingOptions, stateKey?: string): Promise<M3uEntry[]> => {
+  const stateName = numbering.stable && stateKey ? `numbering-${stateKey}` : null;
+  let previous = stateName ? await reloadState<ChannelNumbers>(stateName, {}) : {};
+  let numbered = assignChannelNumbers(entries, numbering, previous);
+  if (stateName) {
+    // Numbers saved by another worker in the meantime win over the ones just handed out
+    const current = await reloadState<ChannelNumbers>(stateName, {});
+    if (current !== previous) {
+      previous = current;
+      numbered = assignChannelNumbers(entries, numbering, previous);
+    }
+  }
+  if (stateName && Object.keys(numbered.numbers).length !== Object.keys(previous).length) {
+    try {
+      await writeState(stateName, numbered.numbers);
+    } catch (error) {
+      logger.warn({ stateName, error: error instanceof Error ? error.message : String(error) }, 'Could not save channel numbers');
+    }
+  }
+  return numbered.entries;
+};
+
+// Only ad-hoc URLs carry a policy, and those are never Xtream panels
+const fetchSource = (source: SourceConfig, ttlSeconds?: number, policy?: UrlPolicy): Promise<PlaylistResponse> => {
+  if (isXtreamSource(source)) {
+    return fetchXtreamSource(source, ttlSeconds);
+  }
+  return fetchPlaylist({ url: source.url, ttlSeconds, policy, request: source.request });
+};
+
+/**
+ * Label of a source in responses, logs and dedupe preferences. Unnamed sources go by their URL
+ * without login and query string, which often hold the provider credentials.
+ */
+export const getSourceName = (source: SourceConfig): string => {
+  return source.name ?? (isXtreamSource(source) ? getXtreamSourceLabel(source) : getPublicSourceUrl(source.url));
+};
+
+const getPublicSourceUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host}${parsed.pathname}`;
+  } catch {
+    return "unnamed source";
+  }
+};
+
+// Tags the entry with its source name and applies the source's group prefix
+export const applySourceToEntry = (entry: M3uEntry, source: SourceConfig): M3uEntry => {
+  if (!source.groupPrefix) {
+    return { ...entry, source: getSourceName(source) };
+  }
+  const group = getEntryGroup(entry);
+  return {
+    ...entry,
+    attributes: { ...entry.attributes, "group-title": `${source.groupPrefix}${group}`.trim() },
+    source: getSourceName(source),
+  };
+};
@@ -0,0 +1,136 @@
+import { download, DownloadOptions, DownloadResponse } from "./downloader";
+import { UrlPolicy } from "./url-policy";
+import { logger } from "./logger";
+
+export type CacheStatus = "HIT" | "MISS" | "REVALIDATED" | "STALE";
+
+export interface PlaylistResponse extends DownloadResponse {
+  cacheStatus: CacheStatus;
+}
+
+interface FetchPlaylistOptions {
+  url: string;
+  ttlSeconds?: number;
+  load?: () => Promise<DownloadResponse>;
+  policy?: UrlPolicy;
+  request?: DownloadOptions;
+}
+
+interface CacheEntry {
+  response: DownloadResponse;
+  expiresAt: number;
+  // Bytes of the playlist, counted against CACHE_MAX_BYTES
+  size: number;
+}
+
+const DEFAULT_TTL_SECONDS = parseInt(process.env.CACHE_TTL_SECONDS || "300", 10);
+const MAX_ENTRIES = parseInt(process.env.CACHE_MAX_ENTRIES || "20", 10);
+// Playlists may be tens of megabytes each, so the entry count alone does not bound the memory used
+const MAX_BYTES = parseInt(process.env.CACHE_MAX_BYTES || String(128 * 1024 * 1024), 10);
+const HTTP_NOT_MODIFIED = 304;
+const CACHE_STATUS_ORDER: CacheStatus[] = ["HIT", "REVALIDATED", "MISS", "STALE"];
+
+// Map iteration order doubles as LRU order: entries are re-inserted on every use
+const cache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<PlaylistResponse>>();
+let cachedBytes = 0;
+
+/**
+ * Fetches an upstream playlist through an in-process cache keyed by URL, URL policy and
+ * download options.
+ * - Fresh copies (younger than ttlSeconds) are served without contacting the upstream.
+ * - Expired copies are revalidated with If-None-Match/If-Modified-Since.
+ * - When the upstream fails, an expired copy is served as STALE instead of failing.
+ * - Concurrent requests for the same URL share a single upstream fetch.
+ * With `load`, the playlist is produced by that function instead of downloaded, and `url` only
+ * serves as the cache key; such playlists are refetched in full when expired. As the `policy` is
+ * part of the key, a url= request never gets a copy that was fetched without its checks.
+ */
+export const fetchPlaylist = async (options: FetchPlaylistOptions): Promise<PlaylistResponse> => {
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  const key = getCacheKey(options);
+  const cached = cache.get(key);
+  if (cached && Date.now() < cached.expiresAt) {
+    touch(key, cached);
+    return { ...cached.response, cacheStatus: "HIT" };
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const fetchPromise = revalidate(options, key, ttlSeconds, cached).finally(() => {
+    inFlight.delete(key);
+  });
+  inFlight.set(key, fetchPromise);
+  return fetchPromise;
+};
+
+export const clearPlaylistCache = (): void => {
+  cache.clear();
+  cachedBytes = 0;
+};
+
+// Headers, charset and the other download options change what is fetched, so they count as well
+const getCacheKey = (options: FetchPlaylistOptions): string => {
+  if (!options.policy && !options.request) {
+    return options.url;
+  }
+  return `${options.url} ${JSON.stringify({ policy: options.policy, request: options.request })}`;
+};
+
+const revalidate = async (options: FetchPlaylistOptions, key: string, ttlSeconds: number, cached?: CacheEntry): Promise<PlaylistResponse> => {
+  const { url, load } = options;
+  try {
+    const response = load
+      ? await load()
+      : await download({ url, headers: getConditionalHeaders(cached), policy: options.policy, request: options.request });
+    if (response.status === HTTP_NOT_MODIFIED && cached) {
+      touch(key, { ...cached, expiresAt: Date.now() + ttlSeconds * 1000 });
+      return { ...cached.response, cacheStatus: "REVALIDATED" };
+    }
+    touch(key, { response, expiresAt: Date.now() + ttlSeconds * 1000, size: Buffer.byteLength(response.data) });
+    return { ...response, cacheStatus: "MISS" };
+  } catch (error) {
+    if (!cached) {
+      throw error;
+    }
+    logger.warn({ url, error: error instanceof Error ? error.message : String(error) }, 'Upstream failed, serving stale playlist');
+    return { ...cached.response, cacheStatus: "STALE" };
+  }
+};
+
+// The least fresh status wins when several responses are combined
+export const getWorstCacheStatus = (statuses: CacheStatus[]): CacheStatus => {
+  return statuses.reduce((worst, status) => CACHE_STATUS_ORDER.indexOf(status) > CACHE_STATUS_ORDER.indexOf(worst) ? status : worst);
+};
+
+const getConditionalHeaders = (cached?: CacheEntry): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (cached?.response.headers.etag) {
+    headers["If-None-Match"] = cached.response.headers.etag;
+  }
+  if (cached?.response.headers["last-modified"]) {
+    headers["If-Modified-Since"] = cached.response.headers["last-modified"];
+  }
+  return headers;
+};
+
+const touch = (key: string, entry: CacheEntry): void => {
+  evict(key);
+  // A playlist larger than the whole cache is served but not kept, rather than evicting every other
+  if (entry.size > MAX_BYTES) {
+    return;
+  }
+  cache.set(key, entry);
+  cachedBytes += entry.size;
+  while (cache.size > MAX_ENTRIES || cachedBytes > MAX_BYTES) {
+    evict(cache.keys().next().value);
+  }
+};
+
+const evict = (key: string): void => {
+  cachedBytes -= cache.get(key)?.size ?? 0;
+  cache.delete(key);
+};
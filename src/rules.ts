@@ -0,0 +1,246 @@
+import { getEntryGroup, getEntryName, M3uEntry } from "./m3uparser";
+
+export type ChannelRuleMatch = "substring" | "regex" | "exact" | "glob";
+
+export interface ChannelRuleObject {
+  // "name" (tvg-name, falling back to the title), "title", "url", "group" or any attribute such as "tvg-id"
+  field?: string;
+  pattern: string;
+  match?: ChannelRuleMatch;
+  caseSensitive?: boolean;
+}
+
+/**
+ * A plain string is a case-insensitive substring of the channel name. The string forms
+ * "/regex/flags" and "field:/regex/flags" are shorthands for regex rules.
+ */
+export type ChannelRule = string | ChannelRuleObject;
+
+export interface CompiledRuleSet {
+  size: number;
+  // Returns the first rule matching the entry, or null
+  findMatch: (entry: M3uEntry) => ChannelRule | null;
+}
+
+export class InvalidRuleError extends Error {}
+
+const DEFAULT_FIELD = "name";
+const MATCH_TYPES: ChannelRuleMatch[] = ["substring", "regex", "exact", "glob"];
+const REGEX_SHORTHAND_PATTERN = /^(?:([a-z][a-z0-9_-]*):)?\/(.+)\/([a-z]*)$/i;
+
+interface NormalizedRule {
+  source: ChannelRule;
+  field: string;
+  pattern: string;
+  match: ChannelRuleMatch;
+  caseSensitive: boolean;
+  flags?: string;
+}
+
+export const compileRules = (rules?: ChannelRule[]): CompiledRuleSet => {
+  const normalized = (rules || []).map(normalizeRule);
+
+  // Case-insensitive substring rules are the bulk of most exclusion lists (hundreds of entries),
+  // so they are folded into one regex per field and only resolved to a single rule on a hit
+  const substringBuckets = new Map<string, NormalizedRule[]>();
+  const matchers: { rule: NormalizedRule; test: (value: string) => boolean }[] = [];
+  for (const rule of normalized) {
+    if (rule.match === "substring" && !rule.caseSensitive) {
+      const bucket = substringBuckets.get(rule.field) || [];
+      bucket.push(rule);
+      substringBuckets.set(rule.field, bucket);
+    } else {
+      matchers.push({ rule, test: buildMatcher(rule) });
+    }
+  }
+  const substringMatchers = [...substringBuckets.entries()].map(([field, bucket]) => ({
+    field,
+    bucket,
+    regex: new RegExp(bucket.map((rule) => escapeRegExp(rule.pattern.toLowerCase())).join('|')),
+  }));
+
+  const findMatch = (entry: M3uEntry): ChannelRule | null => {
+    for (const { field, bucket, regex } of substringMatchers) {
+      const value = getFieldValue(entry, field);
+      if (!value) {
+        continue;
+      }
+      const valueLower = value.toLowerCase();
+      if (regex.test(valueLower)) {
+        const hit = bucket.find((rule) => valueLower.includes(rule.pattern.toLowerCase()));
+        return hit ? hit.source : bucket[0].source;
+      }
+    }
+    for (const { rule, test } of matchers) {
+      const value = getFieldValue(entry, rule.field);
+      if (value && test(value)) {
+        return rule.source;
+      }
+    }
+    return null;
+  };
+
+  return { size: normalized.length, findMatch };
+};
+
+// A JSON array of rules opens with an object or a string; "[VIP]" is a plain rule
+export const isJsonRuleList = (value: string): boolean => /^\[\s*[{"\]]/.test(value);
+
+/**
+ * Accepts rules from a query string: either a JSON array of rules or plain/shorthand strings.
+ */
+export const parseRuleParam = (values: string[]): ChannelRule[] => {
+  return values.flatMap((value): ChannelRule[] => {
+    if (!isJsonRuleList(value)) {
+      return [value];
+    }
+    try {
+      const parsed: unknown = JSON.parse(value);
+      if (!Array.isArray(parsed)) {
+        throw new InvalidRuleError("Rule list must be a JSON array");
+      }
+      return parsed as ChannelRule[];
+    } catch (error) {
+      if (error instanceof InvalidRuleError) {
+        throw error;
+      }
+      throw new InvalidRuleError(`Invalid JSON rule list: ${value}`);
+    }
+  });
+};
+
+export const getFieldValue = (entry: M3uEntry, field: string): string | null => {
+  switch (field) {
+    case "name":
+      return getEntryName(entry);
+    case "title":
+      return entry.title || null;
+    case "url":
+      return entry.url || null;
+    case "group":
+      return getEntryGroup(entry);
+    default:
+      return entry.attributes[field] ?? null;
+  }
+};
+
+export const describeRule = (rule: ChannelRule): string => {
+  return typeof rule === "string" ? rule : JSON.stringify(rule);
+};
+
+export const globToRegExp = (glob: string, caseSensitive = false): RegExp => {
+  const source = glob
+    .split("")
+    .map((char) => (char === "*" ? ".*" : char === "?" ? "." : escapeRegExp(char)))
+    .join("");
+  return new RegExp(`^${source}$`, caseSensitive ? "su" : "isu");
+};
+
+/**
+ * Group patterns match case-insensitively and may use the glob wildcards "*" and "?".
+ */
+export const createGroupMatcher = (patterns?: string[]): ((group: string) => boolean) => {
+  const findPattern = createGroupPatternFinder(patterns);
+  return (group: string): boolean => findPattern(group) !== null;
+};
+
+// Like createGroupMatcher, but returns the first pattern matching the group, or null
+export const createGroupPatternFinder = (patterns?: string[]): ((group: string) => string | null) => {
+  const exactGroups = new Map<string, string>();
+  const globs: { pattern: string; regex: RegExp }[] = [];
+  for (const pattern of patterns || []) {
+    if (/[*?]/.test(pattern)) {
+      globs.push({ pattern, regex: globToRegExp(pattern) });
+    } else if (!exactGroups.has(pattern.toLowerCase())) {
+      exactGroups.set(pattern.toLowerCase(), pattern);
+    }
+  }
+  return (group: string): string | null => {
+    if (!group) {
+      return null;
+    }
+    return exactGroups.get(group.toLowerCase()) ?? globs.find(({ regex }) => regex.test(group))?.pattern ?? null;
+  };
+};
+
+const normalizeRule = (rule: ChannelRule): NormalizedRule => {
+  if (typeof rule === "string") {
+    const shorthand = REGEX_SHORTHAND_PATTERN.exec(rule);
+    if (shorthand) {
+      return {
+        source: rule,
+        field: shorthand[1] || DEFAULT_FIELD,
+        pattern: shorthand[2],
+        match: "regex",
+        caseSensitive: !shorthand[3].includes("i"),
+        flags: shorthand[3],
+      };
+    }
+    return { source: rule, field: DEFAULT_FIELD, pattern: rule, match: "substring", caseSensitive: false };
+  }
+
+  if (!rule || typeof rule !== "object" || typeof rule.pattern !== "string" || rule.pattern.length === 0) {
+    throw new InvalidRuleError(`Rule must have a non-empty "pattern": ${JSON.stringify(rule)}`);
+  }
+  if (rule.match !== undefined && !MATCH_TYPES.includes(rule.match)) {
+    throw new InvalidRuleError(`Rule "match" must be one of ${MATCH_TYPES.join(", ")}: ${JSON.stringify(rule)}`);
+  }
+  if (rule.field !== undefined && (typeof rule.field !== "string" || rule.field.length === 0)) {
+    throw new InvalidRuleError(`Rule "field" must be a non-empty string: ${JSON.stringify(rule)}`);
+  }
+  return {
+    source: rule,
+    field: rule.field || DEFAULT_FIELD,
+    pattern: rule.pattern,
+    match: rule.match || "substring",
+    caseSensitive: rule.caseSensitive === true,
+  };
+};
+
+const buildMatcher = (rule: NormalizedRule): ((value: string) => boolean) => {
+  switch (rule.match) {
+    case "regex": {
+      const regex = compileRegex(rule);
+      return (value) => regex.test(value);
+    }
+    case "glob": {
+      const regex = globToRegExp(rule.pattern, rule.caseSensitive);
+      return (value) => regex.test(value);
+    }
+    case "exact": {
+      if (rule.caseSensitive) {
+        return (value) => value === rule.pattern;
+      }
+      const patternLower = rule.pattern.toLowerCase();
+      return (value) => value.toLowerCase() === patternLower;
+    }
+    default:
+      return (value) => value.includes(rule.pattern);
+  }
+};
+
+// Regexes get the "u" flag so Unicode property classes such as \p{Script=Han} work. Patterns it
+// rejects, such as the identity escapes \- and \_ that plain regexes accept, compile without it
+const compileRegex = (rule: NormalizedRule): RegExp => {
+  const flags = new Set((rule.flags ?? "").replace(/[gy]/g, "").split("").filter(Boolean));
+  if (rule.caseSensitive) {
+    flags.delete("i");
+  } else {
+    flags.add("i");
+  }
+  const attempts = flags.has("u") ? [flags] : [new Set([...flags, "u"]), flags];
+  let lastError: unknown;
+  for (const attemptFlags of attempts) {
+    try {
+      return new RegExp(rule.pattern, [...attemptFlags].join(""));
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  const reason = lastError instanceof Error ? lastError.message : String(lastError);
+  throw new InvalidRuleError(`Invalid regex in rule ${describeRule(rule.source)}: ${reason}`);
+};
+
+const escapeRegExp = (str: string): string => {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
@@ -0,0 +1,76 @@
+import { getEntryGroup, getEntryName, M3uEntry } from "./m3uparser";
+import { ChannelRule, compileRules, createGroupMatcher } from "./rules";
+
+export type GroupOrder = "upstream" | "config" | "name";
+export type ChannelOrder = "upstream" | "name";
+
+export interface SortOptions {
+  // Groups are always kept together. "upstream" orders them by first appearance, "config" as
+  // listed in groupsToInclude (unlisted groups last) and "name" alphabetically
+  groups?: GroupOrder;
+  // Order of channels within a group
+  channels?: ChannelOrder;
+  // Channels moved to the very top, in the order of this list
+  pinned?: ChannelRule[];
+  // Within a group, channels matching earlier rules come first and unmatched ones last
+  rules?: ChannelRule[];
+}
+
+export const GROUP_ORDERS: GroupOrder[] = ["upstream", "config", "name"];
+export const CHANNEL_ORDERS: ChannelOrder[] = ["upstream", "name"];
+
+interface SortKey {
+  index: number;
+  pinnedRank: number;
+  groupRank: number;
+  ruleRank: number;
+  name: string;
+}
+
+/**
+ * Orders entries by pinned rank, then group, then custom rules, then name (when sorting by
+ * name) and finally upstream position, so equal entries never change places.
+ */
+export const sortEntries = (entries: M3uEntry[], options: SortOptions = {}, groupsToInclude: string[] = []): M3uEntry[] => {
+  const pinned = compileRules(options.pinned);
+  const rules = compileRules(options.rules);
+  const groupRanks = getGroupRanks(entries, options.groups ?? "upstream", groupsToInclude);
+  const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+  const keys: SortKey[] = entries.map((entry, index) => ({
+    index,
+    pinnedRank: getRuleRank(pinned.findMatch(entry), options.pinned),
+    groupRank: groupRanks.get(getEntryGroup(entry)) ?? 0,
+    ruleRank: getRuleRank(rules.findMatch(entry), options.rules),
+    name: options.channels === "name" ? getEntryName(entry) ?? "" : "",
+  }));
+  keys.sort((a, b) =>
+    a.pinnedRank - b.pinnedRank
+    || a.groupRank - b.groupRank
+    || a.ruleRank - b.ruleRank
+    || collator.compare(a.name, b.name)
+    || a.index - b.index
+  );
+  return keys.map((key) => entries[key.index]);
+};
+
+const getRuleRank = (match: ChannelRule | null, rules?: ChannelRule[]): number => {
+  return match === null ? Number.MAX_SAFE_INTEGER : (rules ?? []).indexOf(match);
+};
+
+const getGroupRanks = (entries: M3uEntry[], order: GroupOrder, groupsToInclude: string[]): Map<string, number> => {
+  const groups = [...new Set(entries.map(getEntryGroup))];
+  if (order === "name") {
+    const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+    groups.sort(collator.compare);
+  } else if (order === "config") {
+    const matchers = groupsToInclude.map((pattern) => createGroupMatcher([pattern]));
+    const configRank = (group: string): number => {
+      const rank = matchers.findIndex((matches) => matches(group));
+      return rank === -1 ? matchers.length : rank;
+    };
+    // Array.prototype.sort is stable, so groups of equal rank keep their upstream order
+    groups.sort((a, b) => configRank(a) - configRank(b));
+  }
+  return new Map(groups.map((group, rank) => [group, rank]));
+};
@@ -0,0 +1,121 @@
+import * as path from "path";
+import { randomBytes } from "crypto";
+import { link, mkdir, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import { getDefaultConfigFile } from "./config";
+import { getConfigFilePath } from "./config-store";
+import { logger } from "./logger";
+
+const STATE_DIR_ENV_VARIABLE = "M3UFILTER_STATE_DIR";
+const STATE_DIR_NAME = "state";
+
+// Loaded documents, so that each one is read from disk at most once per process
+const documents = new Map<string, unknown>();
+// Modification times of the files read by reloadState, to tell when another process rewrote them
+const modifiedTimes = new Map<string, number | undefined>();
+// Writes to the same document are chained so that they land in order
+const pendingWrites = new Map<string, Promise<void>>();
+
+/**
+ * Runtime state (such as remembered channel numbers) lives in M3UFILTER_STATE_DIR, or in a
+ * "state" directory next to the config file so that it ends up on the same volume.
+ */
+export const getStateDir = (env: NodeJS.ProcessEnv = process.env): string => {
+  if (env[STATE_DIR_ENV_VARIABLE]) {
+    return path.resolve(env[STATE_DIR_ENV_VARIABLE]);
+  }
+  return path.join(path.dirname(getConfigFilePath() ?? getDefaultConfigFile()), STATE_DIR_NAME);
+};
+
+/**
+ * Returns the stored document, or the fallback when there is none. A corrupt document is
+ * logged and treated as missing rather than failing the request.
+ */
+export const readState = async <T>(name: string, fallback: T): Promise<T> => {
+  if (documents.has(name)) {
+    return documents.get(name) as T;
+  }
+  let value = fallback;
+  try {
+    value = JSON.parse(await readFile(getStateFile(name), "utf-8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      logger.warn({ name, error: error instanceof Error ? error.message : String(error) }, 'Unreadable state, starting over');
+    }
+  }
+  documents.set(name, value);
+  return value;
+};
+
+/**
+ * Like readState, but picks up documents rewritten by other processes, such as the other
+ * workers of a PM2 cluster: the file is read again whenever it changed since the last read.
+ */
+export const reloadState = async <T>(name: string, fallback: T): Promise<T> => {
+  // The own writes land first, so that an older copy on disk does not replace them
+  await pendingWrites.get(name);
+  const modifiedTime = await getModifiedTime(name);
+  if (!documents.has(name) || !modifiedTimes.has(name) || modifiedTimes.get(name) !== modifiedTime) {
+    documents.delete(name);
+    modifiedTimes.set(name, modifiedTime);
+  }
+  return readState(name, fallback);
+};
+
+// Written to a temporary file and renamed, so a crash never leaves a half-written document
+export const writeState = async <T>(name: string, value: T): Promise<void> => {
+  const file = getStateFile(name);
+  documents.set(name, value);
+  const write = (pendingWrites.get(name) ?? Promise.resolve()).then(async () => {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(value, null, 2), "utf-8");
+    await rename(`${file}.tmp`, file);
+  });
+  // A failed write must not block the ones queued after it
+  pendingWrites.set(name, write.catch((): void => undefined));
+  return write;
+};
+
+/**
+ * Stores a document only when there is none yet, so that processes racing to create it settle
+ * on the same one. Returns false when another process stored it first.
+ */
+export const createState = async <T>(name: string, value: T): Promise<boolean> => {
+  const file = getStateFile(name);
+  const temporaryFile = `${file}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(temporaryFile, JSON.stringify(value, null, 2), "utf-8");
+  try {
+    // Unlike a rename, linking fails when the file exists; unlike opening it with "wx", it
+    // never shows other processes a half-written document
+    await link(temporaryFile, file);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return false;
+    }
+    throw error;
+  } finally {
+    await unlink(temporaryFile).catch((): void => undefined);
+  }
+  documents.set(name, value);
+  return true;
+};
+
+export const clearStateCache = (): void => {
+  documents.clear();
+  modifiedTimes.clear();
+};
+
+const getModifiedTime = async (name: string): Promise<number | undefined> => {
+  try {
+    return (await stat(getStateFile(name))).mtimeMs;
+  } catch {
+    return undefined;
+  }
+};
+
+const getStateFile = (name: string): string => {
+  if (!/^[a-zA-Z0-9_.-]+$/.test(name) || name.startsWith(".")) {
+    throw new Error(`Invalid state name: ${name}`);
+  }
+  return path.join(getStateDir(), `${name}.json`);
+};
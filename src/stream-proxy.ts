@@ -0,0 +1,139 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from "crypto";
+import type { M3uEntry } from "./m3uparser";
+import { createState, readState, reloadState } from "./state-store";
+import { logger } from "./logger";
+
+export const STREAM_PROXY_MODES = ["redirect", "pipe"] as const;
+// redirect hides the upstream URLs from the playlist only; pipe hides them from clients altogether
+export type StreamProxyMode = typeof STREAM_PROXY_MODES[number];
+
+// Where proxied stream URLs point: /stream/<profile>/<id> under the public address of the server
+export interface StreamProxyTarget {
+  baseUrl: string;
+  profileKey: string;
+  key: Buffer;
+}
+
+const STREAM_SECRET_ENV_VARIABLE = "STREAM_SECRET";
+const KEY_STATE_NAME = "stream-key";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HLS_CONTENT_TYPES = ["mpegurl", "m3u8"];
+
+let streamKey: Promise<Buffer> | null = null;
+
+/**
+ * Key of the stream ids. It is derived from STREAM_SECRET, or generated once and kept in the
+ * state directory, so that ids (and the channels media servers remember) survive restarts and
+ * are the same in every worker of a cluster.
+ */
+export const getStreamKey = (): Promise<Buffer> => {
+  streamKey ??= loadStreamKey();
+  return streamKey;
+};
+
+export const resetStreamKey = (): void => {
+  streamKey = null;
+};
+
+const loadStreamKey = async (): Promise<Buffer> => {
+  const secret = process.env[STREAM_SECRET_ENV_VARIABLE];
+  if (secret) {
+    return createHash("sha256").update(secret).digest();
+  }
+  const stored = await readState<string | null>(KEY_STATE_NAME, null);
+  if (stored) {
+    return Buffer.from(stored, "base64");
+  }
+  const key = randomBytes(32);
+  try {
+    // The workers of a cluster race to create the key; the ones that lose take the winner's
+    if (!(await createState(KEY_STATE_NAME, key.toString("base64")))) {
+      const winner = await reloadState<string | null>(KEY_STATE_NAME, null);
+      return winner ? Buffer.from(winner, "base64") : key;
+    }
+  } catch (error) {
+    logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Could not save the stream key; stream URLs will change on restart');
+  }
+  return key;
+};
+
+/**
+ * Encrypts a stream URL into an opaque id with AES-256-GCM, bound to the profile so that an id
+ * only opens under the profile it was issued for. The IV is derived from the URL, so a stream
+ * keeps the same id across playlist refreshes.
+ */
+export const encodeStreamId = (key: Buffer, profileKey: string, url: string): string => {
+  const iv = createHmac("sha256", key).update(`${profileKey}\n${url}`).digest().subarray(0, IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(profileKey));
+  const encrypted = Buffer.concat([cipher.update(url, "utf-8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64url");
+};
+
+// The stream URL of an id, or null for ids that were tampered with or issued for another profile or key
+export const decodeStreamId = (key: Buffer, profileKey: string, id: string): string | null => {
+  const data = Buffer.from(id, "base64url");
+  if (data.length <= IV_LENGTH + TAG_LENGTH) {
+    return null;
+  }
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", key, data.subarray(0, IV_LENGTH));
+    decipher.setAAD(Buffer.from(profileKey));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString("utf-8");
+  } catch {
+    return null;
+  }
+};
+
+// The extension of the upstream file is kept, as some players pick a demuxer by it
+export const getProxiedUrl = (target: StreamProxyTarget, url: string): string => {
+  const extension = /\.([a-z0-9]{1,5})$/i.exec(getUrlPath(url))?.[0] ?? "";
+  return `${target.baseUrl}/stream/${encodeURIComponent(target.profileKey)}/${encodeStreamId(target.key, target.profileKey, url)}${extension}`;
+};
+
+// Source names default to the source URLs, so they are left out along with the stream URLs
+export const proxyEntry = (entry: M3uEntry, target: StreamProxyTarget): M3uEntry => {
+  const { source: _source, ...proxied } = entry;
+  return {
+    ...proxied,
+    url: getProxiedUrl(target, entry.url),
+    ...(entry.alternates ? { alternates: entry.alternates.map((url) => getProxiedUrl(target, url)) } : {}),
+  };
+};
+
+export const isHlsPlaylist = (url: string, contentType?: string): boolean => {
+  if (contentType && HLS_CONTENT_TYPES.some((type) => contentType.toLowerCase().includes(type))) {
+    return true;
+  }
+  return /\.m3u8$/i.test(getUrlPath(url));
+};
+
+/**
+ * Rewrites the URIs of an HLS playlist (variant streams, segments, and the URI attributes of
+ * keys, maps and alternative renditions) after resolving them against the playlist URL.
+ */
+export const rewriteHlsPlaylist = (text: string, playlistUrl: string, rewrite: (url: string) => string): string => {
+  const resolve = (uri: string): string => rewrite(new URL(uri, playlistUrl).href);
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      const trimmed = line.trim();
+      if (trimmed === "") {
+        return line;
+      } else if (trimmed.startsWith("#")) {
+        return line.replace(/URI="([^"]*)"/g, (_match, uri: string) => `URI="${resolve(uri)}"`);
+      }
+      return resolve(trimmed);
+    })
+    .join("\n");
+};
+
+const getUrlPath = (url: string): string => {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+};
@@ -0,0 +1,149 @@
+import { isPrimaryInstance } from "./instance";
+
+export const CONNECTION_LIMIT_ACTIONS = ["reject", "replaceOldest"] as const;
+export type ConnectionLimitAction = typeof CONNECTION_LIMIT_ACTIONS[number];
+
+export interface StreamLimit {
+  maxConnections: number;
+  // What a new stream does when the profile is full; defaults to reject
+  onLimit?: ConnectionLimitAction;
+}
+
+export class StreamLimitError extends Error {}
+
+// One player watching one channel; an HLS stream spans many requests (playlists and segments)
+export interface StreamSessionInfo {
+  profileKey: string;
+  client: string;
+  userAgent?: string;
+  channel: string;
+  hls: boolean;
+  startedAt: string;
+  lastActivityAt: string;
+  openRequests: number;
+  bytes: number;
+}
+
+export interface StreamSessionHandle {
+  countBytes: (bytes: number) => void;
+  // HLS sessions outlive their requests, as players fetch each segment separately
+  markHls: () => void;
+  release: () => void;
+}
+
+interface StreamSession {
+  profileKey: string;
+  client: string;
+  userAgent?: string;
+  channel: string;
+  hls: boolean;
+  replaced: boolean;
+  startedAt: number;
+  lastActivity: number;
+  requests: Set<AbortController>;
+  bytes: number;
+}
+
+// HLS players reload their playlist at least every target duration, rarely more than 10 seconds
+const SESSION_IDLE_MS = 30 * 1000;
+
+// Counted in memory, so limits only hold when a single process relays the streams
+const sessions = new Map<string, StreamSession>();
+
+/**
+ * Registers a request of a proxied stream under its session, opening the session when it is
+ * new. A full profile refuses new sessions, or ends its oldest one with "replaceOldest"; the
+ * player of a replaced session is refused until there is room again.
+ * @param abort - Aborted when the session is replaced
+ * @throws StreamLimitError - The profile has no room for a new session, or runs in a worker of
+ * a cluster, where each worker would allow maxConnections of its own
+ */
+export const openStreamSession = (
+  args: { profileKey: string; client: string; userAgent?: string; channel: string },
+  limit: StreamLimit | undefined,
+  abort: AbortController
+): StreamSessionHandle => {
+  if (limit && !isPrimaryInstance()) {
+    throw new StreamLimitError(`Profile ${args.profileKey} has maxConnections, which needs a single instance`);
+  }
+  const now = Date.now();
+  pruneSessions(now);
+  const key = `${args.profileKey}\n${args.client}\n${args.channel}`;
+  let session = sessions.get(key);
+
+  if (!session || session.replaced) {
+    const open = getOpenSessions(args.profileKey);
+    if (limit && open.length >= limit.maxConnections) {
+      if (session?.replaced || (limit.onLimit ?? "reject") === "reject") {
+        throw new StreamLimitError(`Profile ${args.profileKey} already has ${open.length} of ${limit.maxConnections} streams open`);
+      }
+      open
+        .sort((a, b) => a.startedAt - b.startedAt)
+        .slice(0, open.length - limit.maxConnections + 1)
+        .forEach((oldest) => replaceSession(oldest, now));
+    }
+    session = { ...args, hls: false, replaced: false, startedAt: now, lastActivity: now, requests: new Set(), bytes: 0 };
+    sessions.set(key, session);
+  }
+
+  const current = session;
+  current.lastActivity = now;
+  current.requests.add(abort);
+  return {
+    countBytes: (bytes) => {
+      current.bytes += bytes;
+    },
+    markHls: () => {
+      current.hls = true;
+    },
+    release: () => {
+      current.requests.delete(abort);
+      current.lastActivity = Date.now();
+      if (current.requests.size === 0 && !current.hls && !current.replaced && sessions.get(key) === current) {
+        sessions.delete(key);
+      }
+    },
+  };
+};
+
+export const getStreamSessions = (): StreamSessionInfo[] => {
+  pruneSessions(Date.now());
+  return [...sessions.values()]
+    .filter((session) => !session.replaced)
+    .map((session) => ({
+      profileKey: session.profileKey,
+      client: session.client,
+      ...(session.userAgent ? { userAgent: session.userAgent } : {}),
+      channel: session.channel,
+      hls: session.hls,
+      startedAt: new Date(session.startedAt).toISOString(),
+      lastActivityAt: new Date(session.lastActivity).toISOString(),
+      openRequests: session.requests.size,
+      bytes: session.bytes,
+    }));
+};
+
+export const resetStreamSessions = (): void => {
+  sessions.clear();
+};
+
+const getOpenSessions = (profileKey: string): StreamSession[] => {
+  return [...sessions.values()].filter((session) => session.profileKey === profileKey && !session.replaced);
+};
+
+// Replaced sessions are kept until idle, so that their players do not take the room back at once
+const replaceSession = (session: StreamSession, now: number): void => {
+  session.replaced = true;
+  session.lastActivity = now;
+  for (const abort of session.requests) {
+    abort.abort();
+  }
+};
+
+const pruneSessions = (now: number): void => {
+  for (const [key, session] of sessions) {
+    if (session.requests.size === 0 && now - session.lastActivity > SESSION_IDLE_MS) {
+      sessions.delete(key);
+    }
+  }
+};
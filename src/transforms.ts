@@ -0,0 +1,112 @@
+import { M3uEntry, getEntryGroup } from "./m3uparser";
+import { ChannelRule, compileRules, createGroupMatcher } from "./rules";
+
+export interface RenameRule {
+  pattern: string;
+  // May use $1, $<name> etc. as in String.prototype.replace
+  replacement: string;
+  // Defaults to "g"; "u" is always added
+  flags?: string;
+}
+
+export interface TransformRule {
+  // The rule applies to entries matching any of these channel rules and any of these groups;
+  // when both are omitted it applies to every entry
+  channels?: ChannelRule[];
+  groups?: string[];
+  // Applied to the display title and to tvg-name
+  rename?: RenameRule;
+  // Attributes to add or override, e.g. "group-title" to move a channel to another group
+  set?: Record<string, string>;
+  // Attributes to drop
+  remove?: string[];
+}
+
+export class InvalidTransformError extends Error {}
+
+const ATTRIBUTE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Compiles transform rules into a single function. Rules run in order, each one seeing the
+ * result of the previous ones, and never modify the entry they are given.
+ * @throws InvalidTransformError - A rule has a bad regex or attribute name
+ */
+export const compileTransforms = (rules?: TransformRule[]): ((entry: M3uEntry) => M3uEntry) => {
+  const compiled = (rules || []).map((rule, index) => {
+    try {
+      return compileTransform(rule);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new InvalidTransformError(`Transform ${index}: ${reason}`);
+    }
+  });
+  if (compiled.length === 0) {
+    return (entry) => entry;
+  }
+  return (entry) => compiled.reduce((current, transform) => transform(current), entry);
+};
+
+export const applyTransforms = (entries: M3uEntry[], rules?: TransformRule[]): M3uEntry[] => {
+  if (!rules || rules.length === 0) {
+    return entries;
+  }
+  return entries.map(compileTransforms(rules));
+};
+
+export const compileTransform = (rule: TransformRule): ((entry: M3uEntry) => M3uEntry) => {
+  if (!rule || typeof rule !== "object") {
+    throw new InvalidTransformError("must be an object");
+  }
+  const channels = compileRules(rule.channels);
+  const groupMatcher = createGroupMatcher(rule.groups);
+  const hasGroups = (rule.groups?.length ?? 0) > 0;
+  const rename = rule.rename ? compileRename(rule.rename) : null;
+  for (const name of [...Object.keys(rule.set ?? {}), ...(rule.remove ?? [])]) {
+    if (!ATTRIBUTE_NAME_PATTERN.test(name)) {
+      throw new InvalidTransformError(`invalid attribute name '${name}'`);
+    }
+  }
+
+  const matches = (entry: M3uEntry): boolean => {
+    return (channels.size === 0 || channels.findMatch(entry) !== null)
+      && (!hasGroups || groupMatcher(getEntryGroup(entry)));
+  };
+
+  return (entry) => {
+    if (!matches(entry)) {
+      return entry;
+    }
+    const attributes = { ...entry.attributes };
+    let title = entry.title;
+    if (rename) {
+      title = rename(title);
+      if (attributes["tvg-name"] !== undefined) {
+        attributes["tvg-name"] = rename(attributes["tvg-name"]);
+      }
+    }
+    for (const [name, value] of Object.entries(rule.set ?? {})) {
+      attributes[name] = toSingleLine(value);
+    }
+    for (const name of rule.remove ?? []) {
+      delete attributes[name];
+    }
+    return { ...entry, attributes, title };
+  };
+};
+
+const compileRename = (rename: RenameRule): ((value: string) => string) => {
+  if (typeof rename.pattern !== "string" || typeof rename.replacement !== "string") {
+    throw new InvalidTransformError('rename needs a "pattern" and a "replacement"');
+  }
+  let regex: RegExp;
+  try {
+    regex = new RegExp(rename.pattern, [...new Set(`${rename.flags ?? "g"}u`)].join(""));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new InvalidTransformError(`invalid rename pattern: ${reason}`);
+  }
+  return (value) => toSingleLine(value.replace(regex, rename.replacement)).trim();
+};
+
+// A line break would end the #EXTINF line early and corrupt the playlist
+const toSingleLine = (value: string): string => value.replace(/[\r\n]+/g, " ");
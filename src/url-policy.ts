@@ -0,0 +1,110 @@
+import { lookup, LookupAddress, LookupAllOptions } from "dns";
+import { BlockList, isIP } from "net";
+import { globToRegExp } from "./rules";
+
+// Which URLs the ad-hoc url= mode may fetch; profiles are written by the admin and not restricted
+export interface UrlPolicy {
+  // false serves profiles only
+  enabled?: boolean;
+  // Defaults to http and https
+  schemes?: string[];
+  // Host names that may be fetched, with "*" and "?" wildcards; any host when unset
+  hosts?: string[];
+  // Loopback, private, link-local and other internal addresses are refused unless set
+  allowPrivateAddresses?: boolean;
+}
+
+export class BlockedUrlError extends Error {}
+
+export const URL_SCHEMES = ["http", "https"];
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+const INTERNAL_RANGES: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"], // Carrier-grade NAT
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"], // Link-local, including cloud metadata services
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 3, "ipv4"], // Multicast, reserved and broadcast
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["::ffff:0:0", 96, "ipv6"], // IPv4-mapped, which would otherwise hide any of the above
+  ["64:ff9b::", 96, "ipv6"], // NAT64, which translates to any IPv4 address
+  ["2002::", 16, "ipv6"], // 6to4, which tunnels to any IPv4 address
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+// One list per family, as a block list also matches IPv4 addresses against the IPv4-mapped range
+const internalAddresses = { ipv4: new BlockList(), ipv6: new BlockList() };
+for (const [network, prefix, type] of INTERNAL_RANGES) {
+  internalAddresses[type].addSubnet(network, prefix, type);
+}
+
+export const isInternalAddress = (address: string): boolean => {
+  const version = isIP(address);
+  if (version === 0) {
+    return false;
+  }
+  const type = version === 4 ? "ipv4" : "ipv6";
+  return internalAddresses[type].check(address, type);
+};
+
+/**
+ * Checks the scheme and host name of a URL against the policy, and its address when the host
+ * is an IP address. Names are checked once resolved, by the lookup of getGuardedRequestOptions.
+ * @throws BlockedUrlError
+ */
+export const checkUrl = (url: string, policy: UrlPolicy): void => {
+  const parsed = new URL(url);
+  const scheme = parsed.protocol.replace(/:$/, "");
+  if (!(policy.schemes ?? URL_SCHEMES).includes(scheme)) {
+    throw new BlockedUrlError(`URLs with the scheme ${scheme} are not allowed`);
+  }
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+  if (policy.hosts && !policy.hosts.some((pattern) => globToRegExp(pattern).test(hostname))) {
+    throw new BlockedUrlError(`The host ${hostname} is not allowed`);
+  }
+  if (!policy.allowPrivateAddresses && isInternalAddress(hostname)) {
+    throw new BlockedUrlError(`The address ${hostname} is internal`);
+  }
+};
+
+/**
+ * Request options that hold the policy for the whole download: every address a host name
+ * resolves to is checked before connecting, so that DNS cannot point an allowed name at an
+ * internal address, and every redirect goes through checkUrl again.
+ */
+export const getGuardedRequestOptions = (policy: UrlPolicy) => {
+  return {
+    lookup: (hostname: string, options: LookupAllOptions, callback: LookupCallback) => {
+      lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+          callback(error, []);
+          return;
+        }
+        if (addresses.length === 0) {
+          callback(Object.assign(new Error(`The host ${hostname} resolves to no address`), { code: "ENOTFOUND" }), []);
+          return;
+        }
+        const internal = policy.allowPrivateAddresses ? undefined : addresses.find(({ address }) => isInternalAddress(address));
+        if (internal) {
+          callback(new BlockedUrlError(`The host ${hostname} resolves to the internal address ${internal.address}`), []);
+        } else if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      });
+    },
+    beforeRedirect: (options: { href: string }) => {
+      checkUrl(options.href, policy);
+    },
+  };
+};
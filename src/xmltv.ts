@@ -0,0 +1,202 @@
+import { Transform, TransformCallback } from "stream";
+import { StringDecoder } from "string_decoder";
+import { M3uEntry } from "./m3uparser";
+import { isSupportedCharset } from "./charset";
+
+type GuideElement = "channel" | "programme";
+
+const ELEMENT_START_PATTERN = /<(channel|programme)[\s/>]/;
+// Guards against an upstream that never closes an element
+const MAX_ELEMENT_LENGTH = 1024 * 1024;
+const EPG_URL_ATTRIBUTES = ["x-tvg-url", "url-tvg"];
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+// The declaration opens the document, so its encoding is always within the first bytes
+export const XML_DECLARATION_SNIFF_LENGTH = 1024;
+const XML_DECLARATION_PATTERN = /^\uFEFF?<\?xml\s[^>]*\?>/;
+const XML_ENCODING_PATTERN = /(\sencoding\s*=\s*)(["'])([^"']*)\2/;
+
+/**
+ * Filters an XMLTV guide as it streams through, keeping only the <channel> elements whose id,
+ * and the <programme> elements whose channel, is one of the given channel ids. Everything
+ * else (the XML declaration, the <tv> root, comments) is passed through untouched, except for
+ * the encoding of the declaration: UTF-8 comes in and goes out.
+ */
+export class XmltvFilterStream extends Transform {
+  private readonly decoder = new StringDecoder("utf-8");
+  private readonly channelIds: Set<string>;
+  private buffer = "";
+  private element: GuideElement | null = null;
+  // Indentation before an element is only written out if the element is kept
+  private pendingWhitespace = "";
+  private declarationRewritten = false;
+
+  constructor(options: { channelIds: Iterable<string> }) {
+    super();
+    this.channelIds = new Set([...options.channelIds].map((id) => id.toLowerCase()));
+  }
+
+  _transform(chunk: Buffer | string, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      this.buffer += typeof chunk === "string" ? chunk : this.decoder.write(chunk);
+      this.processBuffer(false);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      this.buffer += this.decoder.end();
+      this.processBuffer(true);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private processBuffer(final: boolean): void {
+    if (!this.rewriteDeclaration(final)) {
+      return;
+    }
+    for (;;) {
+      if (!this.element) {
+        const match = ELEMENT_START_PATTERN.exec(this.buffer);
+        if (!match) {
+          // The text from the last "<" may be the beginning of an element split across chunks
+          const lastTagStart = final ? -1 : this.buffer.lastIndexOf("<");
+          const passThrough = lastTagStart === -1 ? this.buffer : this.buffer.substring(0, lastTagStart);
+          this.writeText(passThrough);
+          this.buffer = this.buffer.substring(passThrough.length);
+          if (final) {
+            this.writeText("", true);
+          }
+          return;
+        }
+        this.writeText(this.buffer.substring(0, match.index));
+        this.buffer = this.buffer.substring(match.index);
+        this.element = match[1] as GuideElement;
+      }
+
+      const end = this.findElementEnd(this.element);
+      if (end === -1) {
+        if (this.buffer.length > MAX_ELEMENT_LENGTH) {
+          throw new Error(`XMLTV <${this.element}> element longer than ${MAX_ELEMENT_LENGTH} characters`);
+        }
+        if (final) {
+          throw new Error(`XMLTV guide ends inside a <${this.element}> element`);
+        }
+        return;
+      }
+      const xml = this.buffer.substring(0, end);
+      this.buffer = this.buffer.substring(end);
+      if (this.channelIds.has(getElementChannelId(this.element, xml)?.toLowerCase() ?? "")) {
+        this.push(this.pendingWhitespace + xml);
+      }
+      this.pendingWhitespace = "";
+      this.element = null;
+    }
+  }
+
+  // False while the declaration may still be incomplete
+  private rewriteDeclaration(final: boolean): boolean {
+    if (this.declarationRewritten) {
+      return true;
+    }
+    if (!final && !this.buffer.includes("?>") && this.buffer.length < XML_DECLARATION_SNIFF_LENGTH) {
+      return false;
+    }
+    this.buffer = this.buffer.replace(XML_DECLARATION_PATTERN, (declaration) => declaration.replace(XML_ENCODING_PATTERN, "$1$2UTF-8$2"));
+    this.declarationRewritten = true;
+    return true;
+  }
+
+  // Index just past the element at the start of the buffer, or -1 if it is not complete yet
+  private findElementEnd(element: GuideElement): number {
+    const startTagEnd = this.buffer.indexOf(">");
+    if (startTagEnd === -1) {
+      return -1;
+    }
+    if (this.buffer[startTagEnd - 1] === "/") {
+      return startTagEnd + 1;
+    }
+    const closingTag = `</${element}>`;
+    const closingIndex = this.buffer.indexOf(closingTag, startTagEnd);
+    return closingIndex === -1 ? -1 : closingIndex + closingTag.length;
+  }
+
+  private writeText(text: string, flushWhitespace = false): void {
+    const content = this.pendingWhitespace + text;
+    const trailingWhitespace = flushWhitespace ? "" : /\s*$/.exec(content)?.[0] ?? "";
+    if (content.length > trailingWhitespace.length) {
+      this.push(content.substring(0, content.length - trailingWhitespace.length));
+    }
+    this.pendingWhitespace = trailingWhitespace;
+  }
+}
+
+// The encoding of the XML declaration at the start of a guide, if it is one TextDecoder knows
+export const getXmlDeclarationCharset = (head: Buffer): string | undefined => {
+  // Read as Latin-1, as the declaration is ASCII in every charset it can name
+  const declaration = XML_DECLARATION_PATTERN.exec(head.toString("latin1"))?.[0];
+  const encoding = declaration ? XML_ENCODING_PATTERN.exec(declaration)?.[3] : undefined;
+  return encoding && isSupportedCharset(encoding) ? encoding : undefined;
+};
+
+// <channel id="..."> or <programme channel="...">
+const getElementChannelId = (element: GuideElement, xml: string): string | null => {
+  const attribute = element === "channel" ? "id" : "channel";
+  const startTag = xml.substring(0, xml.indexOf(">") + 1);
+  const match = new RegExp(`\\s${attribute}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(startTag);
+  return match ? decodeXmlEntities(match[1] ?? match[2]) : null;
+};
+
+const decodeXmlEntities = (value: string): string => {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#x") || name.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(name.substring(2), 16));
+    } else if (name.startsWith("#")) {
+      return String.fromCodePoint(parseInt(name.substring(1), 10));
+    }
+    return XML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+};
+
+export const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+};
+
+// The guide URL announced in the #EXTM3U header; several URLs may be given, separated by commas
+export const getPlaylistEpgUrl = (headerAttributes: Record<string, string>): string | null => {
+  for (const attribute of EPG_URL_ATTRIBUTES) {
+    const url = headerAttributes[attribute]?.split(",")[0].trim();
+    if (url) {
+      return url;
+    }
+  }
+  return null;
+};
+
+// Channel ids to keep in the guide; "NULL" is what many providers put for "no id"
+export const getEpgChannelIds = (entries: M3uEntry[]): Set<string> => {
+  const ids = new Set<string>();
+  for (const entry of entries) {
+    const id = entry.attributes["tvg-id"]?.trim();
+    if (id && id.toUpperCase() !== "NULL") {
+      ids.add(id);
+    }
+  }
+  return ids;
+};
+
+export const setPlaylistEpgUrl = (headerAttributes: Record<string, string>, url: string): Record<string, string> => {
+  const attributes: Record<string, string> = { ...headerAttributes, "x-tvg-url": url };
+  if (attributes["url-tvg"] !== undefined) {
+    attributes["url-tvg"] = url;
+  }
+  return attributes;
+};
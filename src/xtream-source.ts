@@ -0,0 +1,145 @@
+import { download, DownloadResponse } from "./downloader";
+import { XtreamSourceConfig } from "./config";
+import { M3uEntry, serializeM3u } from "./m3uparser";
+import { fetchPlaylist, PlaylistResponse } from "./playlist-cache";
+import { createGroupMatcher } from "./rules";
+import { mapWithConcurrency } from "./concurrency";
+
+type XtreamKind = "live" | "vod";
+
+interface XtreamApiCategory {
+  category_id: string | number;
+  category_name: string;
+}
+
+interface XtreamApiStream {
+  stream_id: string | number;
+  name: string | null;
+  stream_icon?: string;
+  epg_channel_id?: string | null;
+  category_id?: string | number;
+  container_extension?: string;
+}
+
+// Panels throttle clients that open many connections at once
+const MAX_PARALLEL_REQUESTS = 4;
+
+/**
+ * Fetches an Xtream panel source as a playlist, through the playlist cache. Categories that the
+ * source's group filters would drop are never downloaded, which is what makes this cheaper
+ * than the panel's full M3U export.
+ */
+export const fetchXtreamSource = (source: XtreamSourceConfig, ttlSeconds?: number): Promise<PlaylistResponse> => {
+  return fetchPlaylist({ url: getCacheKey(source), ttlSeconds, load: () => loadXtreamPlaylist(source) });
+};
+
+// The server without credentials, for logs and response headers
+export const getXtreamSourceLabel = (source: XtreamSourceConfig): string => getServerUrl(source);
+
+// Everything that changes the fetched playlist is part of the key
+const getCacheKey = (source: XtreamSourceConfig): string => {
+  const selection = {
+    groupsToInclude: source.groupsToInclude,
+    groupsToExclude: source.groupsToExclude,
+    allGroups: (source.channelsToInclude?.length ?? 0) > 0,
+    includeVod: source.includeVod,
+    output: source.output,
+    request: source.request,
+  };
+  return `${getApiUrl(source, {})}#${JSON.stringify(selection)}`;
+};
+
+const loadXtreamPlaylist = async (source: XtreamSourceConfig): Promise<DownloadResponse> => {
+  const kinds: XtreamKind[] = source.includeVod ? ["live", "vod"] : ["live"];
+  let entries: M3uEntry[] = [];
+  for (const kind of kinds) {
+    entries = entries.concat(await fetchEntries(source, kind));
+  }
+  const serverUrl = getServerUrl(source);
+  const epgUrl = `${serverUrl}/xmltv.php?${new URLSearchParams({ username: source.username, password: source.password })}`;
+  return {
+    data: serializeM3u({ headerAttributes: { "x-tvg-url": epgUrl }, entries }),
+    headers: { "content-type": "application/x-mpegurl" },
+  };
+};
+
+const fetchEntries = async (source: XtreamSourceConfig, kind: XtreamKind): Promise<M3uEntry[]> => {
+  const categories = await callApi<XtreamApiCategory>(source, { action: `get_${kind}_categories` });
+  const categoryNames = new Map(categories.map((category) => [String(category.category_id), category.category_name]));
+  const wanted = selectCategories(categories, source);
+
+  let streams: XtreamApiStream[];
+  if (wanted.length === categories.length) {
+    streams = await callApi<XtreamApiStream>(source, { action: `get_${kind}_streams` });
+  } else {
+    const perCategory = await mapWithConcurrency(wanted, MAX_PARALLEL_REQUESTS, (category) =>
+      callApi<XtreamApiStream>(source, { action: `get_${kind}_streams`, category_id: String(category.category_id) })
+    );
+    streams = perCategory.flat();
+  }
+  return streams.map((stream) => toEntry(source, kind, stream, categoryNames.get(String(stream.category_id))));
+};
+
+// A category can be skipped only when the source's filters would drop all of its entries
+const selectCategories = (categories: XtreamApiCategory[], source: XtreamSourceConfig): XtreamApiCategory[] => {
+  if ((source.channelsToInclude?.length ?? 0) > 0) {
+    return categories;
+  }
+  const isIncluded = createGroupMatcher(source.groupsToInclude);
+  const isExcluded = createGroupMatcher(source.groupsToExclude);
+  const hasGroupsToInclude = (source.groupsToInclude?.length ?? 0) > 0;
+  const hasGroupsToExclude = (source.groupsToExclude?.length ?? 0) > 0;
+  return categories.filter((category) => {
+    if (hasGroupsToExclude && isExcluded(category.category_name)) {
+      return false;
+    }
+    return !hasGroupsToInclude || isIncluded(category.category_name);
+  });
+};
+
+const toEntry = (source: XtreamSourceConfig, kind: XtreamKind, stream: XtreamApiStream, group?: string): M3uEntry => {
+  const attributes: Record<string, string> = {};
+  const tvgId = stream.epg_channel_id?.trim();
+  if (tvgId) {
+    attributes["tvg-id"] = tvgId;
+  }
+  // Panels send null for streams that were added without a name
+  const name = stream.name ?? "";
+  attributes["tvg-name"] = name;
+  if (stream.stream_icon) {
+    attributes["tvg-logo"] = stream.stream_icon;
+  }
+  if (group) {
+    attributes["group-title"] = group;
+  }
+  const credentials = `${encodeURIComponent(source.username)}/${encodeURIComponent(source.password)}`;
+  const url = kind === "live"
+    ? `${getServerUrl(source)}/live/${credentials}/${stream.stream_id}.${source.output ?? "ts"}`
+    : `${getServerUrl(source)}/movie/${credentials}/${stream.stream_id}.${stream.container_extension || "mp4"}`;
+  return { duration: -1, attributes, title: name, directives: [], url };
+};
+
+const callApi = async <T>(source: XtreamSourceConfig, params: Record<string, string>): Promise<T[]> => {
+  const response = await download({ url: getApiUrl(source, params), request: source.request });
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(response.data);
+  } catch {
+    throw new Error(`Xtream panel ${getServerUrl(source)} returned invalid JSON for ${params.action}`);
+  }
+  // Panels answer a rejected login with an object instead of a list
+  if ((parsed as { user_info?: { auth?: number } })?.user_info?.auth === 0) {
+    throw new Error(`Xtream panel ${getServerUrl(source)} rejected the login of ${source.username}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Xtream panel ${getServerUrl(source)} returned an unexpected response for ${params.action}`);
+  }
+  return parsed as T[];
+};
+
+const getServerUrl = (source: XtreamSourceConfig): string => source.server.replace(/\/+$/, "");
+
+const getApiUrl = (source: XtreamSourceConfig, params: Record<string, string>): string => {
+  const query = new URLSearchParams({ username: source.username, password: source.password, ...params });
+  return `${getServerUrl(source)}/player_api.php?${query}`;
+};
@@ -0,0 +1,196 @@
+import { createHash } from "crypto";
+import { matchesTokenHash, safeEqual, TOKEN_HASH_PATTERN } from "./auth";
+import type { ConfigFile } from "./config";
+import { getEntryGroup, getEntryName, M3uEntry } from "./m3uparser";
+
+export interface XtreamCredentials {
+  username: string;
+  password: string;
+}
+
+export type XtreamStreamType = "live" | "movie";
+
+export interface XtreamStream {
+  id: number;
+  categoryId: string;
+  type: XtreamStreamType;
+  entry: M3uEntry;
+}
+
+export interface XtreamCategory {
+  id: string;
+  name: string;
+}
+
+export interface XtreamCatalog {
+  categories: XtreamCategory[];
+  streams: XtreamStream[];
+}
+
+// Ids are kept below 2^31, as many clients store them in 32-bit integers
+const MAX_ID = 0x7fffffff;
+const VOD_EXTENSIONS = ["mp4", "mkv", "avi", "mov", "m4v", "wmv", "webm", "mpg", "mpeg", "flv"];
+const DEFAULT_VOD_EXTENSION = "mp4";
+
+/**
+ * Finds the profile whose "xtream" credentials match. Passwords are compared in constant time,
+ * against their hash when the config holds one ("sha256:<hex>", as for access tokens).
+ * @returns The profile key, or null if no profile matches
+ */
+export const findXtreamProfile = (config: ConfigFile, credentials: XtreamCredentials): string | null => {
+  const profile = config.profiles.find(({ value }) => value.xtream?.username === credentials.username);
+  if (!profile || !matchesXtreamPassword(profile.value.xtream.password, credentials.password)) {
+    return null;
+  }
+  return profile.key;
+};
+
+const matchesXtreamPassword = (configured: string, password: string): boolean => {
+  if (TOKEN_HASH_PATTERN.test(configured)) {
+    return matchesTokenHash(password, [configured]);
+  }
+  return safeEqual(configured, password);
+};
+
+// Upstream Xtream servers put VOD under /movie/; elsewhere the file extension tells
+export const getXtreamStreamType = (entry: M3uEntry): XtreamStreamType => {
+  const pathname = getUrlPath(entry.url);
+  if (/\/(movie|series)\//i.test(pathname)) {
+    return "movie";
+  }
+  return VOD_EXTENSIONS.includes(getUrlExtension(pathname) ?? "") ? "movie" : "live";
+};
+
+export const getContainerExtension = (entry: M3uEntry): string => {
+  return getUrlExtension(getUrlPath(entry.url)) ?? DEFAULT_VOD_EXTENSION;
+};
+
+const getUrlPath = (url: string): string => {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+};
+
+const getUrlExtension = (pathname: string): string | null => {
+  return /\.([a-z0-9]+)$/i.exec(pathname)?.[1].toLowerCase() ?? null;
+};
+
+/**
+ * Maps a playlist to Xtream categories (one per group-title) and streams. Ids are derived from
+ * the group name and the stream URL, so they stay the same across refreshes and clients keep
+ * their favourites; the rare hash collisions are resolved in playlist order.
+ */
+export const buildXtreamCatalog = (entries: M3uEntry[]): XtreamCatalog => {
+  const categoryIds = new Map<string, string>();
+  const usedCategoryIds = new Set<number>();
+  const usedStreamIds = new Set<number>();
+  const categories: XtreamCategory[] = [];
+
+  const streams = entries.map((entry): XtreamStream => {
+    const group = getEntryGroup(entry);
+    let categoryId = categoryIds.get(group);
+    if (categoryId === undefined) {
+      categoryId = String(allocateId(group, usedCategoryIds));
+      categoryIds.set(group, categoryId);
+      categories.push({ id: categoryId, name: group });
+    }
+    return {
+      id: allocateId(entry.url, usedStreamIds),
+      categoryId,
+      type: getXtreamStreamType(entry),
+      entry,
+    };
+  });
+
+  return { categories, streams };
+};
+
+const allocateId = (value: string, used: Set<number>): number => {
+  let id = (parseInt(createHash("sha1").update(value).digest("hex").substring(0, 8), 16) % MAX_ID) + 1;
+  while (used.has(id)) {
+    id = (id % MAX_ID) + 1;
+  }
+  used.add(id);
+  return id;
+};
+
+// Categories that have at least one stream of the given type
+export const getXtreamCategories = (catalog: XtreamCatalog, type: XtreamStreamType) => {
+  const categoryIds = new Set(catalog.streams.filter((stream) => stream.type === type).map((stream) => stream.categoryId));
+  return catalog.categories
+    .filter((category) => categoryIds.has(category.id))
+    .map((category) => ({ category_id: category.id, category_name: category.name, parent_id: 0 }));
+};
+
+export const getXtreamStreams = (catalog: XtreamCatalog, type: XtreamStreamType, categoryId?: string) => {
+  return catalog.streams
+    .filter((stream) => stream.type === type && (categoryId === undefined || stream.categoryId === categoryId))
+    .map((stream, index) => (type === "live" ? toLiveStream(stream, index + 1) : toVodStream(stream, index + 1)));
+};
+
+const toLiveStream = (stream: XtreamStream, num: number) => {
+  const tvgId = stream.entry.attributes["tvg-id"]?.trim();
+  return {
+    num: Number(stream.entry.attributes["tvg-chno"]) || num,
+    name: getEntryName(stream.entry) ?? "",
+    stream_type: "live",
+    stream_id: stream.id,
+    stream_icon: stream.entry.attributes["tvg-logo"] ?? "",
+    epg_channel_id: tvgId && tvgId.toUpperCase() !== "NULL" ? tvgId : null,
+    added: "0",
+    category_id: stream.categoryId,
+    custom_sid: "",
+    tv_archive: 0,
+    direct_source: "",
+    tv_archive_duration: 0,
+  };
+};
+
+const toVodStream = (stream: XtreamStream, num: number) => {
+  return {
+    num,
+    name: getEntryName(stream.entry) ?? "",
+    stream_type: "movie",
+    stream_id: stream.id,
+    stream_icon: stream.entry.attributes["tvg-logo"] ?? "",
+    rating: "",
+    added: "0",
+    category_id: stream.categoryId,
+    container_extension: getContainerExtension(stream.entry),
+    custom_sid: "",
+    direct_source: "",
+  };
+};
+
+// Response of player_api.php without an action, which clients use to log in
+export const getXtreamAccountInfo = (credentials: XtreamCredentials, baseUrl: string, now = new Date()) => {
+  const url = new URL(baseUrl);
+  const port = url.port || (url.protocol === "https:" ? "443" : "80");
+  return {
+    user_info: {
+      username: credentials.username,
+      password: credentials.password,
+      message: "",
+      auth: 1,
+      status: "Active",
+      exp_date: null as string | null,
+      is_trial: "0",
+      active_cons: "0",
+      created_at: null as string | null,
+      max_connections: "1",
+      allowed_output_formats: ["m3u8", "ts"],
+    },
+    server_info: {
+      url: url.hostname,
+      port: url.protocol === "https:" ? "80" : port,
+      https_port: url.protocol === "https:" ? port : "443",
+      server_protocol: url.protocol.replace(":", ""),
+      rtmp_port: "0",
+      timezone: "UTC",
+      timestamp_now: Math.floor(now.getTime() / 1000),
+      time_now: now.toISOString().substring(0, 19).replace("T", " "),
+    },
+  };
+};
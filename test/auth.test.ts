@@ -0,0 +1,38 @@
+import { getCsrfToken, hashToken, matchesTokenHash, parseBasicAuth, safeEqual, TOKEN_HASH_PATTERN } from "../src/auth";
+
+describe("auth", () => {
+  it("should compare secrets of any length", () => {
+    expect(safeEqual("secret", "secret")).toBe(true);
+    expect(safeEqual("secret", "secre")).toBe(false);
+    expect(safeEqual("secret", "Secret")).toBe(false);
+  });
+
+  it("should parse Basic credentials, keeping colons in the password", () => {
+    const header = `Basic ${Buffer.from("admin:pa:ss").toString("base64")}`;
+
+    expect(parseBasicAuth(header)).toEqual({ username: "admin", password: "pa:ss" });
+    expect(parseBasicAuth("Bearer abc")).toBeNull();
+    expect(parseBasicAuth(`Basic ${Buffer.from("nocolon").toString("base64")}`)).toBeNull();
+    expect(parseBasicAuth(undefined)).toBeNull();
+  });
+
+  it("should derive the form token from the secret", () => {
+    expect(getCsrfToken("secret")).toMatch(/^[0-9a-f]{64}$/);
+    expect(getCsrfToken("secret")).toBe(getCsrfToken("secret"));
+    expect(getCsrfToken("other")).not.toBe(getCsrfToken("secret"));
+  });
+
+  it("should hash tokens in the format the config expects", () => {
+    expect(hashToken("abc")).toBe("sha256:ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    expect(TOKEN_HASH_PATTERN.test(hashToken("abc"))).toBe(true);
+  });
+
+  it("should match a token against any of the hashes, whatever the hex case", () => {
+    const hashes = [hashToken("one"), hashToken("two").toUpperCase().replace("SHA256:", "sha256:")];
+
+    expect(matchesTokenHash("one", hashes)).toBe(true);
+    expect(matchesTokenHash("two", hashes)).toBe(true);
+    expect(matchesTokenHash("three", hashes)).toBe(false);
+    expect(matchesTokenHash("one", [])).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { decodeText, DecodeTextStream, getResponseCharset, isSupportedCharset } from "../src/charset";
+import { Readable } from "stream";
+
+describe("charset", () => {
+  describe("when picking the charset of a response", () => {
+    it("should prefer the override, then the Content-Type, then UTF-8", () => {
+      expect(getResponseCharset("text/plain; charset=ISO-8859-1", "windows-1251")).toBe("windows-1251");
+      expect(getResponseCharset('audio/x-mpegurl; charset="windows-1251"')).toBe("windows-1251");
+      expect(getResponseCharset("audio/x-mpegurl")).toBe("utf-8");
+      expect(getResponseCharset(undefined)).toBe("utf-8");
+    });
+
+    it("should fall back to UTF-8 for unknown charsets", () => {
+      expect(getResponseCharset("text/plain; charset=klingon")).toBe("utf-8");
+      expect(isSupportedCharset("klingon")).toBe(false);
+      expect(isSupportedCharset("latin1")).toBe(true);
+    });
+  });
+
+  describe("when decoding a whole body", () => {
+    it("should decode legacy charsets", () => {
+      expect(decodeText(Buffer.from([0x54, 0xe9, 0x6c, 0xe9]), "latin1")).toBe("Télé");
+      expect(decodeText(Buffer.from([0xcf, 0xe5, 0xf0, 0xe2, 0xfb, 0xe9]), "windows-1251")).toBe("Первый");
+    });
+
+    it("should strip the byte order mark, which outweighs the announced charset", () => {
+      expect(decodeText(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from("Télé")]), "latin1")).toBe("Télé");
+      expect(decodeText(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from("#EXTM3U", "utf16le")]), "utf-8")).toBe("#EXTM3U");
+    });
+
+    it("should normalize line endings", () => {
+      expect(decodeText(Buffer.from("#EXTM3U\r\n#EXTINF:-1,A\r\nhttp://a.com/1\rhttp://a.com/2\n"), "utf-8"))
+        .toBe("#EXTM3U\n#EXTINF:-1,A\nhttp://a.com/1\nhttp://a.com/2\n");
+    });
+  });
+
+  describe("when decoding a stream", () => {
+    const decodeChunks = async (chunks: Buffer[], charset: string, options?: ConstructorParameters<typeof DecodeTextStream>[1]): Promise<string> => {
+      const output: Buffer[] = [];
+      for await (const chunk of Readable.from(chunks).pipe(new DecodeTextStream(charset, options))) {
+        output.push(chunk);
+      }
+      return Buffer.concat(output).toString("utf-8");
+    };
+
+    it("should carry characters and line endings split across chunks", async () => {
+      const text = Buffer.from("\uFEFF#EXTM3U\r\n#EXTINF:-1,Télé\r\n");
+      const chunks = [text.subarray(0, 1), text.subarray(1, 11), text.subarray(11, 28), text.subarray(28)];
+
+      expect(await decodeChunks(chunks, "utf-8")).toBe("#EXTM3U\n#EXTINF:-1,Télé\n");
+    });
+
+    it("should re-encode legacy charsets to UTF-8", async () => {
+      expect(await decodeChunks([Buffer.from([0xcf, 0xe5, 0xf0]), Buffer.from([0xe2, 0xfb, 0xe9, 0x0d])], "windows-1251")).toBe("Первый\n");
+    });
+
+    it("should let a sniffed charset win over the given one", async () => {
+      const sniff = { sniffCharset: (head: Buffer) => (head.toString("latin1").startsWith("1251:") ? "windows-1251" : undefined), sniffLength: 5 };
+      const body = Buffer.concat([Buffer.from("1251:"), Buffer.from([0xcf, 0xe5, 0xf0, 0xe2, 0xfb, 0xe9])]);
+
+      expect(await decodeChunks([body], "latin1", sniff)).toBe("1251:Первый");
+      expect(await decodeChunks([body.subarray(0, 2), body.subarray(2)], "latin1", sniff)).toBe("1251:Первый");
+    });
+
+    it("should pass short bodies through", async () => {
+      expect(await decodeChunks([Buffer.from("A")], "utf-8")).toBe("A");
+      expect(await decodeChunks([], "utf-8")).toBe("");
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  applyProfileEdit,
+  checkRawConfig,
+  ConfigConflictError,
+  getProfileFilters,
+  readRawConfig,
+  writeRawConfig,
+} from "../src/config-editor";
+import { RawConfigFile } from "../src/config";
+import { ConfigValidationError } from "../src/config-validation";
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+
+describe("config editor", () => {
+  let configDir: string;
+  let configFile: string;
+  const raw: RawConfigFile = {
+    lists: { adult: ["XXX", "Adult"] },
+    profiles: [
+      { key: "base", value: { abstract: true, groupsToExclude: ["Adult*"], channelsToExclude: ["@adult"] } },
+      { key: "tv", value: { extends: "base", url: "http://m3uprovider.com/get.php", groupsToInclude: ["Sports"] } },
+    ],
+  };
+
+  beforeEach(() => {
+    configDir = mkdtempSync(path.join(tmpdir(), "m3ufilter-"));
+    configFile = path.join(configDir, "config.json");
+  });
+
+  afterEach(() => {
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  describe("when reading the filters of a profile", () => {
+    it("should show them as written, falling back to the base profile", () => {
+      expect(getProfileFilters(raw, "tv")).toEqual({
+        groupsToInclude: ["Sports"],
+        groupsToExclude: ["Adult*"],
+        channelsToExclude: ["@adult"],
+      });
+    });
+  });
+
+  describe("when editing a profile", () => {
+    it("should write changed filters to the profile and leave the rest of the config alone", () => {
+      const edited = applyProfileEdit(raw, "tv", {
+        groupsToInclude: ["Sports", "News"],
+        groupsToExclude: ["Adult*"],
+        channelsToExclude: ["@adult", { field: "tvg-id", pattern: "NULL", match: "exact" }],
+      });
+
+      expect(edited.profiles[1].value).toEqual({
+        extends: "base",
+        url: "http://m3uprovider.com/get.php",
+        groupsToInclude: ["Sports", "News"],
+        channelsToExclude: ["@adult", { field: "tvg-id", pattern: "NULL", match: "exact" }],
+      });
+      expect(edited.profiles[0]).toBe(raw.profiles[0]);
+      expect(raw.profiles[1].value.groupsToInclude).toEqual(["Sports"]);
+    });
+
+    it("should drop filters that are equal to the inherited ones or empty", () => {
+      const withOwnList = applyProfileEdit(raw, "tv", { groupsToInclude: ["Sports"], groupsToExclude: ["Adult*"], channelsToExclude: ["@adult"] });
+      const edited = applyProfileEdit(withOwnList, "tv", { groupsToInclude: [], groupsToExclude: ["Adult*"], channelsToExclude: ["@adult"] });
+
+      expect(edited.profiles[1].value).toEqual({ extends: "base", url: "http://m3uprovider.com/get.php" });
+    });
+
+    it("should resolve the edited config as loading it would", () => {
+      const edited = applyProfileEdit(raw, "tv", { groupsToInclude: [], groupsToExclude: [], channelsToExclude: ["@missing"] });
+
+      expect(checkRawConfig(raw).profiles[0].value.channelsToExclude).toEqual(["XXX", "Adult"]);
+      expect(() => checkRawConfig(edited)).toThrow(ConfigValidationError);
+    });
+  });
+
+  describe("when saving", () => {
+    it("should replace the file and keep its mode", async () => {
+      writeFileSync(configFile, JSON.stringify(raw), { mode: 0o600 });
+      const snapshot = await readRawConfig(configFile);
+
+      const version = await writeRawConfig(configFile, applyProfileEdit(snapshot.raw, "tv", {
+        groupsToInclude: ["News"],
+        groupsToExclude: ["Adult*"],
+        channelsToExclude: ["@adult"],
+      }), snapshot.version);
+
+      expect(JSON.parse(readFileSync(configFile, "utf-8")).profiles[1].value.groupsToInclude).toEqual(["News"]);
+      expect(statSync(configFile).mode & 0o777).toBe(0o600);
+      expect((await readRawConfig(configFile)).version).toBe(version);
+    });
+
+    it("should refuse to overwrite changes made since the file was read", async () => {
+      writeFileSync(configFile, JSON.stringify(raw));
+      const snapshot = await readRawConfig(configFile);
+      writeFileSync(configFile, JSON.stringify({ profiles: [] }));
+
+      await expect(writeRawConfig(configFile, snapshot.raw, snapshot.version)).rejects.toThrow(ConfigConflictError);
+      expect(JSON.parse(readFileSync(configFile, "utf-8"))).toEqual({ profiles: [] });
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { getConfig, initConfigStore, reloadConfig, resolveConfigFilePath, stopConfigStore } from "../src/config-store";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+
+describe("config store", () => {
+  let configDir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    configDir = mkdtempSync(path.join(tmpdir(), "m3ufilter-"));
+    configFile = path.join(configDir, "config.json");
+  });
+
+  afterEach(() => {
+    stopConfigStore();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  describe("when resolving the config file path", () => {
+    it("should prefer the --config flag", async () => {
+      expect(resolveConfigFilePath(["node", "app", "--config", "/a/config.json"], { M3UFILTER_CONFIG: "/b/config.json" }))
+        .toBe("/a/config.json");
+      expect(resolveConfigFilePath(["node", "app", "--config=/a/config.json"], {})).toBe("/a/config.json");
+    });
+
+    it("should fall back to the M3UFILTER_CONFIG environment variable", async () => {
+      expect(resolveConfigFilePath(["node", "app"], { M3UFILTER_CONFIG: "/b/config.json" })).toBe("/b/config.json");
+    });
+
+    it("should fall back to the default location", async () => {
+      expect(resolveConfigFilePath(["node", "app"], {})).toMatch(/m3ufilter[\\/]config\.json$/);
+    });
+  });
+
+  describe("when loading", () => {
+    it("should serve the config loaded at startup", async () => {
+      writeConfig({ profiles: [{ key: "tv", value: { url: "http://url1" } }] });
+      await initConfigStore({ configFile, watch: false });
+      expect(getConfig().profiles.map((profile) => profile.key)).toEqual(["tv"]);
+    });
+
+    it("should fail at startup on an invalid config", async () => {
+      writeFileSync(configFile, "{ not json");
+      await expect(initConfigStore({ configFile, watch: false })).rejects.toThrow("is not valid JSON");
+    });
+
+    it("should swap in a valid config on reload", async () => {
+      writeConfig({ profiles: [{ key: "tv", value: { url: "http://url1" } }] });
+      await initConfigStore({ configFile, watch: false });
+      writeConfig({ profiles: [{ key: "radio", value: { url: "http://url2" } }] });
+      expect(await reloadConfig()).toBe(true);
+      expect(getConfig().profiles.map((profile) => profile.key)).toEqual(["radio"]);
+    });
+
+    it("should keep the last good config when a reload fails validation", async () => {
+      writeConfig({ profiles: [{ key: "tv", value: { url: "http://url1" } }] });
+      await initConfigStore({ configFile, watch: false });
+      writeConfig({ profiles: [{ key: "tv", value: { url: "http://url1" } }, { key: "tv", value: { url: "http://url2" } }] });
+      expect(await reloadConfig()).toBe(false);
+      expect(getConfig().profiles).toEqual([{ key: "tv", value: { url: "http://url1" } }]);
+    });
+
+    it("should reload when the file changes", async () => {
+      writeConfig({ profiles: [{ key: "tv", value: { url: "http://url1" } }] });
+      await initConfigStore({ configFile });
+      writeConfig({ profiles: [{ key: "radio", value: { url: "http://url2" } }] });
+      await waitFor(() => getConfig().profiles[0]?.key === "radio");
+      expect(getConfig().profiles[0].key).toBe("radio");
+    });
+  });
+
+  const writeConfig = (config: unknown) => {
+    writeFileSync(configFile, JSON.stringify(config));
+  };
+});
+
+const waitFor = async (condition: () => boolean, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+};
@@ -1,4 +1,5 @@
-import { ConfigFile, loadConfig } from "../src/config";
+import { ConfigFile, loadConfig, resolveConfig } from "../src/config";
+import { ConfigValidationError, validateConfigFile } from "../src/config-validation";
 import * as path from "path";
 
 describe("config", () => {
@@ -6,7 +7,7 @@ describe("config", () => {
     describe("when it contains a profile with no filters", () => {
       it("should load correctly", async () => {
         const testConfigFilePath = getTestConfigFilePath("configfile-profile-with-no-filters.json");
-        const actualParsedConfig: ConfigFile = loadConfig({
+        const actualParsedConfig: ConfigFile = await loadConfig({
           configFile: testConfigFilePath,
         });
         const expectedParsedConfig: ConfigFile = {
@@ -25,7 +26,7 @@ describe("config", () => {
     }),
     it("should load correctly if config file exists in user dir", async () => {
       const testConfigFilePath = getTestConfigFilePath();
-      const actualConfig: ConfigFile = loadConfig({
+      const actualConfig: ConfigFile = await loadConfig({
         configFile: testConfigFilePath,
       });
       const expectedConfig: ConfigFile = {
@@ -59,7 +60,7 @@ describe("config", () => {
     });
 
     it("should return empty config if config file doesn't exist", async () => {
-      const actualConfig: ConfigFile = loadConfig({
+      const actualConfig: ConfigFile = await loadConfig({
         configFile: "/non-existing/config/file.json",
       });
       const expectedConfig: ConfigFile = {
@@ -74,7 +75,7 @@ describe("config", () => {
         "../",
         "config.example.json"
       );
-      const actualConfig: ConfigFile = loadConfig({
+      const actualConfig: ConfigFile = await loadConfig({
         configFile: testConfigFilePath,
       });
       const expectedConfig: ConfigFile = {
@@ -106,6 +107,198 @@ describe("config", () => {
       expect(actualConfig).toStrictEqual(expectedConfig);
     });
   });
+
+  describe("when the config file uses shared lists and profile inheritance", () => {
+    it("should expand list references and merge base profiles", async () => {
+      const testConfigFilePath = getTestConfigFilePath("configfile-with-lists.json");
+      const actualConfig: ConfigFile = await loadConfig({
+        configFile: testConfigFilePath,
+        log: false,
+      });
+      const globalExclude = ["Soccer", "/\\p{Script=Han}/", { field: "tvg-id", pattern: "NULL", match: "exact" }];
+      expect(actualConfig.profiles).toStrictEqual([
+        {
+          key: "pluto-us",
+          value: {
+            url: "http://url1",
+            groupsToInclude: ["Sports", "NHL*"],
+            channelsToExclude: globalExclude,
+          },
+        },
+        {
+          key: "pluto-ca",
+          value: {
+            url: "http://url2",
+            groupsToInclude: ["Sports", "NHL*"],
+            channelsToExclude: [...globalExclude, "Extra", "@home"],
+          },
+        },
+      ]);
+    });
+
+    it("should fail on unknown lists", async () => {
+      expect(() => resolveConfig({
+        profiles: [{ key: "p", value: { url: "http://url1", channelsToExclude: ["@missing"] } }],
+      })).toThrow("unknown list '@missing' referenced in profiles['p'].channelsToExclude");
+    });
+
+    it("should fail on circular inheritance", async () => {
+      expect(() => resolveConfig({
+        profiles: [
+          { key: "a", value: { extends: "b" } },
+          { key: "b", value: { extends: "a" } },
+        ],
+      })).toThrow('circular "extends" between profiles a -> b -> a');
+    });
+
+    it("should expand list references inside sources", async () => {
+      const config = resolveConfig({
+        lists: { adult: ["XXX", "Adult"] },
+        profiles: [{
+          key: "merged",
+          value: {
+            sources: [
+              { url: "http://url1", name: "One", groupPrefix: "1: ", channelsToExclude: ["@adult"] },
+              { url: "http://url2" },
+            ],
+            sourceFailure: "fail-closed",
+          },
+        }],
+      });
+      expect(config.profiles[0].value).toStrictEqual({
+        sources: [
+          { url: "http://url1", name: "One", groupPrefix: "1: ", channelsToExclude: ["XXX", "Adult"] },
+          { url: "http://url2" },
+        ],
+        sourceFailure: "fail-closed",
+      });
+    });
+
+    it("should keep the admin tokens and inherit profile tokens", async () => {
+      const hash = `sha256:${"0".repeat(64)}`;
+
+      expect(resolveConfig({
+        adminTokens: [hash],
+        profiles: [
+          { key: "base", value: { abstract: true, tokens: [hash] } },
+          { key: "child", value: { extends: "base", url: "http://url1" } },
+        ],
+      })).toEqual({ adminTokens: [hash], profiles: [{ key: "child", value: { url: "http://url1", tokens: [hash] } }] });
+    });
+
+    it("should fail on circular list references", async () => {
+      expect(() => resolveConfig({
+        lists: { one: ["@two"], two: ["@one"] },
+        profiles: [{ key: "p", value: { url: "http://url1", groupsToInclude: ["@one"] } }],
+      })).toThrow("circular list reference @one -> @two -> @one");
+    });
+  });
+
+  describe("when the config file is invalid", () => {
+    it("should throw instead of falling back to an empty config", async () => {
+      await expect(loadConfig({
+        configFile: getTestConfigFilePath("m3uregular.m3u"),
+        log: false,
+      })).rejects.toThrow(ConfigValidationError);
+    });
+
+    it.each([
+      [{}, "'profiles' must be an array"],
+      [{ profiles: [], extra: 1 }, "config.extra is not a known field"],
+      [{ profiles: [{ key: "a b", value: { url: "http://url1" } }] }, "profiles[0].key must be a non-empty string"],
+      [
+        { profiles: [{ key: "a", value: { url: "http://url1" } }, { key: "a", value: { url: "http://url2" } }] },
+        "duplicate profile key 'a' at profiles[1]",
+      ],
+      [{ profiles: [{ key: "a", value: { url: "not a url" } }] }, "profiles['a'].url is not a valid URL"],
+      [{ profiles: [{ key: "a", value: { url: "ftp://url1" } }] }, "profiles['a'].url must be an http or https URL"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", epgUrl: "guide.xml" } }] }, "profiles['a'].epgUrl is not a valid URL"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", hdhomerun: { deviceId: "xyz" } } }] }, "profiles['a'].hdhomerun.deviceId must be 8 hexadecimal digits"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", hdhomerun: { tunerCount: 0 } } }] }, "profiles['a'].hdhomerun.tunerCount must be a positive integer"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", groupToInclude: [] } }] }, "profiles['a'].groupToInclude is not a known field"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", groupsToInclude: "Sports" } }] }, "profiles['a'].groupsToInclude must be an array of strings"],
+      [
+        { profiles: [{ key: "a", value: { url: "http://url1", channelsToExclude: ["ok", "/(/"] } }] },
+        "profiles['a'].channelsToExclude[1]: Invalid regex",
+      ],
+      [{ lists: { l: "x" }, profiles: [] }, "lists['l'] must be an array"],
+      [{ profiles: [{ key: "a", value: { sources: [] } }] }, "profiles['a'].sources must be a non-empty array"],
+      [{ profiles: [{ key: "a", value: { sources: [{ name: "A" }] } }] }, "profiles['a'].sources[0].url"],
+      [{ profiles: [{ key: "a", value: { sources: [{ type: "stalker", url: "http://url1" }] } }] }, "profiles['a'].sources[0].type must be one of m3u, xtream"],
+      [
+        { profiles: [{ key: "a", value: { sources: [{ type: "xtream", server: "http://panel", username: "u" }] } }] },
+        "profiles['a'].sources[0].password must be a non-empty string",
+      ],
+      [
+        { profiles: [{ key: "a", value: { sources: [{ type: "xtream", url: "http://panel", server: "http://panel", username: "u", password: "p" }] } }] },
+        "profiles['a'].sources[0].url is not a known field",
+      ],
+      [
+        { profiles: [{ key: "a", value: { sources: [{ url: "http://url1" }], sourceFailure: "ignore" } }] },
+        "profiles['a'].sourceFailure must be one of fail-open, fail-closed",
+      ],
+      [
+        { profiles: [{ key: "a", value: { url: "http://url1", dedupe: { prefer: ["quality", "newest"] } } }] },
+        "profiles['a'].dedupe.prefer: 'newest' is not one of quality, source, first",
+      ],
+      [
+        { profiles: [{ key: "a", value: { url: "http://url1", transforms: [{ rename: { pattern: "(", replacement: "" } }] } }] },
+        "profiles['a'].transforms[0]: invalid rename pattern",
+      ],
+      [
+        { profiles: [{ key: "a", value: { url: "http://url1", transforms: [{ set: { "tvg-id": 1 } }] } }] },
+        "profiles['a'].transforms[0].set['tvg-id'] must be a string",
+      ],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", sort: { groups: "random" } } }] }, "profiles['a'].sort.groups must be one of upstream, config, name"],
+      [
+        { profiles: [{ key: "a", value: { url: "http://url1", numbering: { groupStarts: { Sports: "100" } } } }] },
+        "profiles['a'].numbering.groupStarts['Sports'] must be a non-negative number",
+      ],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", xtream: { username: "a" } } }] }, "profiles['a'].xtream.password must be a non-empty string"],
+      [{ adminTokens: "secret", profiles: [] }, "adminTokens must be an array of token hashes"],
+      [{ urlMode: { enabled: "no" }, profiles: [] }, "urlMode.enabled must be a boolean"],
+      [{ urlMode: { schemes: ["http", "file"] }, profiles: [] }, "urlMode.schemes[1] must be one of http, https"],
+      [{ urlMode: { allowedHosts: [] }, profiles: [] }, "urlMode.allowedHosts is not a known field"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", tokens: ["my-plain-token"] } }] }, "profiles['a'].tokens must be an array of token hashes"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", streamProxy: "hide" } }] }, "profiles['a'].streamProxy must be one of redirect, pipe"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", maxConnections: 0 } }] }, "profiles['a'].maxConnections must be a positive integer"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", onConnectionLimit: "wait" } }] }, "profiles['a'].onConnectionLimit must be one of reject, replaceOldest"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", healthCheck: { concurrency: 0 } } }] }, "profiles['a'].healthCheck.concurrency must be a positive integer"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", healthCheck: { deadChannels: "hide" } } }] }, "profiles['a'].healthCheck.deadChannels must be one of flag, group, drop"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", healthCheck: { retries: 2 } } }] }, "profiles['a'].healthCheck.retries is not a known field"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", request: { retries: 1.5 } } }] }, "profiles['a'].request.retries must be a non-negative integer"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", request: { headers: { Referer: 1 } } } }] }, "profiles['a'].request.headers.Referer must be a string"],
+      [{ profiles: [{ key: "a", value: { url: "http://url1", request: { proxy: "socks5://proxy:1080" } } }] }, "profiles['a'].request.proxy must be an http or https URL"],
+      [{ profiles: [{ key: "a", value: { sources: [{ url: "http://url1", request: { timeout: 5 } }] } }] }, "profiles['a'].sources[0].request.timeout is not a known field"],
+      [{ profiles: [{ key: "a", value: { sources: [{ url: "http://url1", request: { charset: "cp-klingon" } }] } }] }, "profiles['a'].sources[0].request.charset is not a known charset: 'cp-klingon'"],
+    ])("should reject %j naming the bad field", async (raw, message) => {
+      expect(() => validateConfigFile(raw)).toThrow(message);
+    });
+
+    it("should require a url or sources on profiles that are not abstract", async () => {
+      expect(() => resolveConfig({ profiles: [{ key: "a", value: { groupsToInclude: [] } }] }))
+        .toThrow(`profiles['a'] needs exactly one of "url" or "sources"`);
+      expect(() => resolveConfig({
+        profiles: [{ key: "a", value: { url: "http://url1", sources: [{ url: "http://url2" }] } }],
+      })).toThrow(`profiles['a'] needs exactly one of "url" or "sources"`);
+    });
+
+    it("should only take maxConnections on profiles that relay their streams", async () => {
+      expect(() => resolveConfig({ profiles: [{ key: "a", value: { url: "http://url1", streamProxy: "redirect", maxConnections: 2 } }] }))
+        .toThrow(`profiles['a'].maxConnections needs "streamProxy": "pipe"`);
+      expect(resolveConfig({ profiles: [{ key: "a", value: { url: "http://url1", streamProxy: "pipe", maxConnections: 2 } }] }).profiles[0].value.maxConnections)
+        .toBe(2);
+    });
+
+    it("should reject xtream usernames shared by several profiles", async () => {
+      expect(() => resolveConfig({
+        profiles: [
+          { key: "base", value: { url: "http://url1", xtream: { username: "fan", password: "1" } } },
+          { key: "child", value: { extends: "base" } },
+        ],
+      })).toThrow("profiles 'base' and 'child' use the same xtream username 'fan'");
+    });
+  });
 });
 
 const getTestConfigFilePath = (filename?: string): string => {
@@ -0,0 +1,107 @@
+import { dedupeEntries, getQualityRank, normalizeChannelName } from "../src/dedupe";
+import { getEntryName, M3uEntry, parseM3u } from "../src/m3uparser";
+import { readFileSync } from "fs";
+import * as path from "path";
+
+describe("dedupe", () => {
+  describe("when normalizing channel names", () => {
+    it.each([
+      ["ESPN US", "espn"],
+      ["US: ESPN FHD", "espn"],
+      ["ESPN (HD)", "espn"],
+      ["UK | Sky Sports F1 [1080p]", "sky sports f1"],
+      ["CA - CBC Calgary", "cbc calgary"],
+      ["ESPNews US", "espnews"],
+      ["MTV2", "mtv2"],
+      ["HD", "hd"],
+    ])("should turn %j into %j", (name, expected) => {
+      expect(normalizeChannelName(name)).toBe(expected);
+    });
+  });
+
+  describe("when ranking quality", () => {
+    it("should rank by the tag found in the name, untagged just above SD", () => {
+      const ranks = ["ESPN 4K", "ESPN FHD", "ESPN HD", "ESPN", "ESPN SD"].map((name) => getQualityRank(entry(name)));
+      expect(ranks).toEqual([...ranks].sort((a, b) => b - a));
+      expect(new Set(ranks).size).toBe(5);
+    });
+  });
+
+  describe("when deduplicating a playlist", () => {
+    it("should not merge distinct channels of a playlist with NULL tvg-ids", () => {
+      const { entries } = parseM3u(loadResource("m3uregular.m3u"));
+      expect(dedupeEntries(entries)).toEqual(entries);
+    });
+
+    it("should keep the best quality at the position of the first duplicate", () => {
+      const { entries } = parseM3u(loadResource("m3uregular.m3u"));
+      const withDuplicates = [
+        ...entries,
+        entry("US: ESPN FHD", { url: "http://other.com/espn" }),
+        entry("CBC Calgary HD", { url: "http://other.com/cbc" }),
+      ];
+
+      const deduped = dedupeEntries(withDuplicates.map((e) => ({ ...e, attributes: { ...e.attributes, "tvg-id": "NULL" } })));
+
+      expect(deduped).toHaveLength(entries.length);
+      expect(getEntryName(deduped[0])).toBe("US: ESPN FHD");
+      expect(deduped.map(getEntryName)).toContain("CBC Calgary HD");
+    });
+
+    it("should key entries without any name by their URL", () => {
+      const { entries } = parseM3u("#EXTM3U\nhttp://a.com/1\n#EXTINF:-1,\nhttp://a.com/2\nhttp://a.com/1\n");
+
+      expect(dedupeEntries(entries).map(({ url }) => url)).toEqual(["http://a.com/1", "http://a.com/2"]);
+    });
+
+    it("should group by tvg-id before looking at names", () => {
+      const deduped = dedupeEntries([
+        entry("ESPN", { tvgId: "espn.us" }),
+        entry("ESPN Deportes", { tvgId: "ESPN.us" }),
+        entry("ESPN", { tvgId: "espn.mx" }),
+      ]);
+      expect(deduped.map((e) => e.attributes["tvg-id"])).toEqual(["espn.us", "espn.mx"]);
+    });
+
+    it("should follow the configured preference order", () => {
+      const duplicates = [
+        entry("ESPN", { source: "B", url: "http://b.com/1" }),
+        entry("ESPN HD", { source: "C", url: "http://c.com/1" }),
+        entry("ESPN SD", { source: "A", url: "http://a.com/1" }),
+      ];
+
+      expect(dedupeEntries(duplicates)[0].url).toBe("http://c.com/1");
+      expect(dedupeEntries(duplicates, { prefer: ["source"], sourcePriority: ["A", "B"] })[0].url).toBe("http://a.com/1");
+      expect(dedupeEntries(duplicates, { prefer: ["first"] })[0].url).toBe("http://b.com/1");
+    });
+
+    it("should keep the dropped URLs as alternates only when asked", () => {
+      const duplicates = [
+        entry("ESPN", { url: "http://a.com/1" }),
+        entry("ESPN HD", { url: "http://b.com/1" }),
+        entry("ESPN US", { url: "http://a.com/1" }),
+      ];
+
+      expect(dedupeEntries(duplicates)[0].alternates).toBeUndefined();
+      expect(dedupeEntries(duplicates, { keepAlternates: true })[0]).toMatchObject({
+        url: "http://b.com/1",
+        alternates: ["http://a.com/1"],
+      });
+    });
+  });
+});
+
+const entry = (name: string, options: { tvgId?: string; source?: string; url?: string } = {}): M3uEntry => ({
+  duration: -1,
+  attributes: { "tvg-name": name, ...(options.tvgId ? { "tvg-id": options.tvgId } : {}) },
+  title: name,
+  directives: [],
+  url: options.url ?? `http://m3uprovider.com/${encodeURIComponent(name)}`,
+  ...(options.source ? { source: options.source } : {}),
+});
+
+const loadResource = (name): string => {
+  const resourcesDir = "resources";
+  const fullFileName = path.resolve(__dirname, resourcesDir, name);
+  return readFileSync(fullFileName, "utf-8");
+};
@@ -0,0 +1,77 @@
+import { selectChannels, summarizeExplanation, summarizeGroups } from "../src/discovery";
+import { M3uEntry, parseM3u } from "../src/m3uparser";
+import { EntryExplanation } from "../src/playlist-builder";
+import { readFileSync } from "fs";
+import * as path from "path";
+
+describe("discovery", () => {
+  let entries: M3uEntry[];
+  beforeEach(() => {
+    entries = parseM3u(loadResource("m3uregular.m3u")).entries;
+  });
+
+  describe("when listing groups", () => {
+    it("should count the channels of each group in playlist order", () => {
+      expect(summarizeGroups(entries)).toEqual([
+        { name: "Sport Package", count: 4 },
+        { name: "NHL - National Hockey League", count: 3 },
+        { name: "Canada", count: 4 },
+        { name: "Entertainment & Reality", count: 7 },
+        { name: "France", count: 2 },
+      ]);
+    });
+  });
+
+  describe("when listing channels", () => {
+    it("should list the channels of the given groups with their attributes", () => {
+      const channels = selectChannels(entries, ["nhl*", "France"]);
+
+      expect(channels.map((channel) => channel.name)).toEqual(["NHL 4", "NHL 3", "FR - France24", "NHL 5", "FR - PressTV"]);
+      expect(channels[0]).toEqual(expect.objectContaining({
+        group: "NHL - National Hockey League",
+        attributes: expect.objectContaining({ "tvg-id": "NULL", "tvg-logo": "http://static.m3uimg.com/logos/240/3918.png" }),
+      }));
+    });
+
+    it("should list every channel when no group is given", () => {
+      expect(selectChannels(entries, [])).toHaveLength(entries.length);
+    });
+  });
+
+  describe("when summarizing a dry run", () => {
+    it("should count the entries decided by each rule, most used first", () => {
+      const explanations: EntryExplanation[] = [
+        { entry: entries[0], kept: true, stage: "profile", reason: "groupsToInclude", rule: "Sport*" },
+        { entry: entries[1], kept: true, stage: "profile", reason: "groupsToInclude", rule: "Sport*" },
+        { entry: entries[2], kept: false, stage: "source", reason: "channelsToExclude", rule: { field: "tvg-id", pattern: "NULL" } },
+        { entry: entries[3], kept: false, stage: "profile", reason: "notInGroupsToInclude" },
+      ];
+
+      const summary = summarizeExplanation(explanations);
+
+      expect(summary.kept).toBe(2);
+      expect(summary.dropped).toBe(2);
+      expect(summary.rules).toEqual([
+        { stage: "profile", reason: "groupsToInclude", rule: "Sport*", count: 2 },
+        { stage: "source", reason: "channelsToExclude", rule: '{"field":"tvg-id","pattern":"NULL"}', count: 1 },
+        { stage: "profile", reason: "notInGroupsToInclude", rule: undefined, count: 1 },
+      ]);
+      expect(summary.entries[2]).toEqual({
+        name: "NHL 4",
+        group: "NHL - National Hockey League",
+        url: entries[2].url,
+        source: undefined,
+        kept: false,
+        stage: "source",
+        reason: "channelsToExclude",
+        rule: '{"field":"tvg-id","pattern":"NULL"}',
+      });
+    });
+  });
+});
+
+const loadResource = (name): string => {
+  const resourcesDir = "resources";
+  const fullFileName = path.resolve(__dirname, resourcesDir, name);
+  return readFileSync(fullFileName, "utf-8");
+};
@@ -0,0 +1,237 @@
+import { download, DownloadError, DownloadTimeoutError, downloadStream, HttpStatusError, mergeDownloadOptions, openProxiedStream, ResponseTooLargeError } from "../src/downloader";
+import { createServer, IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+import { brotliCompressSync, deflateSync, gzipSync } from "zlib";
+
+const PLAYLIST = "#EXTM3U\n#EXTINF:-1,Télé\nhttp://a.com/1\n";
+
+describe("downloader over http", () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: { url?: string; headers: IncomingHttpHeaders }[];
+  let flakyFailures: number;
+
+  // A provider that fails, hangs, stalls or answers too much, depending on the path
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push({ url: req.url, headers: req.headers });
+      switch (req.url) {
+        case "/playlist.m3u":
+          res.setHeader("Content-Type", "audio/x-mpegurl");
+          res.end("#EXTM3U\n");
+          break;
+        case "/flaky.m3u":
+          if (flakyFailures-- > 0) {
+            res.statusCode = 503;
+            res.end();
+          } else {
+            res.end("#EXTM3U\n");
+          }
+          break;
+        case "/hang.m3u":
+          break;
+        case "/stall.m3u":
+          res.write("#EXTM3U\n");
+          break;
+        case "/large.m3u":
+          res.end("#EXTM3U\n" + "#EXTINF:-1,Channel\nhttp://a.com/1\n".repeat(100));
+          break;
+        case "/playlist.m3u.gz":
+          res.setHeader("Content-Type", "application/gzip");
+          res.end(gzipSync(PLAYLIST));
+          break;
+        case "/playlist.m3u.zz":
+          res.end(deflateSync(PLAYLIST));
+          break;
+        case "/encoded.m3u":
+          res.setHeader("Content-Encoding", String(req.headers["x-encoding"]));
+          res.end(req.headers["x-encoding"] === "br" ? brotliCompressSync(PLAYLIST) : gzipSync(PLAYLIST));
+          break;
+        case "/cyrillic.m3u":
+          res.setHeader("Content-Type", "audio/x-mpegurl; charset=windows-1251");
+          res.end(Buffer.concat([Buffer.from("#EXTM3U\r\n#EXTINF:-1,"), Buffer.from([0xcf, 0xe5, 0xf0, 0xe2, 0xfb, 0xe9]), Buffer.from("\r\n")]));
+          break;
+        case "/latin1.m3u":
+          // Mislabelled, as some legacy panels do
+          res.setHeader("Content-Type", "audio/x-mpegurl; charset=utf-8");
+          res.end(Buffer.from([0x54, 0xe9, 0x6c, 0xe9]));
+          break;
+        case "/redirect.m3u":
+          res.statusCode = 302;
+          res.setHeader("Location", "/playlist.m3u");
+          res.end();
+          break;
+        default:
+          res.statusCode = 404;
+          res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    flakyFailures = 0;
+  });
+
+  describe("when the upstream fails", () => {
+    it("should retry 5xx statuses with backoff", async () => {
+      flakyFailures = 2;
+
+      const response = await download({ url: `${baseUrl}/flaky.m3u`, request: { retries: 2, retryDelay: 0.01 } });
+
+      expect(response.data).toBe("#EXTM3U\n");
+      expect(requests).toHaveLength(3);
+    });
+
+    it("should give up once the retries are used up", async () => {
+      flakyFailures = 5;
+
+      const error = await download({ url: `${baseUrl}/flaky.m3u`, request: { retries: 1, retryDelay: 0.01 } }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpStatusError);
+      expect(error.status).toBe(503);
+      expect(requests).toHaveLength(2);
+    });
+
+    it("should not retry 4xx statuses", async () => {
+      const error = await download({ url: `${baseUrl}/missing.m3u`, request: { retryDelay: 0.01 } }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpStatusError);
+      expect(error.status).toBe(404);
+      expect(error.retryable).toBe(false);
+      expect(requests).toHaveLength(1);
+    });
+
+    it("should type network errors", async () => {
+      // Nothing listens on port 1
+      const error = await download({ url: "http://127.0.0.1:1/playlist.m3u", request: { retries: 0 } }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(DownloadError);
+      expect(error.retryable).toBe(true);
+    });
+  });
+
+  describe("when the upstream is slow", () => {
+    it("should time out when no response comes", async () => {
+      await expect(download({ url: `${baseUrl}/hang.m3u`, request: { connectTimeout: 0.2, retries: 0 } }))
+        .rejects.toThrow(DownloadTimeoutError);
+    });
+
+    it("should time out when the body stalls", async () => {
+      await expect(download({ url: `${baseUrl}/stall.m3u`, request: { readTimeout: 0.2, retries: 0 } }))
+        .rejects.toThrow("no data for 200 ms");
+    });
+
+    it("should fail a streamed body that stalls", async () => {
+      const { stream } = await downloadStream({ url: `${baseUrl}/stall.m3u`, request: { readTimeout: 0.2 } });
+
+      const error = await (async () => {
+        for await (const _chunk of stream) {
+          // Drained until the guard gives up
+        }
+      })().catch((e) => e);
+
+      expect(error).toBeInstanceOf(DownloadTimeoutError);
+    });
+  });
+
+  describe("when limits and options are set", () => {
+    it("should cut off bodies larger than maxBytes", async () => {
+      await expect(download({ url: `${baseUrl}/large.m3u`, request: { maxBytes: 1024 } })).rejects.toThrow(ResponseTooLargeError);
+      expect(requests).toHaveLength(1);
+    });
+
+    it("should send the custom headers and User-Agent", async () => {
+      await download({ url: `${baseUrl}/playlist.m3u`, request: { userAgent: "VLC/3.0.20", headers: { Referer: "http://provider.com/" } } });
+
+      expect(requests[0].headers["user-agent"]).toBe("VLC/3.0.20");
+      expect(requests[0].headers.referer).toBe("http://provider.com/");
+    });
+
+    it("should follow redirects up to maxRedirects", async () => {
+      expect((await download({ url: `${baseUrl}/redirect.m3u` })).data).toBe("#EXTM3U\n");
+      await expect(download({ url: `${baseUrl}/redirect.m3u`, request: { maxRedirects: 0 } })).rejects.toThrow(HttpStatusError);
+    });
+  });
+
+  describe("when relaying a stream", () => {
+    it("should send the player's headers under the request options", async () => {
+      const upstream = await openProxiedStream({
+        url: `${baseUrl}/playlist.m3u`,
+        headers: { range: "bytes=0-", "user-agent": "Player/1.0" },
+        request: { userAgent: "VLC/3.0.20", headers: { Referer: "http://provider.com/" } },
+      });
+      upstream.stream.destroy();
+
+      expect(requests[0].headers).toEqual(expect.objectContaining({ range: "bytes=0-", "user-agent": "VLC/3.0.20", referer: "http://provider.com/" }));
+    });
+
+    it("should time out when no response comes and follow redirects up to maxRedirects", async () => {
+      await expect(openProxiedStream({ url: `${baseUrl}/hang.m3u`, request: { connectTimeout: 0.2 } })).rejects.toThrow(DownloadTimeoutError);
+      await expect(openProxiedStream({ url: `${baseUrl}/redirect.m3u`, request: { maxRedirects: 0 } })).rejects.toThrow(HttpStatusError);
+    });
+
+    it("should refuse streams the policy does not allow", async () => {
+      await expect(openProxiedStream({ url: `${baseUrl}/playlist.m3u`, policy: {} })).rejects.toThrow("The address 127.0.0.1 is internal");
+      expect(requests).toHaveLength(0);
+    });
+
+    it("should keep the body open past the connect timeout until the caller aborts", async () => {
+      const abort = new AbortController();
+      const upstream = await openProxiedStream({ url: `${baseUrl}/stall.m3u`, signal: abort.signal, request: { connectTimeout: 0.1 } });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(upstream.stream.destroyed).toBe(false);
+      abort.abort();
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(upstream.stream.destroyed).toBe(true);
+    });
+  });
+
+  describe("when the body is compressed or not in UTF-8", () => {
+    it("should decompress gzip and deflate files served without Content-Encoding", async () => {
+      expect((await download({ url: `${baseUrl}/playlist.m3u.gz` })).data).toBe(PLAYLIST);
+      expect((await download({ url: `${baseUrl}/playlist.m3u.zz` })).data).toBe(PLAYLIST);
+    });
+
+    it("should decode gzip and brotli Content-Encodings", async () => {
+      for (const encoding of ["gzip", "br"]) {
+        expect((await download({ url: `${baseUrl}/encoded.m3u`, request: { headers: { "X-Encoding": encoding } } })).data).toBe(PLAYLIST);
+      }
+    });
+
+    it("should decode the announced charset and normalize line endings", async () => {
+      expect((await download({ url: `${baseUrl}/cyrillic.m3u` })).data).toBe("#EXTM3U\n#EXTINF:-1,Первый\n");
+    });
+
+    it("should take the charset of the source over the announced one", async () => {
+      expect((await download({ url: `${baseUrl}/latin1.m3u` })).data).not.toBe("Télé");
+      expect((await download({ url: `${baseUrl}/latin1.m3u`, request: { charset: "latin1" } })).data).toBe("Télé");
+    });
+
+    it("should hand back the charset of streamed bodies", async () => {
+      const upstream = await downloadStream({ url: `${baseUrl}/cyrillic.m3u` });
+      upstream.stream.destroy();
+
+      expect(upstream.charset).toBe("windows-1251");
+    });
+  });
+
+  describe("when merging the options of a source over its profile", () => {
+    it("should let the source win and merge the headers", () => {
+      expect(mergeDownloadOptions(
+        { retries: 3, readTimeout: 10, headers: { Referer: "http://a.com/", "X-Token": "1" } },
+        { retries: 0, headers: { Referer: "http://b.com/" } }
+      )).toEqual({ retries: 0, readTimeout: 10, headers: { Referer: "http://b.com/", "X-Token": "1" } });
+      expect(mergeDownloadOptions(undefined, { retries: 0 })).toEqual({ retries: 0 });
+      expect(mergeDownloadOptions({ retries: 1 }, undefined)).toEqual({ retries: 1 });
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { download, DownloadResponse } from "../src/downloader";
 import axios from "axios";
+import { Readable } from "stream";
 
 jest.mock("axios");
 const mockedAxios = axios as jest.Mocked<typeof axios>;
@@ -8,7 +9,7 @@ describe("downloader", () => {
   describe("when invoked to download and all expected headers return from m3u server", () => {
     it("builds correct response", async () => {
       const mockAxiosResult = {
-        data: "DataFile\nAnother Line",
+        data: Readable.from([Buffer.from("DataFile\nAnother Line")]),
         headers: { 
           "content-type": "text/html", 
           "content-disposition": 'inline; filename="example.m3u"', 
@@ -40,7 +41,7 @@ describe("downloader", () => {
   describe("when invoked to download and not all expected headers return from m3u server", () => {
     it("builds correct response", async () => {
       const mockAxiosResult = {
-        data: "DataFile\nAnother Line",
+        data: Readable.from([Buffer.from("DataFile\nAnother Line")]),
         headers: { 
           "content-type": "text/html", 
           "content-disposition": 'inline; filename="example.m3u"', 
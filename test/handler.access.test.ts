@@ -0,0 +1,88 @@
+import { authorizeRequest, getRequestToken, isAuthEnabled } from "../src/handler/access";
+import { ForbiddenError, UnauthorizedError } from "../src/handler/errors";
+import { hashToken } from "../src/auth";
+import { Request } from "express";
+import { createRequest, MockRequest } from "node-mocks-http";
+import * as config from "../src/config";
+import * as configStore from "../src/config-store";
+jest.mock("../src/config-store");
+
+describe("access control", () => {
+  let mockGetConfig: jest.MockedFunction<typeof configStore.getConfig>;
+  let mockConfigFile: config.ConfigFile;
+
+  beforeEach(() => {
+    mockGetConfig = configStore.getConfig as jest.MockedFunction<typeof configStore.getConfig>;
+    mockGetConfig.mockReset();
+    mockConfigFile = {
+      adminTokens: [hashToken("admin-token")],
+      profiles: [
+        { key: "kids", value: { url: "http://m3uprovider.com/get.php", tokens: [hashToken("kids-token"), hashToken("tablet-token")] } },
+        { key: "sports", value: { url: "http://m3uprovider.com/get.php", tokens: [hashToken("sports-token")] } },
+        { key: "all", value: { url: "http://m3uprovider.com/get.php" } },
+      ],
+    };
+    mockGetConfig.mockReturnValue(mockConfigFile);
+  });
+
+  it("lets everything through when the config has no tokens", () => {
+    mockGetConfig.mockReturnValue({ profiles: [{ key: "all", value: { url: "http://m3uprovider.com/get.php" } }] });
+
+    expect(isAuthEnabled(mockGetConfig())).toBe(false);
+    expect(() => authorizeRequest(createRequest({ url: "/getm3u?profile=all" }), "all")).not.toThrow();
+    expect(() => authorizeRequest(createRequest({ url: "/groups?url=http%3A%2F%2Fm3uprovider.com" }))).not.toThrow();
+  });
+
+  it("turns on as soon as one profile has a token", () => {
+    expect(isAuthEnabled({ profiles: [{ key: "a", value: { url: "http://url1", tokens: [hashToken("t")] } }] })).toBe(true);
+    expect(isAuthEnabled({ adminTokens: [], profiles: [{ key: "a", value: { url: "http://url1", tokens: [] } }] })).toBe(false);
+  });
+
+  it("opens a profile with one of its tokens", () => {
+    expect(() => authorizeRequest(createRequest({ url: "/getm3u?profile=kids&token=tablet-token" }), "kids")).not.toThrow();
+  });
+
+  it("opens every profile and URL requests with the admin token", () => {
+    expect(() => authorizeRequest(createRequest({ url: "/getm3u?profile=all&token=admin-token" }), "all")).not.toThrow();
+    expect(() => authorizeRequest(createRequest({ url: "/dryrun?profile=kids&token=admin-token" }))).not.toThrow();
+  });
+
+  it("asks for a token when there is none or it is unknown", () => {
+    expect(() => authorizeRequest(createRequest({ url: "/getm3u?profile=kids" }), "kids")).toThrow(UnauthorizedError);
+    expect(() => authorizeRequest(createRequest({ url: "/getm3u?profile=kids&token=guess" }), "kids")).toThrow(UnauthorizedError);
+  });
+
+  it("refuses the token of another profile", () => {
+    expect(() => authorizeRequest(createRequest({ url: "/getm3u?profile=kids&token=sports-token" }), "kids")).toThrow(ForbiddenError);
+    expect(() => authorizeRequest(createRequest({ url: "/getm3u?profile=all&token=sports-token" }), "all")).toThrow(ForbiddenError);
+  });
+
+  it("keeps URL requests and discovery to the admin token", () => {
+    expect(() => authorizeRequest(createRequest({ url: "/getm3u?url=http%3A%2F%2Fm3uprovider.com&token=kids-token" }))).toThrow(ForbiddenError);
+  });
+
+  it("does not tell whether an unknown profile exists", () => {
+    expect(() => authorizeRequest(createRequest({ url: "/getm3u?profile=missing&token=kids-token" }), "missing")).toThrow(ForbiddenError);
+    expect(() => authorizeRequest(createRequest({ url: "/getm3u?profile=missing" }), "missing")).toThrow(UnauthorizedError);
+  });
+
+  describe("when reading the token of a request", () => {
+    it("takes the token from the path, the query or the Basic auth password", () => {
+      expect(getRequestToken(createRequest({ url: "/hdhomerun/kids/abc/discover.json", params: { profile: "kids", token: "abc" } }))).toBe("abc");
+      expect(getRequestToken(createRequest({ url: "/getm3u?profile=kids&token=def" }))).toBe("def");
+      expect(getRequestToken(createBasicAuthRequest("anything", "ghi"))).toBe("ghi");
+      expect(getRequestToken(createRequest({ url: "/getm3u?profile=kids" }))).toBeNull();
+    });
+
+    it("accepts the Basic auth password as a token", () => {
+      expect(() => authorizeRequest(createBasicAuthRequest("kids", "kids-token"), "kids")).not.toThrow();
+    });
+  });
+});
+
+const createBasicAuthRequest = (username: string, password: string): MockRequest<Request> => {
+  return createRequest({
+    url: "/getm3u?profile=kids",
+    headers: { authorization: `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}` },
+  });
+};
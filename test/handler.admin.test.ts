@@ -0,0 +1,219 @@
+import { handleAdminIndex, handleAdminProfile, handleAdminProfileUpdate, requireAdmin } from "../src/handler/admin";
+import { Request } from "express";
+import { createRequest, createResponse, MockRequest } from "node-mocks-http";
+import { getCsrfToken } from "../src/auth";
+import { loadConfig } from "../src/config";
+import { M3uEntry } from "../src/m3uparser";
+import * as playlistBuilder from "../src/playlist-builder";
+import * as configStore from "../src/config-store";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+jest.mock("../src/playlist-builder", () => ({
+  ...jest.requireActual("../src/playlist-builder"),
+  explainPlaylist: jest.fn(),
+  fetchUnfilteredPlaylist: jest.fn(),
+}));
+jest.mock("../src/config-store");
+
+describe("admin handler", () => {
+  const password = "s3cret";
+  let configDir: string;
+  let configFile: string;
+  let mockExplainPlaylist: jest.MockedFunction<typeof playlistBuilder.explainPlaylist>;
+  let mockFetchUnfilteredPlaylist: jest.MockedFunction<typeof playlistBuilder.fetchUnfilteredPlaylist>;
+  let entries: M3uEntry[];
+
+  beforeEach(async () => {
+    process.env.ADMIN_PASSWORD = password;
+    configDir = mkdtempSync(path.join(tmpdir(), "m3ufilter-"));
+    configFile = path.join(configDir, "config.json");
+    writeFileSync(configFile, JSON.stringify({
+      profiles: [{ key: "tv", value: { url: "http://m3uprovider.com/get.php", groupsToInclude: ["Sports", "Movies*"], channelsToExclude: ["CNN"] } }],
+    }));
+    const config = await loadConfig({ configFile, log: false });
+    (configStore.getConfig as jest.Mock).mockReturnValue(config);
+    (configStore.getConfigFilePath as jest.Mock).mockReturnValue(configFile);
+    (configStore.reloadConfig as jest.Mock).mockResolvedValue(true);
+
+    entries = [createEntry("ESPN", "Sports"), createEntry("TSN", "Sports"), createEntry("<CNN>", "News & Weather")];
+    mockExplainPlaylist = playlistBuilder.explainPlaylist as jest.MockedFunction<typeof playlistBuilder.explainPlaylist>;
+    mockFetchUnfilteredPlaylist = playlistBuilder.fetchUnfilteredPlaylist as jest.MockedFunction<typeof playlistBuilder.fetchUnfilteredPlaylist>;
+    mockExplainPlaylist.mockReset();
+    mockFetchUnfilteredPlaylist.mockReset();
+    mockFetchUnfilteredPlaylist.mockResolvedValue({
+      playlist: { headerAttributes: {}, entries },
+      headers: {},
+      cacheStatus: "HIT",
+      failedSources: [],
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_PASSWORD;
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  describe("when authenticating", () => {
+    it("hides the admin pages unless a password is configured", () => {
+      delete process.env.ADMIN_PASSWORD;
+      const { res, next } = callRequireAdmin(authorization("admin", password));
+
+      expect(res.statusCode).toBe(404);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("asks for the password", () => {
+      const { res, next } = callRequireAdmin(authorization("admin", "wrong"));
+
+      expect(res.statusCode).toBe(401);
+      expect(res._getHeaders()["www-authenticate"]).toBe('Basic realm="m3ufilter admin", charset="UTF-8"');
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("lets the admin in with any user name", () => {
+      const { next } = callRequireAdmin(authorization("anyone", password));
+
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  it("lists the profiles", async () => {
+    const res = createResponse();
+
+    await handleAdminIndex({ req: createRequest({ method: "GET", url: "/admin" }), res });
+
+    expect(res.statusCode).toBe(200);
+    expect(res._getData()).toContain('<a href="/admin/profiles/tv">tv</a>');
+    expect(res._getHeaders()["content-security-policy"]).toContain("form-action 'self'");
+  });
+
+  it("offers the upstream groups as a checklist and keeps other patterns aside", async () => {
+    const res = await callProfileHandler();
+
+    const html = res._getData();
+    expect(res.statusCode).toBe(200);
+    expect(html).toContain('<input type="checkbox" name="groups" value="Sports" checked> Sports <span class="count">(2)</span>');
+    expect(html).toContain('<input type="checkbox" name="groups" value="News &amp; Weather"> News &amp; Weather');
+    expect(html).toContain('<textarea name="otherGroups">Movies*</textarea>');
+    expect(html).toContain('<textarea name="channelsToExclude">CNN</textarea>');
+    expect(html).toContain(`name="csrf" value="${getCsrfToken(password)}"`);
+  });
+
+  it("still shows the editor when the sources are down", async () => {
+    mockFetchUnfilteredPlaylist.mockRejectedValue(new playlistBuilder.SourceFetchError("Failed to fetch source(s): A"));
+
+    const res = await callProfileHandler();
+
+    expect(res.statusCode).toBe(200);
+    expect(res._getData()).toContain("could not be fetched");
+    expect(res._getData()).toContain('<textarea name="otherGroups">Sports\nMovies*</textarea>');
+  });
+
+  it("returns 404 for an unknown profile", async () => {
+    expect((await callProfileHandler("missing")).statusCode).toBe(404);
+  });
+
+  it("previews the channel count of the edited filters without saving", async () => {
+    mockExplainPlaylist.mockResolvedValueOnce({
+      entries: [
+        { entry: entries[0], kept: true, stage: "profile", reason: "groupsToInclude", rule: "Sports" },
+        { entry: entries[1], kept: false, stage: "profile", reason: "channelsToExclude", rule: "TSN" },
+        { entry: entries[2], kept: false, stage: "profile", reason: "notInGroupsToInclude" },
+      ],
+      cacheStatus: "HIT",
+      failedSources: [],
+    });
+    const before = readFileSync(configFile, "utf-8");
+
+    const res = await callUpdateHandler({ action: "preview", groups: "Sports", channelsToExclude: "TSN" });
+
+    expect(mockExplainPlaylist).toHaveBeenCalledWith(expect.objectContaining({ groupsToInclude: ["Sports"], channelsToExclude: ["TSN"] }));
+    expect(res._getData()).toContain("Preview: 1 channels kept, 2 dropped.");
+    expect(readFileSync(configFile, "utf-8")).toBe(before);
+  });
+
+  it("saves the edited filters and redirects back to the editor", async () => {
+    const res = await callUpdateHandler({
+      action: "save",
+      groups: ["Sports", "News & Weather"],
+      otherGroups: "Movies*\r\n",
+      channelsToExclude: 'CNN\r\n{"field":"tvg-id","pattern":"NULL","match":"exact"}',
+    });
+
+    expect(res.statusCode).toBe(303);
+    expect(res._getRedirectUrl()).toBe("/admin/profiles/tv?saved=1");
+    expect(JSON.parse(readFileSync(configFile, "utf-8")).profiles[0].value).toEqual({
+      url: "http://m3uprovider.com/get.php",
+      groupsToInclude: ["Sports", "News & Weather", "Movies*"],
+      channelsToExclude: ["CNN", { field: "tvg-id", pattern: "NULL", match: "exact" }],
+    });
+    expect(configStore.reloadConfig).toHaveBeenCalled();
+  });
+
+  it("keeps what was entered when a rule is invalid", async () => {
+    const before = readFileSync(configFile, "utf-8");
+
+    const res = await callUpdateHandler({ action: "save", groups: "Sports", channelsToExclude: "/[/" });
+
+    expect(res.statusCode).toBe(400);
+    expect(res._getData()).toContain(`<p class="error">Invalid config: profiles['tv'].channelsToExclude[0]: Invalid regex`);
+    expect(res._getData()).toContain('<textarea name="channelsToExclude">/[/</textarea>');
+    expect(readFileSync(configFile, "utf-8")).toBe(before);
+  });
+
+  it("refuses to save over changes made since the form was loaded", async () => {
+    const res = await callUpdateHandler({ action: "save", groups: "Sports", version: "outdated" });
+
+    expect(res.statusCode).toBe(409);
+    expect(res._getData()).toContain("changed by someone else");
+  });
+
+  it("refuses forms without the token", async () => {
+    const res = await callUpdateHandler({ action: "save", groups: "Sports", csrf: "forged" });
+
+    expect(res.statusCode).toBe(403);
+    expect(mockExplainPlaylist).not.toHaveBeenCalled();
+  });
+
+  const callProfileHandler = async (profile = "tv") => {
+    const mockRequest: MockRequest<Request> = createRequest({ method: "GET", url: `/admin/profiles/${profile}`, params: { profile } });
+    const mockResponse = createResponse();
+    await handleAdminProfile({ req: mockRequest, res: mockResponse });
+    return mockResponse;
+  };
+
+  const callUpdateHandler = async (form: Record<string, string | string[]>) => {
+    const page = await callProfileHandler();
+    const version = /name="version" value="([0-9a-f]+)"/.exec(page._getData())[1];
+    const mockRequest: MockRequest<Request> = createRequest({
+      method: "POST",
+      url: "/admin/profiles/tv",
+      params: { profile: "tv" },
+      body: { csrf: getCsrfToken(password), version, ...form },
+    });
+    const mockResponse = createResponse();
+    await handleAdminProfileUpdate({ req: mockRequest, res: mockResponse });
+    return mockResponse;
+  };
+});
+
+const callRequireAdmin = (authorizationHeader: string) => {
+  const req = createRequest({ method: "GET", url: "/admin", headers: { authorization: authorizationHeader } });
+  const res = createResponse();
+  const next = jest.fn();
+  requireAdmin(req, res, next);
+  return { res, next };
+};
+
+const authorization = (username: string, password: string): string => {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+};
+
+const createEntry = (name: string, group: string): M3uEntry => ({
+  duration: -1,
+  attributes: { "tvg-name": name, "group-title": group },
+  title: name,
+  directives: [],
+  url: `http://m3uprovider.com/${encodeURIComponent(name)}`,
+});
@@ -0,0 +1,112 @@
+import { handleChannels, handleDryRun, handleGroups } from "../src/handler/discovery";
+import { Request, Response } from "express";
+import { createRequest, createResponse, MockRequest } from "node-mocks-http";
+import { M3uEntry } from "../src/m3uparser";
+import * as playlistBuilder from "../src/playlist-builder";
+import * as config from "../src/config";
+import * as configStore from "../src/config-store";
+jest.mock("../src/playlist-builder");
+jest.mock("../src/config-store");
+
+describe("discovery handlers", () => {
+  let mockFetchUnfilteredPlaylist: jest.MockedFunction<typeof playlistBuilder.fetchUnfilteredPlaylist>;
+  let mockExplainPlaylist: jest.MockedFunction<typeof playlistBuilder.explainPlaylist>;
+  let mockGetConfig: jest.MockedFunction<typeof configStore.getConfig>;
+  let entries: M3uEntry[];
+
+  beforeEach(() => {
+    entries = [createEntry("ESPN", "Sports"), createEntry("TSN", "Sports"), createEntry("CNN", "News")];
+    mockFetchUnfilteredPlaylist = playlistBuilder.fetchUnfilteredPlaylist as jest.MockedFunction<typeof playlistBuilder.fetchUnfilteredPlaylist>;
+    mockExplainPlaylist = playlistBuilder.explainPlaylist as jest.MockedFunction<typeof playlistBuilder.explainPlaylist>;
+    mockGetConfig = configStore.getConfig as jest.MockedFunction<typeof configStore.getConfig>;
+    mockFetchUnfilteredPlaylist.mockReset();
+    mockExplainPlaylist.mockReset();
+    mockGetConfig.mockReset();
+    mockFetchUnfilteredPlaylist.mockResolvedValue({
+      playlist: { headerAttributes: {}, entries },
+      headers: {},
+      cacheStatus: "HIT",
+      failedSources: ["B"],
+    });
+    const mockConfigFile: config.ConfigFile = {
+      profiles: [{ key: "tv", value: { url: "http://m3uprovider.com/get.php", channelsToExclude: ["CNN"] } }],
+    };
+    mockGetConfig.mockReturnValue(mockConfigFile);
+  });
+
+  it("lists the groups of a URL with their channel counts", async () => {
+    const res = await callHandler(handleGroups, "/groups?url=http%3A%2F%2Fm3uprovider.com%2Fget.php");
+
+    expect(mockFetchUnfilteredPlaylist).toHaveBeenCalledWith(
+      expect.objectContaining({ sources: [{ url: "http://m3uprovider.com/get.php" }] })
+    );
+    expect(res._getJSONData()).toEqual({ groups: [{ name: "Sports", count: 2 }, { name: "News", count: 1 }] });
+    expect(res._getHeaders()["x-failed-sources"]).toBe("B");
+  });
+
+  it("lists the channels of the requested groups of a profile", async () => {
+    const res = await callHandler(handleChannels, "/channels?profile=tv&group=sports");
+
+    expect(res._getJSONData().channels.map((channel) => channel.name)).toEqual(["ESPN", "TSN"]);
+    expect(res._getJSONData().channels[0]).toEqual(expect.objectContaining({ attributes: { "tvg-name": "ESPN", "group-title": "Sports" } }));
+  });
+
+  it("reports which rule kept or dropped each entry of a profile", async () => {
+    mockExplainPlaylist.mockResolvedValueOnce({
+      entries: [
+        { entry: entries[0], kept: true, stage: "profile", reason: "notExcluded" },
+        { entry: entries[2], kept: false, stage: "profile", reason: "channelsToExclude", rule: "CNN" },
+      ],
+      cacheStatus: "MISS",
+      failedSources: [],
+    });
+
+    const res = await callHandler(handleDryRun, "/dryrun?profile=tv");
+
+    expect(mockExplainPlaylist).toHaveBeenCalledWith(expect.objectContaining({ channelsToExclude: ["CNN"], stateKey: "tv" }));
+    expect(res._getJSONData()).toEqual(expect.objectContaining({
+      kept: 1,
+      dropped: 1,
+      entries: [
+        expect.objectContaining({ name: "ESPN", kept: true, reason: "notExcluded" }),
+        expect.objectContaining({ name: "CNN", kept: false, stage: "profile", reason: "channelsToExclude", rule: "CNN" }),
+      ],
+    }));
+    expect(res._getHeaders()["x-cache"]).toBe("MISS");
+  });
+
+  it("returns 404 for an unknown profile", async () => {
+    const res = await callHandler(handleDryRun, "/dryrun?profile=missing");
+
+    expect(res.statusCode).toBe(404);
+    expect(mockExplainPlaylist).not.toHaveBeenCalled();
+  });
+
+  it("returns 502 when the sources cannot be fetched", async () => {
+    mockFetchUnfilteredPlaylist.mockReset();
+    mockFetchUnfilteredPlaylist.mockRejectedValueOnce(new playlistBuilder.SourceFetchError("Failed to fetch source(s): A"));
+
+    const res = await callHandler(handleGroups, "/groups?profile=tv");
+
+    expect(res.statusCode).toBe(502);
+  });
+});
+
+const callHandler = async (
+  handler: (options: { req: Request; res: Response }) => Promise<unknown>,
+  url: string
+) => {
+  const mockRequest: MockRequest<Request> = createRequest({ method: "GET", url });
+  const mockResponse = createResponse();
+
+  await handler({ req: mockRequest, res: mockResponse });
+  return mockResponse;
+};
+
+const createEntry = (name: string, group: string): M3uEntry => ({
+  duration: -1,
+  attributes: { "tvg-name": name, "group-title": group },
+  title: name,
+  directives: [],
+  url: `http://m3uprovider.com/${name}`,
+});
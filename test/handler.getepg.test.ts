@@ -0,0 +1,164 @@
+import { handleGetepg } from "../src/handler/getepg";
+import { Request } from "express";
+import { createRequest, MockRequest } from "node-mocks-http";
+import * as playlistBuilder from "../src/playlist-builder";
+import * as config from "../src/config";
+import * as configStore from "../src/config-store";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { PassThrough } from "stream";
+import { gzipSync } from "zlib";
+import { readFileSync } from "fs";
+import * as path from "path";
+jest.mock("../src/playlist-builder");
+jest.mock("../src/config-store");
+
+describe("epg handler", () => {
+  let server: Server;
+  let baseUrl: string;
+  let mockBuildPlaylist: jest.MockedFunction<typeof playlistBuilder.buildPlaylist>;
+  let mockGetConfig: jest.MockedFunction<typeof configStore.getConfig>;
+
+  beforeAll(async () => {
+    const guide = loadResource("epg.xml");
+    server = createServer((req, res) => {
+      if (req.url === "/epg.xml") {
+        res.end(guide);
+      } else if (req.url === "/epg.xml.gz") {
+        res.end(gzipSync(guide));
+      } else if (req.url === "/latin1.xml") {
+        res.setHeader("Content-Type", "text/xml");
+        res.end(Buffer.from('<?xml version="1.0" encoding="ISO-8859-1"?>\n<tv><channel id="10179"><display-name>Télé</display-name></channel></tv>\n', "latin1"));
+      } else {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mockBuildPlaylist = playlistBuilder.buildPlaylist as jest.MockedFunction<typeof playlistBuilder.buildPlaylist>;
+    mockGetConfig = configStore.getConfig as jest.MockedFunction<typeof configStore.getConfig>;
+    mockBuildPlaylist.mockReset();
+    mockGetConfig.mockReset();
+    mockGetConfig.mockReturnValue({ profiles: [] });
+  });
+
+  it("streams the announced guide filtered to the playlist channels", async () => {
+    // The test server listens on the loopback address
+    mockGetConfig.mockReturnValue({ urlMode: { allowPrivateAddresses: true }, profiles: [] });
+    mockBuiltPlaylist(mockBuildPlaylist, { "x-tvg-url": `${baseUrl}/epg.xml` });
+
+    const response = await callGetepgHandler("/getepg?url=http%3A%2F%2Fm3uprovider.com%2Fget.php");
+
+    expect(response.statusCode).toBe(200);
+    expect(response.getHeader("content-type")).toBe("application/xml; charset=utf-8");
+    expect(response.body).toContain('<channel id="10179">');
+    expect(response.body).toContain('<programme start="20240101000000 +0000" stop="20240101010000 +0000" channel="10179">');
+    expect(response.body).not.toContain("16485");
+    expect(response.body).not.toContain("99999");
+  });
+
+  it("refuses a guide on an internal address announced by a url= playlist", async () => {
+    mockBuiltPlaylist(mockBuildPlaylist, { "x-tvg-url": `${baseUrl}/epg.xml` });
+
+    const response = await callGetepgHandler("/getepg?url=http%3A%2F%2Fm3uprovider.com%2Fget.php");
+
+    expect(response.statusCode).toBe(502);
+    expect(response.body).not.toContain("<channel");
+  });
+
+  it("prefers the profile epgUrl and handles gzipped guides", async () => {
+    const mockConfigFile: config.ConfigFile = {
+      profiles: [{ key: "tv", value: { url: "http://m3uprovider.com/get.php", epgUrl: `${baseUrl}/epg.xml.gz` } }],
+    };
+    mockGetConfig.mockReturnValue(mockConfigFile);
+    mockBuiltPlaylist(mockBuildPlaylist, { "x-tvg-url": `${baseUrl}/other.xml` });
+
+    const response = await callGetepgHandler("/getepg?profile=tv");
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toContain('<channel id="10179">');
+    expect(response.body).not.toContain("99999");
+  });
+
+  it("decodes the guide from the charset of its XML declaration and re-declares it as UTF-8", async () => {
+    mockGetConfig.mockReturnValue({ profiles: [{ key: "tv", value: { url: "http://m3uprovider.com/get.php", epgUrl: `${baseUrl}/latin1.xml` } }] });
+    mockBuiltPlaylist(mockBuildPlaylist, {});
+
+    const response = await callGetepgHandler("/getepg?profile=tv");
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toBe('<?xml version="1.0" encoding="UTF-8"?>\n<tv><channel id="10179"><display-name>Télé</display-name></channel></tv>\n');
+  });
+
+  it("returns 404 when no guide is known", async () => {
+    mockBuiltPlaylist(mockBuildPlaylist, {});
+
+    const response = await callGetepgHandler("/getepg?url=http%3A%2F%2Fm3uprovider.com%2Fget.php");
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it("returns 502 when the guide cannot be downloaded", async () => {
+    mockGetConfig.mockReturnValue({ urlMode: { allowPrivateAddresses: true }, profiles: [] });
+    mockBuiltPlaylist(mockBuildPlaylist, { "x-tvg-url": `${baseUrl}/missing.xml` });
+
+    const response = await callGetepgHandler("/getepg?url=http%3A%2F%2Fm3uprovider.com%2Fget.php");
+
+    expect(response.statusCode).toBe(502);
+  });
+});
+
+const mockBuiltPlaylist = (mockBuildPlaylist, headerAttributes: Record<string, string>) => {
+  const builtPlaylist: playlistBuilder.BuiltPlaylist = {
+    playlist: {
+      headerAttributes,
+      entries: [{
+        duration: -1,
+        attributes: { "tvg-id": "10179", "tvg-name": "ESPN US" },
+        title: "ESPN US",
+        directives: [],
+        url: "http://m3uprovider.com/1",
+      }],
+    },
+    headers: {},
+    cacheStatus: "MISS",
+    failedSources: [],
+  };
+  mockBuildPlaylist.mockResolvedValueOnce(builtPlaylist);
+};
+
+// Express responses are writable streams, so the handler can pipe into this stand-in
+const callGetepgHandler = async (url: string) => {
+  const mockRequest: MockRequest<Request> = createRequest({ method: "GET", url });
+  const output: Buffer[] = [];
+  const headers: Record<string, string> = {};
+  const res = Object.assign(new PassThrough(), {
+    statusCode: 200,
+    headersSent: false,
+    set: (name: string, value: string) => { headers[name.toLowerCase()] = value; return res; },
+    getHeader: (name: string) => headers[name.toLowerCase()],
+    status: (code: number) => { res.statusCode = code; return res; },
+    json: (body: unknown) => { res.end(JSON.stringify(body)); return res; },
+    send: (body: string) => { res.end(body); return res; },
+  });
+  res.on("data", (chunk: Buffer) => output.push(chunk));
+  const finished = new Promise((resolve) => res.on("end", resolve));
+
+  await handleGetepg({ req: mockRequest, res: res as never });
+  await finished;
+  return { statusCode: res.statusCode, getHeader: res.getHeader, body: Buffer.concat(output).toString("utf-8") };
+};
+
+const loadResource = (name): string => {
+  const resourcesDir = "resources";
+  const fullFileName = path.resolve(__dirname, resourcesDir, name);
+  return readFileSync(fullFileName, "utf-8");
+};
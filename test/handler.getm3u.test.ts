@@ -6,26 +6,24 @@ import {
   MockRequest,
   MockResponse,
 } from "node-mocks-http";
-import * as downloader from "../src/downloader";
-import * as m3uparser from "../src/m3uparser";
+import { hashToken } from "../src/auth";
+import { resetStreamKey } from "../src/stream-proxy";
+import { DownloadTimeoutError, HttpStatusError } from "../src/downloader";
+import * as playlistBuilder from "../src/playlist-builder";
 import * as config from "../src/config";
-jest.mock("../src/downloader");
-jest.mock("../src/m3uparser");
-jest.mock("../src/config");
+import * as configStore from "../src/config-store";
+jest.mock("../src/playlist-builder");
+jest.mock("../src/config-store");
 
 describe("m3u handler", () => {
   let mockRequest: MockRequest<Request>;
   let mockResponse: MockResponse<Response>;
-  let mockDownload;
-  let mockFilterM3u;
-  let mockLoadConfig;
-  let downloadResponse;
-  let filterM3uResponse;
+  let mockBuildPlaylist;
+  let mockGetConfig;
+  let builtPlaylist;
   beforeEach(() => {
-    ({ mockResponse, mockDownload, mockFilterM3u, mockLoadConfig } =
-      createMocks());
-    downloadResponse = mockServerDownloadResponse(mockDownload);
-    filterM3uResponse = mockFilterM3uResponse(mockFilterM3u);
+    ({ mockResponse, mockBuildPlaylist, mockGetConfig } = createMocks());
+    builtPlaylist = mockBuildPlaylistResponse(mockBuildPlaylist);
   });
   describe("when invoked", () => {
     it("if URL is present in query string, use it to download m3u file from server", async () => {
@@ -33,7 +31,9 @@ describe("m3u handler", () => {
 
       await callGetm3uHandlerWithUrl(mockResponse, { url: m3uUrl });
 
-      expect(mockDownload).toHaveBeenCalledWith({ url: m3uUrl });
+      expect(mockBuildPlaylist).toHaveBeenCalledWith(
+        expect.objectContaining({ sources: [{ url: m3uUrl }] })
+      );
     });
 
     it("if PROFILE is present in query string, load profile from config to get URL to download m3u file from server", async () => {
@@ -42,13 +42,15 @@ describe("m3u handler", () => {
       const mockConfigFile: config.ConfigFile = {
         profiles: [{ key: profileName, value: { url: m3uUrl } }],
       };
-      mockLoadConfig.mockReturnValueOnce(mockConfigFile);
+      mockGetConfig.mockReturnValue(mockConfigFile);
 
       await callGetm3uHandlerWithProfile(mockResponse, {
         profile: profileName,
       });
 
-      expect(mockDownload).toHaveBeenCalledWith({ url: m3uUrl });
+      expect(mockBuildPlaylist).toHaveBeenCalledWith(
+        expect.objectContaining({ sources: [{ url: m3uUrl }] })
+      );
     });
 
     it("accepts filtered groups and excluded channels from URL", async () => {
@@ -62,13 +64,13 @@ describe("m3u handler", () => {
         exclude: exclude,
       });
 
-      expect(mockDownload).toHaveBeenCalledWith({
-        url: m3uUrl,
-      });
-      expect(mockFilterM3u).toHaveBeenCalledWith({
-        fileContents: downloadResponse.data,
+      expect(mockBuildPlaylist).toHaveBeenCalledWith({
+        sources: [{ url: m3uUrl }],
         groupsToInclude: groups,
+        groupsToExclude: [],
+        channelsToInclude: [],
         channelsToExclude: exclude,
+        urlPolicy: {},
       });
     });
 
@@ -77,7 +79,7 @@ describe("m3u handler", () => {
       const m3uUrl = "http://m3uprovider.com/get.php?id=4";
       const groups = ["Group 1", "Group 2"];
       const exclude = ["Exclude 1", "Exclude 2"];
-      mockLoadConfigResponse(mockLoadConfig, {
+      mockGetConfigResponse(mockGetConfig, {
         url: m3uUrl,
         profileName: profileName,
         groups: groups,
@@ -88,14 +90,103 @@ describe("m3u handler", () => {
         profile: profileName,
       });
 
-      expect(mockDownload).toHaveBeenCalledWith({
-        url: m3uUrl,
-      });
-      expect(mockFilterM3u).toHaveBeenCalledWith({
-        fileContents: downloadResponse.data,
+      expect(mockBuildPlaylist).toHaveBeenCalledWith({
+        sources: [{ url: m3uUrl }],
         groupsToInclude: groups,
+        groupsToExclude: [],
+        channelsToInclude: [],
         channelsToExclude: exclude,
+        stateKey: profileName,
+      });
+    });
+
+    it("accepts excluded groups and included channels from URL", async () => {
+      const m3uUrl = "http://m3uprovider.com/get.php?id=2";
+
+      await callGetm3uHandlerWithUrl(mockResponse, {
+        url: m3uUrl,
+        excludeGroups: "Canada,Adult*",
+        channels: "ESPN",
+      });
+
+      expect(mockBuildPlaylist).toHaveBeenCalledWith({
+        sources: [{ url: m3uUrl }],
+        groupsToInclude: [],
+        groupsToExclude: ["Canada", "Adult*"],
+        channelsToInclude: ["ESPN"],
+        channelsToExclude: [],
+        urlPolicy: {},
+      });
+    });
+
+    it("accepts excluded groups and included channels from PROFILE", async () => {
+      const m3uUrl = "http://m3uprovider.com/get.php?id=4";
+      const mockConfigFile: config.ConfigFile = {
+        profiles: [{
+          key: "tv",
+          value: { url: m3uUrl, groupsToExclude: ["Canada"], channelsToInclude: ["ESPN"] },
+        }],
+      };
+      mockGetConfig.mockReturnValue(mockConfigFile);
+
+      await callGetm3uHandlerWithProfile(mockResponse, { profile: "tv" });
+
+      expect(mockBuildPlaylist).toHaveBeenCalledWith({
+        sources: [{ url: m3uUrl }],
+        groupsToInclude: [],
+        groupsToExclude: ["Canada"],
+        channelsToInclude: ["ESPN"],
+        channelsToExclude: [],
+        stateKey: "tv",
+      });
+    });
+
+    it("accepts exclusion rules as a JSON array from URL", async () => {
+      const m3uUrl = "http://m3uprovider.com/get.php?id=2";
+      const rules = [{ field: "tvg-id", pattern: "NULL", match: "exact" }, "/^US: /i"];
+
+      await callGetm3uHandlerWithUrl(mockResponse, {
+        url: m3uUrl,
+        exclude: JSON.stringify(rules),
+      });
+
+      expect(mockBuildPlaylist).toHaveBeenCalledWith({
+        sources: [{ url: m3uUrl }],
+        groupsToInclude: [],
+        groupsToExclude: [],
+        channelsToInclude: [],
+        channelsToExclude: rules,
+        urlPolicy: {},
+      });
+    });
+
+    it("takes bracketed exclusion and channel rules that are not JSON as plain rules", async () => {
+      const m3uUrl = "http://m3uprovider.com/get.php?id=2";
+
+      await callGetm3uHandlerWithUrl(mockResponse, {
+        url: m3uUrl,
+        exclude: "[VIP],[US] ESPN",
+        channels: "[HD]",
+      });
+
+      expect(mockBuildPlaylist).toHaveBeenCalledWith({
+        sources: [{ url: m3uUrl }],
+        groupsToInclude: [],
+        groupsToExclude: [],
+        channelsToInclude: ["[HD]"],
+        channelsToExclude: ["[VIP]", "[US] ESPN"],
+        urlPolicy: {},
+      });
+    });
+
+    it("returns 400 for an invalid exclusion rule", async () => {
+      await callGetm3uHandlerWithUrl(mockResponse, {
+        url: "http://m3uprovider.com/get.php?id=2",
+        exclude: "[{",
       });
+
+      expect(mockResponse.statusCode).toBe(400);
+      expect(mockBuildPlaylist).not.toHaveBeenCalled();
     });
 
     it("returns parsed m3u", async () => {
@@ -103,7 +194,7 @@ describe("m3u handler", () => {
       const m3uUrl = "http://m3uprovider.com/get.php?id=4";
       const groups = ["Group 1", "Group 2"];
       const exclude = ["Exclude 1", "Exclude 2"];
-      mockLoadConfigResponse(mockLoadConfig, {
+      mockGetConfigResponse(mockGetConfig, {
         url: m3uUrl,
         profileName: profileName,
         groups: groups,
@@ -114,7 +205,9 @@ describe("m3u handler", () => {
         profile: profileName,
       });
 
-      expect(mockResponse._getData()).toBe(filterM3uResponse);
+      expect(mockResponse._getData()).toBe(
+        '#EXTM3U\n#EXTINF:-1 tvg-name="Channel 1",Channel 1\nhttp://m3uprovider.com/1\n'
+      );
     });
 
     it("returns expected headers", async () => {
@@ -127,6 +220,244 @@ describe("m3u handler", () => {
       assertResponseHeaders(mockResponse);
     });
 
+    it("sends decompressed and re-encoded playlists with a matching content type", async () => {
+      mockBuildPlaylist.mockReset();
+      mockBuildPlaylist.mockResolvedValueOnce({ ...builtPlaylist, headers: { "content-type": "application/gzip" } });
+      mockBuildPlaylist.mockResolvedValueOnce({ ...builtPlaylist, headers: { "content-type": "audio/x-mpegurl; charset=windows-1251" } });
+
+      await callGetm3uHandlerWithUrl(mockResponse, { url: "http://m3uprovider.com/get.php.gz" });
+      expect(mockResponse._getHeaders()["content-type"]).toBe("application/vnd.apple.mpegurl");
+
+      mockResponse = createResponse();
+      await callGetm3uHandlerWithUrl(mockResponse, { url: "http://m3uprovider.com/get.php?id=2" });
+      expect(mockResponse._getHeaders()["content-type"]).toBe("audio/x-mpegurl; charset=utf-8");
+    });
+
+    it("passes the profile cache TTL and reports the cache status", async () => {
+      const m3uUrl = "http://m3uprovider.com/get.php?id=5";
+      const mockConfigFile: config.ConfigFile = {
+        profiles: [{ key: "tv", value: { url: m3uUrl, cacheTtl: 900 } }],
+      };
+      mockGetConfig.mockReturnValue(mockConfigFile);
+
+      await callGetm3uHandlerWithProfile(mockResponse, { profile: "tv" });
+
+      expect(mockBuildPlaylist).toHaveBeenCalledWith(
+        expect.objectContaining({ sources: [{ url: m3uUrl }], cacheTtl: 900 })
+      );
+      expect(mockResponse._getHeaders()["x-cache"]).toBe("MISS");
+      expect(mockResponse._getHeaders()["warning"]).toBeUndefined();
+    });
+
+    it("warns when serving a stale playlist", async () => {
+      mockBuildPlaylist.mockReset();
+      mockBuildPlaylist.mockResolvedValueOnce({ ...builtPlaylist, cacheStatus: "STALE" });
+
+      await callGetm3uHandlerWithUrl(mockResponse, { url: "http://m3uprovider.com/get.php?id=2" });
+
+      expect(mockResponse._getHeaders()["x-cache"]).toBe("STALE");
+      expect(mockResponse._getHeaders()["warning"]).toBe('111 - "Revalidation Failed"');
+    });
+
+    it("passes the sources and failure policy of a multi-source PROFILE", async () => {
+      const sources = [
+        { url: "http://m3uprovider.com/a.m3u", name: "A", groupPrefix: "A: " },
+        { url: "http://m3uprovider.com/b.m3u", name: "B" },
+      ];
+      const mockConfigFile: config.ConfigFile = {
+        profiles: [{ key: "tv", value: { sources, sourceFailure: "fail-closed" } }],
+      };
+      mockGetConfig.mockReturnValue(mockConfigFile);
+
+      await callGetm3uHandlerWithProfile(mockResponse, { profile: "tv" });
+
+      expect(mockBuildPlaylist).toHaveBeenCalledWith(
+        expect.objectContaining({ sources, sourceFailure: "fail-closed" })
+      );
+    });
+
+    it("reports sources that could not be fetched", async () => {
+      mockBuildPlaylist.mockReset();
+      mockBuildPlaylist.mockResolvedValueOnce({ ...builtPlaylist, failedSources: ["B"] });
+
+      await callGetm3uHandlerWithUrl(mockResponse, { url: "http://m3uprovider.com/get.php?id=2" });
+
+      expect(mockResponse.statusCode).toBe(200);
+      expect(mockResponse._getHeaders()["x-failed-sources"]).toBe("B");
+      expect(mockResponse._getHeaders()["warning"]).toBe('199 - "Some sources could not be fetched"');
+    });
+
+    it("returns 502 when the sources cannot be fetched", async () => {
+      mockBuildPlaylist.mockReset();
+      mockBuildPlaylist.mockRejectedValueOnce(new playlistBuilder.SourceFetchError("Failed to fetch source(s): A"));
+
+      await callGetm3uHandlerWithUrl(mockResponse, { url: "http://m3uprovider.com/get.php?id=2" });
+
+      expect(mockResponse.statusCode).toBe(502);
+    });
+
+    it("tells upstream timeouts and error statuses apart", async () => {
+      mockBuildPlaylist.mockReset();
+      // The mocked class ignores its constructor options, so the cause is set afterwards
+      mockBuildPlaylist.mockRejectedValueOnce(Object.assign(new playlistBuilder.SourceFetchError("Failed to fetch source(s): A"), {
+        cause: new DownloadTimeoutError("Failed to download from http://m3uprovider.com/get.php: no data for 60000 ms"),
+      }));
+      mockBuildPlaylist.mockRejectedValueOnce(Object.assign(new playlistBuilder.SourceFetchError("Failed to fetch source(s): A"), {
+        cause: new HttpStatusError("Failed to download from http://m3uprovider.com/get.php: 403", 403),
+      }));
+
+      await callGetm3uHandlerWithUrl(mockResponse, { url: "http://m3uprovider.com/get.php?id=2" });
+      expect(mockResponse.statusCode).toBe(504);
+
+      mockResponse = createResponse();
+      await callGetm3uHandlerWithUrl(mockResponse, { url: "http://m3uprovider.com/get.php?id=2" });
+      expect(mockResponse.statusCode).toBe(502);
+      expect(mockResponse._getJSONData()).toEqual({ error: "Failed to fetch remote playlist", upstreamStatus: 403 });
+    });
+
+    it("returns the playlist as JSON with a matching file name", async () => {
+      mockGetConfigResponse(mockGetConfig, { url: "http://m3uprovider.com/get.php", profileName: "tv", groups: [], exclude: [] });
+      const mockRequest: MockRequest<Request> = createRequest({ method: "GET", url: "/getm3u?profile=tv&format=json" });
+
+      await handleGetm3u({ req: mockRequest, res: mockResponse });
+
+      expect(mockResponse.statusCode).toBe(200);
+      expect(JSON.parse(mockResponse._getData()).entries[0]).toEqual(expect.objectContaining({
+        name: "Channel 1",
+        url: "http://m3uprovider.com/1",
+      }));
+      expect(mockResponse._getHeaders()["content-type"]).toBe("application/json; charset=utf-8");
+      expect(mockResponse._getHeaders()["content-disposition"]).toBe('attachment; filename="tv.json"');
+      expect(mockResponse._getHeaders()["content-description"]).toBeUndefined();
+    });
+
+    it("returns bare EXTINF lines for the m3u8-simple format", async () => {
+      await callGetm3uHandlerWithUrl(mockResponse, { url: "http://m3uprovider.com/get.php?id=2", format: "m3u8-simple" });
+
+      expect(mockResponse._getData()).toBe("#EXTM3U\n#EXTINF:-1,Channel 1\nhttp://m3uprovider.com/1\n");
+      expect(mockResponse._getHeaders()["content-disposition"]).toBe('attachment; filename="playlist.m3u8"');
+    });
+
+    it("buffers the playlist when another format is asked for in streaming mode", async () => {
+      await callGetm3uHandlerWithUrl(mockResponse, { url: "http://m3uprovider.com/get.php?id=2", format: "csv", stream: "1" });
+
+      expect(mockBuildPlaylist).toHaveBeenCalled();
+      expect(mockResponse._getData()).toBe("name,group,url,tvg-name\r\nChannel 1,Unknown,http://m3uprovider.com/1,Channel 1\r\n");
+    });
+
+    it("returns 400 for an unknown format", async () => {
+      await callGetm3uHandlerWithUrl(mockResponse, { url: "http://m3uprovider.com/get.php?id=2", format: "xml" });
+
+      expect(mockResponse.statusCode).toBe(400);
+      expect(mockBuildPlaylist).not.toHaveBeenCalled();
+    });
+
+    it("points the announced EPG URL at the filtered guide", async () => {
+      mockBuildPlaylist.mockReset();
+      mockBuildPlaylist.mockResolvedValueOnce({
+        ...builtPlaylist,
+        playlist: { ...builtPlaylist.playlist, headerAttributes: { "url-tvg": "http://m3uprovider.com/epg.xml" } },
+      });
+      const mockRequest: MockRequest<Request> = createRequest({
+        method: "GET",
+        url: "/getm3u?profile=tv",
+        protocol: "http",
+        headers: { host: "m3ufilter:3000" },
+      });
+      mockGetConfigResponse(mockGetConfig, { url: "http://m3uprovider.com/get.php", profileName: "tv", groups: [], exclude: [] });
+
+      await handleGetm3u({ req: mockRequest, res: mockResponse });
+
+      expect(mockResponse._getData()).toMatch(
+        /^#EXTM3U url-tvg="http:\/\/m3ufilter:3000\/getepg\?profile=tv" x-tvg-url="http:\/\/m3ufilter:3000\/getepg\?profile=tv"\n/
+      );
+    });
+
+    it("returns 403 for url requests when they are disabled", async () => {
+      mockGetConfig.mockReturnValue({ urlMode: { enabled: false }, profiles: [] });
+
+      await callGetm3uHandlerWithUrl(mockResponse, { url: "http://m3uprovider.com/get.php" });
+
+      expect(mockResponse.statusCode).toBe(403);
+      expect(mockBuildPlaylist).not.toHaveBeenCalled();
+    });
+
+    it("returns 403 for URLs the url policy does not allow", async () => {
+      mockGetConfig.mockReturnValue({ urlMode: { hosts: ["*.m3uprovider.com"] }, profiles: [] });
+
+      await callGetm3uHandlerWithUrl(mockResponse, { url: "http://169.254.169.254/latest/meta-data/" });
+
+      expect(mockResponse.statusCode).toBe(403);
+      expect(mockResponse._getJSONData()).toEqual({ error: "The host 169.254.169.254 is not allowed" });
+      expect(mockBuildPlaylist).not.toHaveBeenCalled();
+    });
+
+    it("passes the url policy on to the download", async () => {
+      mockGetConfig.mockReturnValue({ urlMode: { schemes: ["https"] }, profiles: [] });
+
+      await callGetm3uHandlerWithUrl(mockResponse, { url: "https://m3uprovider.com/get.php" });
+
+      expect(mockBuildPlaylist).toHaveBeenCalledWith(expect.objectContaining({ urlPolicy: { schemes: ["https"] } }));
+    });
+
+    it("asks for an access token when the config has tokens", async () => {
+      mockGetConfig.mockReturnValue({
+        profiles: [{ key: "tv", value: { url: "http://m3uprovider.com/get.php", tokens: [hashToken("s3cret")] } }],
+      });
+
+      await callGetm3uHandlerWithProfile(mockResponse, { profile: "tv" });
+
+      expect(mockResponse.statusCode).toBe(401);
+      expect(mockResponse._getHeaders()["www-authenticate"]).toBe('Basic realm="m3ufilter", charset="UTF-8"');
+      expect(mockBuildPlaylist).not.toHaveBeenCalled();
+    });
+
+    it("keeps the access token in the announced EPG URL", async () => {
+      mockBuildPlaylist.mockReset();
+      mockBuildPlaylist.mockResolvedValueOnce({
+        ...builtPlaylist,
+        playlist: { ...builtPlaylist.playlist, headerAttributes: { "x-tvg-url": "http://m3uprovider.com/epg.xml" } },
+      });
+      mockGetConfig.mockReturnValue({
+        profiles: [{ key: "tv", value: { url: "http://m3uprovider.com/get.php", tokens: [hashToken("s3cret")] } }],
+      });
+      const mockRequest: MockRequest<Request> = createRequest({
+        method: "GET",
+        url: "/getm3u?profile=tv&token=s3cret",
+        protocol: "http",
+        headers: { host: "m3ufilter:3000" },
+      });
+
+      await handleGetm3u({ req: mockRequest, res: mockResponse });
+
+      expect(mockResponse.statusCode).toBe(200);
+      expect(mockResponse._getData()).toContain('x-tvg-url="http://m3ufilter:3000/getepg?profile=tv&token=s3cret"');
+    });
+
+    it("hides the stream URLs of profiles that proxy streams", async () => {
+      process.env.STREAM_SECRET = "test-secret";
+      mockGetConfig.mockReturnValue({
+        profiles: [{ key: "tv", value: { url: "http://m3uprovider.com/get.php", streamProxy: "pipe" } }],
+      });
+      const mockRequest: MockRequest<Request> = createRequest({
+        method: "GET",
+        url: "/getm3u?profile=tv",
+        protocol: "http",
+        headers: { host: "m3ufilter:3000" },
+      });
+
+      try {
+        await handleGetm3u({ req: mockRequest, res: mockResponse });
+      } finally {
+        delete process.env.STREAM_SECRET;
+        resetStreamKey();
+      }
+
+      expect(mockResponse.statusCode).toBe(200);
+      expect(mockResponse._getData()).toMatch(/\nhttp:\/\/m3ufilter:3000\/stream\/tv\/[\w-]+\n/);
+      expect(mockResponse._getData()).not.toContain("m3uprovider.com");
+    });
+
     it("fails when both profile and url are set", async () => {
       const mockRequest: MockRequest<Request> = createRequest({
         method: "GET",
@@ -157,43 +488,44 @@ describe("m3u handler", () => {
 
 const createMocks = () => {
   const mockResponse = createResponse();
-  const mockDownload = downloader.download as jest.MockedFunction<
-    typeof downloader.download
+  const mockBuildPlaylist = playlistBuilder.buildPlaylist as jest.MockedFunction<
+    typeof playlistBuilder.buildPlaylist
   >;
-  const mockFilterM3u = m3uparser.filterM3u as jest.MockedFunction<
-    typeof m3uparser.filterM3u
+  const mockGetConfig = configStore.getConfig as jest.MockedFunction<
+    typeof configStore.getConfig
   >;
-  const mockLoadConfig = config.loadConfig as jest.MockedFunction<
-    typeof config.loadConfig
-  >;
-  mockDownload.mockReset();
-  mockFilterM3u.mockReset();
-  mockLoadConfig.mockReset();
+  mockBuildPlaylist.mockReset();
+  mockGetConfig.mockReset();
+  mockGetConfig.mockReturnValue({ profiles: [] });
   return {
     mockResponse: mockResponse,
-    mockDownload: mockDownload,
-    mockFilterM3u: mockFilterM3u,
-    mockLoadConfig: mockLoadConfig,
+    mockBuildPlaylist: mockBuildPlaylist,
+    mockGetConfig: mockGetConfig,
   };
 };
 
-const mockServerDownloadResponse = (mockDownload) => {
-  const mockDownloadResponse: downloader.DownloadResponse = {
-    data: "DataFile\nAnother Line",
-    headers: { ...getMockedHeaders(), Connection: "test" },
+const mockBuildPlaylistResponse = (mockBuildPlaylist) => {
+  const mockBuiltPlaylist: playlistBuilder.BuiltPlaylist = {
+    playlist: {
+      headerAttributes: {},
+      entries: [{
+        duration: -1,
+        attributes: { "tvg-name": "Channel 1" },
+        title: "Channel 1",
+        directives: [],
+        url: "http://m3uprovider.com/1",
+      }],
+    },
+    headers: { ...getMockedHeaders(), Connection: "test" } as playlistBuilder.BuiltPlaylist["headers"],
+    cacheStatus: "MISS",
+    failedSources: [],
   };
-  mockDownload.mockResolvedValueOnce(mockDownloadResponse);
-  return mockDownloadResponse;
-};
-
-const mockFilterM3uResponse = (mockFilterM3u) => {
-  const mockParsedM3uFileContents = "FilteredResponse\nAnother Line";
-  mockFilterM3u.mockReturnValueOnce(mockParsedM3uFileContents);
-  return mockParsedM3uFileContents;
+  mockBuildPlaylist.mockResolvedValueOnce(mockBuiltPlaylist);
+  return mockBuiltPlaylist;
 };
 
-const mockLoadConfigResponse = (
-  mockLoadConfig,
+const mockGetConfigResponse = (
+  mockGetConfig,
   options: { profileName; url; groups; exclude }
 ) => {
   const mockConfigFile: config.ConfigFile = {
@@ -208,12 +540,20 @@ const mockLoadConfigResponse = (
       },
     ],
   };
-  mockLoadConfig.mockReturnValueOnce(mockConfigFile);
+  mockGetConfig.mockReturnValue(mockConfigFile);
 };
 
 const callGetm3uHandlerWithUrl = async (
   mockResponse,
-  queryString: { url: string; groups?: string[]; exclude?: string[] }
+  queryString: {
+    url: string;
+    groups?: string[];
+    exclude?: string[] | string;
+    excludeGroups?: string;
+    channels?: string;
+    format?: string;
+    stream?: string;
+  }
 ) => {
   const getParams = new URLSearchParams(
     queryString as unknown as Record<string, string>
@@ -245,7 +585,7 @@ const getMockedHeaders = () => {
     expires: "0",
     "cache-control": "no-cache",
     "content-disposition": 'attachment; filename="test.m3u"',
-    "content-length": "29",
+    "content-length": "75",
   };
 };
 
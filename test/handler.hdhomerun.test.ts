@@ -0,0 +1,101 @@
+import { handleHdHomeRun } from "../src/handler/hdhomerun";
+import { Request } from "express";
+import { createRequest, createResponse, MockRequest } from "node-mocks-http";
+import { hashToken } from "../src/auth";
+import * as playlistBuilder from "../src/playlist-builder";
+import * as config from "../src/config";
+import * as configStore from "../src/config-store";
+jest.mock("../src/playlist-builder");
+jest.mock("../src/config-store");
+
+describe("hdhomerun handler", () => {
+  let mockBuildPlaylist: jest.MockedFunction<typeof playlistBuilder.buildPlaylist>;
+  let mockGetConfig: jest.MockedFunction<typeof configStore.getConfig>;
+
+  beforeEach(() => {
+    mockBuildPlaylist = playlistBuilder.buildPlaylist as jest.MockedFunction<typeof playlistBuilder.buildPlaylist>;
+    mockGetConfig = configStore.getConfig as jest.MockedFunction<typeof configStore.getConfig>;
+    mockBuildPlaylist.mockReset();
+    mockGetConfig.mockReset();
+    const mockConfigFile: config.ConfigFile = {
+      profiles: [
+        { key: "sports", value: { url: "http://m3uprovider.com/get.php", hdhomerun: { tunerCount: 3 }, numbering: true } },
+        { key: "movies", value: { url: "http://m3uprovider.com/get.php" } },
+      ],
+    };
+    mockGetConfig.mockReturnValue(mockConfigFile);
+  });
+
+  it("describes the tuner with URLs under the profile path", async () => {
+    const res = await callHdHomeRunHandler("sports", "discover");
+
+    expect(res.statusCode).toBe(200);
+    expect(res._getJSONData()).toEqual(expect.objectContaining({
+      TunerCount: 3,
+      BaseURL: "http://m3ufilter:3000/hdhomerun/sports",
+      LineupURL: "http://m3ufilter:3000/hdhomerun/sports/lineup.json",
+    }));
+    expect(mockBuildPlaylist).not.toHaveBeenCalled();
+  });
+
+  it("builds the lineup from the filtered playlist of the profile", async () => {
+    mockBuildPlaylist.mockResolvedValueOnce({
+      playlist: {
+        headerAttributes: {},
+        entries: [{
+          duration: -1,
+          attributes: { "tvg-name": "ESPN US", "tvg-chno": "7" },
+          title: "ESPN US",
+          directives: [],
+          url: "http://m3uprovider.com/1",
+        }],
+      },
+      headers: {},
+      cacheStatus: "HIT",
+      failedSources: [],
+    });
+
+    const res = await callHdHomeRunHandler("sports", "lineup");
+
+    expect(mockBuildPlaylist).toHaveBeenCalledWith(expect.objectContaining({ numbering: {}, stateKey: "sports" }));
+    expect(res._getJSONData()).toEqual([{ GuideNumber: "7", GuideName: "ESPN US", URL: "http://m3uprovider.com/1" }]);
+    expect(res._getHeaders()["x-cache"]).toBe("HIT");
+  });
+
+  it("serves the UPnP device description", async () => {
+    const res = await callHdHomeRunHandler("sports", "device");
+
+    expect(res._getHeaders()["content-type"]).toMatch(/^application\/xml/);
+    expect(res._getData()).toContain("<URLBase>http://m3ufilter:3000/hdhomerun/sports</URLBase>");
+  });
+
+  it("keeps an access token given in the device address in the announced URLs", async () => {
+    mockGetConfig.mockReturnValue({
+      profiles: [{ key: "sports", value: { url: "http://m3uprovider.com/get.php", hdhomerun: true, tokens: [hashToken("s3cret")] } }],
+    });
+
+    const res = await callHdHomeRunHandler("sports", "discover", "s3cret");
+
+    expect(res._getJSONData().LineupURL).toBe("http://m3ufilter:3000/hdhomerun/sports/s3cret/lineup.json");
+    expect((await callHdHomeRunHandler("sports", "discover")).statusCode).toBe(401);
+  });
+
+  it("returns 404 for profiles that are not served as a tuner", async () => {
+    expect((await callHdHomeRunHandler("movies", "discover")).statusCode).toBe(404);
+    expect((await callHdHomeRunHandler("missing", "discover")).statusCode).toBe(404);
+  });
+});
+
+const callHdHomeRunHandler = async (profile: string, resource: "discover" | "lineup_status" | "lineup" | "device", token?: string) => {
+  const mockRequest: MockRequest<Request> = createRequest({
+    method: "GET",
+    url: `/hdhomerun/${profile}${token ? `/${token}` : ""}/${resource}`,
+    params: token ? { profile, token } : { profile },
+    protocol: "http",
+    headers: { host: "m3ufilter:3000" },
+  });
+  const mockResponse = createResponse();
+
+  await handleHdHomeRun({ req: mockRequest, res: mockResponse, resource });
+  return mockResponse;
+};
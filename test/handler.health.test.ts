@@ -0,0 +1,104 @@
+import { handleHealthStatus, runDueHealthChecks } from "../src/handler/health";
+import { Request, Response } from "express";
+import { createRequest, createResponse, MockRequest, MockResponse } from "node-mocks-http";
+import { hashToken } from "../src/auth";
+import * as playlistBuilder from "../src/playlist-builder";
+import * as configStore from "../src/config-store";
+import * as stateStore from "../src/state-store";
+jest.mock("../src/playlist-builder");
+jest.mock("../src/config-store");
+jest.mock("../src/state-store");
+
+describe("health handler", () => {
+  const now = Date.parse("2024-01-01T12:00:00.000Z");
+  // Nothing listens on port 1, so the probe fails at once
+  const deadUrl = "http://127.0.0.1:1/live/1.ts";
+  let mockBuildPlaylist: jest.MockedFunction<typeof playlistBuilder.buildPlaylist>;
+  let mockGetConfig: jest.MockedFunction<typeof configStore.getConfig>;
+  let mockReloadState: jest.MockedFunction<typeof stateStore.reloadState>;
+  let mockWriteState: jest.MockedFunction<typeof stateStore.writeState>;
+
+  beforeEach(() => {
+    mockBuildPlaylist = playlistBuilder.buildPlaylist as jest.MockedFunction<typeof playlistBuilder.buildPlaylist>;
+    mockGetConfig = configStore.getConfig as jest.MockedFunction<typeof configStore.getConfig>;
+    mockReloadState = stateStore.reloadState as jest.MockedFunction<typeof stateStore.reloadState>;
+    mockWriteState = stateStore.writeState as jest.MockedFunction<typeof stateStore.writeState>;
+    mockBuildPlaylist.mockReset();
+    mockReloadState.mockReset();
+    mockWriteState.mockReset();
+    mockGetConfig.mockReturnValue({
+      adminTokens: [hashToken("admin")],
+      profiles: [
+        { key: "tv", value: { url: "http://m3uprovider.com/get.php", sort: { groups: "name" }, healthCheck: { interval: 3600 } } },
+        { key: "kids", value: { url: "http://m3uprovider.com/get.php" } },
+      ],
+    });
+    mockBuildPlaylist.mockResolvedValue({
+      playlist: {
+        headerAttributes: {},
+        entries: [{ duration: -1, attributes: { "tvg-name": "ESPN" }, title: "ESPN", directives: [], url: deadUrl }],
+      },
+      headers: {},
+      cacheStatus: "MISS",
+      failedSources: [],
+    });
+  });
+
+  describe("when checking profiles in the background", () => {
+    it("checks the unsorted playlist of the profiles that are due", async () => {
+      mockReloadState.mockResolvedValue({ checkedAt: "2024-01-01T10:00:00.000Z", streams: { [deadUrl]: { ok: false, failures: 1, checkedAt: "2024-01-01T10:00:00.000Z" } } });
+
+      await runDueHealthChecks(now);
+
+      expect(mockBuildPlaylist).toHaveBeenCalledTimes(1);
+      expect(mockBuildPlaylist).toHaveBeenCalledWith(expect.objectContaining({ stateKey: "tv", healthCheck: undefined, sort: undefined }));
+      expect(mockWriteState).toHaveBeenCalledWith("health-tv", expect.objectContaining({
+        streams: { [deadUrl]: expect.objectContaining({ name: "ESPN", ok: false, failures: 2 }) },
+      }));
+    });
+
+    it("waits for the interval of the profile", async () => {
+      mockReloadState.mockResolvedValue({ checkedAt: "2024-01-01T11:30:00.000Z", streams: {} });
+
+      await runDueHealthChecks(now);
+
+      expect(mockBuildPlaylist).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("when asked for the status", () => {
+    it("lists the streams of the profile and which are dead", async () => {
+      mockReloadState.mockResolvedValue({
+        checkedAt: "2024-01-01T10:00:00.000Z",
+        streams: { [deadUrl]: { name: "ESPN", ok: false, error: "connect ECONNREFUSED", failures: 3, checkedAt: "2024-01-01T10:00:00.000Z" } },
+      });
+
+      const response = await callHealthStatusHandler("tv", "admin");
+
+      expect(response.statusCode).toBe(200);
+      expect(response._getJSONData()).toEqual({
+        checkedAt: "2024-01-01T10:00:00.000Z",
+        streams: [{ url: deadUrl, name: "ESPN", ok: false, error: "connect ECONNREFUSED", failures: 3, checkedAt: "2024-01-01T10:00:00.000Z", dead: true }],
+      });
+    });
+
+    it("requires an admin token", async () => {
+      expect((await callHealthStatusHandler("tv")).statusCode).toBe(401);
+    });
+
+    it("returns 404 for profiles without health checks", async () => {
+      expect((await callHealthStatusHandler("kids", "admin")).statusCode).toBe(404);
+    });
+  });
+});
+
+const callHealthStatusHandler = async (profile: string, token?: string): Promise<MockResponse<Response>> => {
+  const mockRequest: MockRequest<Request> = createRequest({
+    method: "GET",
+    url: `/status/health/${profile}${token ? `?token=${token}` : ""}`,
+    params: { profile },
+  });
+  const mockResponse = createResponse();
+  await handleHealthStatus({ req: mockRequest, res: mockResponse });
+  return mockResponse;
+};
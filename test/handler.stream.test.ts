@@ -0,0 +1,194 @@
+import { handleStream, handleStreamStatus } from "../src/handler/stream";
+import { Request } from "express";
+import { createRequest, createResponse, MockRequest } from "node-mocks-http";
+import * as configStore from "../src/config-store";
+import { getProxiedUrl, getStreamKey, resetStreamKey, StreamProxyMode } from "../src/stream-proxy";
+import { openStreamSession, resetStreamSessions } from "../src/stream-sessions";
+import { hashToken } from "../src/auth";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { PassThrough } from "stream";
+import { UrlPolicy } from "../src/url-policy";
+jest.mock("../src/config-store");
+
+describe("stream handler", () => {
+  let server: Server;
+  let baseUrl: string;
+  let mockGetConfig: jest.MockedFunction<typeof configStore.getConfig>;
+  let requestedUrls: string[];
+
+  beforeAll(async () => {
+    process.env.STREAM_SECRET = "test-secret";
+    server = createServer((req, res) => {
+      requestedUrls.push(req.url ?? "");
+      if (req.url === "/live/1234.ts") {
+        res.setHeader("Content-Type", "video/mp2t");
+        if (req.headers.range) {
+          res.statusCode = 206;
+          res.setHeader("Content-Range", "bytes 0-4/100");
+        }
+        res.end("video");
+      } else if (req.url === "/live/index.m3u8") {
+        res.setHeader("Content-Type", "application/vnd.apple.mpegurl");
+        res.end("#EXTM3U\n#EXTINF:6.0,\nsegment1.ts\n");
+      } else {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.STREAM_SECRET;
+    resetStreamKey();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mockGetConfig = configStore.getConfig as jest.MockedFunction<typeof configStore.getConfig>;
+    mockGetConfig.mockReset();
+    mockProfile("pipe");
+    resetStreamSessions();
+    requestedUrls = [];
+  });
+
+  it("relays the stream with the range of the player", async () => {
+    const response = await callStreamHandler(await getStreamPath(`${baseUrl}/live/1234.ts`), { range: "bytes=0-4" });
+
+    expect(response.statusCode).toBe(206);
+    expect(response.getHeader("content-type")).toBe("video/mp2t");
+    expect(response.getHeader("content-range")).toBe("bytes 0-4/100");
+    expect(response.body).toBe("video");
+  });
+
+  it("rewrites the segments of HLS playlists to proxied URLs of the same channel", async () => {
+    const path = await getStreamPath(`${baseUrl}/live/index.m3u8`);
+    const response = await callStreamHandler(path);
+    const segmentUrl = getProxiedUrl({ baseUrl: "http://m3ufilter:3000", profileKey: "tv", key: await getStreamKey() }, `${baseUrl}/live/segment1.ts`);
+    const channel = path.split("/")[3].replace(".m3u8", "");
+
+    expect(response.statusCode).toBe(200);
+    expect(response.getHeader("content-type")).toBe("application/vnd.apple.mpegurl");
+    expect(response.body).toBe(`#EXTM3U\n#EXTINF:6.0,\n${segmentUrl}?channel=${channel}\n`);
+  });
+
+  it("returns 503 when the profile already relays its maxConnections streams", async () => {
+    mockProfile("pipe", 1);
+    openStreamSession({ profileKey: "tv", client: "10.0.0.2", channel: "other" }, { maxConnections: 1 }, new AbortController());
+
+    const response = await callStreamHandler(await getStreamPath(`${baseUrl}/live/1234.ts`));
+
+    expect(response.statusCode).toBe(503);
+    expect(JSON.parse(response.body)).toEqual({ error: "Profile tv already has 1 of 1 streams open" });
+  });
+
+  it("lists the open streams to admins", async () => {
+    mockGetConfig.mockReturnValue({
+      adminTokens: [hashToken("admin")],
+      profiles: [{ key: "tv", value: { url: `${baseUrl}/get.php`, streamProxy: "pipe", maxConnections: 2 } }],
+    });
+    openStreamSession({ profileKey: "tv", client: "10.0.0.2", channel: "abc" }, { maxConnections: 2 }, new AbortController());
+
+    const refused = await callStatusHandler("/status/streams");
+    const response = await callStatusHandler("/status/streams?token=admin");
+
+    expect(refused.statusCode).toBe(401);
+    expect(response.statusCode).toBe(200);
+    expect(response._getJSONData()).toEqual({
+      profiles: [{ profileKey: "tv", openStreams: 1, maxConnections: 2 }],
+      sessions: [expect.objectContaining({ profileKey: "tv", client: "10.0.0.2", channel: "abc", openRequests: 1 })],
+    });
+  });
+
+  it("redirects to the stream in redirect mode", async () => {
+    mockProfile("redirect");
+
+    const response = await callStreamHandler(await getStreamPath(`${baseUrl}/live/1234.ts`));
+
+    expect(response.statusCode).toBe(302);
+    expect(response.getHeader("location")).toBe(`${baseUrl}/live/1234.ts`);
+  });
+
+  it("returns 502 when the stream cannot be downloaded", async () => {
+    const response = await callStreamHandler(await getStreamPath(`${baseUrl}/live/missing.ts`));
+
+    expect(response.statusCode).toBe(502);
+  });
+
+  it("returns 502 without fetching streams and segments on internal addresses by default", async () => {
+    const path = await getStreamPath(`${baseUrl}/live/index.m3u8`);
+    const segmentPath = await getStreamPath(`${baseUrl}/live/segment1.ts`);
+    mockProfile("pipe", undefined, null);
+
+    expect((await callStreamHandler(path)).statusCode).toBe(502);
+    expect((await callStreamHandler(segmentPath)).statusCode).toBe(502);
+    expect(requestedUrls).toHaveLength(0);
+  });
+
+  it("returns 404 for unknown ids and ids of other profiles", async () => {
+    const path = await getStreamPath(`${baseUrl}/live/1234.ts`);
+
+    expect((await callStreamHandler("/stream/tv/abcdef.ts")).statusCode).toBe(404);
+    expect((await callStreamHandler(path.replace("/stream/tv/", "/stream/kids/"))).statusCode).toBe(404);
+  });
+
+  it("returns 404 for profiles that do not proxy streams", async () => {
+    const path = await getStreamPath(`${baseUrl}/live/1234.ts`);
+    mockProfile(undefined);
+
+    expect((await callStreamHandler(path)).statusCode).toBe(404);
+  });
+
+  // The test server is on 127.0.0.1, which the default stream policy refuses; null leaves the policy out
+  const mockProfile = (streamProxy: StreamProxyMode | undefined, maxConnections?: number, streamPolicy: UrlPolicy | null = { allowPrivateAddresses: true }) => {
+    mockGetConfig.mockReturnValue({
+      profiles: [
+        { key: "tv", value: { url: `${baseUrl}/get.php`, streamProxy, maxConnections, streamPolicy: streamPolicy ?? undefined } },
+        { key: "kids", value: { url: `${baseUrl}/get.php`, streamProxy: "pipe", streamPolicy: { allowPrivateAddresses: true } } },
+      ],
+    });
+  };
+});
+
+const getStreamPath = async (url: string): Promise<string> => {
+  return new URL(getProxiedUrl({ baseUrl: "http://m3ufilter:3000", profileKey: "tv", key: await getStreamKey() }, url)).pathname;
+};
+
+const callStatusHandler = async (url: string) => {
+  const mockRequest: MockRequest<Request> = createRequest({ method: "GET", url });
+  const mockResponse = createResponse();
+  await handleStreamStatus({ req: mockRequest, res: mockResponse });
+  return mockResponse;
+};
+
+// Express responses are writable streams, so the handler can pipe into this stand-in
+const callStreamHandler = async (url: string, headers: Record<string, string> = {}) => {
+  const [, , profile, id] = url.split("/");
+  const mockRequest: MockRequest<Request> = createRequest({
+    method: "GET",
+    url,
+    params: { profile, id },
+    protocol: "http",
+    headers: { host: "m3ufilter:3000", ...headers },
+  });
+  const output: Buffer[] = [];
+  const responseHeaders: Record<string, string> = {};
+  const res = Object.assign(new PassThrough(), {
+    statusCode: 200,
+    headersSent: false,
+    set: (name: string, value: string) => { responseHeaders[name.toLowerCase()] = value; return res; },
+    getHeader: (name: string) => responseHeaders[name.toLowerCase()],
+    status: (code: number) => { res.statusCode = code; return res; },
+    json: (body: unknown) => { res.end(JSON.stringify(body)); return res; },
+    send: (body: string) => { res.end(body); return res; },
+    redirect: (code: number, location: string) => { res.statusCode = code; res.set("location", location); res.end(); return res; },
+  });
+  res.on("data", (chunk: Buffer) => output.push(chunk));
+  const finished = new Promise((resolve) => res.on("end", resolve));
+
+  await handleStream({ req: mockRequest, res: res as never });
+  await finished;
+  return { statusCode: res.statusCode, getHeader: res.getHeader, body: Buffer.concat(output).toString("utf-8") };
+};
@@ -0,0 +1,127 @@
+import { handleXtreamApi, handleXtreamPlaylist, handleXtreamStream } from "../src/handler/xtream";
+import { Request } from "express";
+import { createRequest, createResponse, MockRequest } from "node-mocks-http";
+import * as config from "../src/config";
+import * as configStore from "../src/config-store";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { readFileSync } from "fs";
+import * as path from "path";
+jest.mock("../src/config-store");
+
+// Runs against a local upstream serving the fixture playlist, through the real playlist builder
+describe("xtream handler", () => {
+  let server: Server;
+  let upstreamUrl: string;
+  let mockGetConfig: jest.MockedFunction<typeof configStore.getConfig>;
+  const credentials = { username: "fan", password: "s3cret" };
+
+  beforeAll(async () => {
+    const playlist = loadResource("m3uxtream.m3u");
+    server = createServer((req, res) => {
+      res.setHeader("Content-Type", "application/x-mpegurl");
+      res.end(playlist);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    upstreamUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/get.php`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mockGetConfig = configStore.getConfig as jest.MockedFunction<typeof configStore.getConfig>;
+    mockGetConfig.mockReset();
+    const mockConfigFile: config.ConfigFile = {
+      profiles: [{ key: "sports", value: { url: upstreamUrl, groupsToExclude: ["Adult"], xtream: credentials } }],
+    };
+    mockGetConfig.mockReturnValue(mockConfigFile);
+  });
+
+  it("logs in with the profile credentials", async () => {
+    const res = await callHandler(handleXtreamApi, `/player_api.php?username=fan&password=s3cret`);
+
+    expect(res.statusCode).toBe(200);
+    expect(res._getJSONData().user_info).toEqual(expect.objectContaining({ username: "fan", auth: 1 }));
+    expect(res._getJSONData().server_info).toEqual(expect.objectContaining({ url: "m3ufilter", port: "3000" }));
+  });
+
+  it("rejects wrong credentials", async () => {
+    expect((await callHandler(handleXtreamApi, `/player_api.php?username=fan&password=wrong`)).statusCode).toBe(401);
+    expect((await callHandler(handleXtreamApi, `/player_api.php?action=get_live_streams`)).statusCode).toBe(401);
+  });
+
+  it("lists the categories and streams left after filtering", async () => {
+    const liveCategories = (await callApi("get_live_categories"))._getJSONData();
+    const vodCategories = (await callApi("get_vod_categories"))._getJSONData();
+    const liveStreams = (await callApi("get_live_streams"))._getJSONData();
+    const sportStreams = (await callApi(`get_live_streams&category_id=${liveCategories[0].category_id}`))._getJSONData();
+    const vodStreams = (await callApi("get_vod_streams"))._getJSONData();
+
+    expect(liveCategories.map((category) => category.category_name)).toEqual(["Sport Package", "Canada"]);
+    expect(vodCategories.map((category) => category.category_name)).toEqual(["Movies: Action"]);
+    expect(liveStreams).toHaveLength(3);
+    expect(sportStreams.map((stream) => stream.name)).toEqual(["ESPN US", "FOX Sports"]);
+    expect(vodStreams.map((stream) => stream.name)).toEqual(["The Matrix (1999)", "Heat (1995)"]);
+  });
+
+  it("answers series requests with empty lists and rejects unknown actions", async () => {
+    expect((await callApi("get_series"))._getJSONData()).toEqual([]);
+    expect((await callApi("get_everything")).statusCode).toBe(400);
+  });
+
+  it("redirects stream URLs to the upstream stream", async () => {
+    const [movie] = (await callApi("get_vod_streams"))._getJSONData();
+    const res = createResponse();
+    const req = createRequest({
+      method: "GET",
+      url: `/movie/fan/s3cret/${movie.stream_id}.mkv`,
+      params: { ...credentials, stream: `${movie.stream_id}.mkv` },
+    });
+
+    await handleXtreamStream({ req, res, type: "movie" });
+
+    expect(res.statusCode).toBe(302);
+    expect(res._getRedirectUrl()).toBe("http://m3uprovider.com/movie/u/p/5001.mkv");
+  });
+
+  it("returns 404 for streams that were filtered out", async () => {
+    const res = createResponse();
+    const req = createRequest({ method: "GET", params: { ...credentials, stream: "1.ts" } });
+
+    await handleXtreamStream({ req, res, type: "live" });
+
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("serves the filtered playlist with the guide pointing at xmltv.php", async () => {
+    const res = await callHandler(handleXtreamPlaylist, `/get.php?username=fan&password=s3cret&type=m3u_plus`);
+    const body: string = res._getData();
+
+    expect(body).toMatch(/^#EXTM3U url-tvg="http:\/\/m3ufilter:3000\/xmltv\.php\?username=fan&password=s3cret&type=m3u_plus"/);
+    expect(body).toContain("ESPN US");
+    expect(body).not.toContain("Adult Movie");
+  });
+
+  const callApi = (action: string) => callHandler(handleXtreamApi, `/player_api.php?username=fan&password=s3cret&action=${action}`);
+});
+
+const callHandler = async (handler: typeof handleXtreamApi, url: string) => {
+  const mockRequest: MockRequest<Request> = createRequest({
+    method: "GET",
+    url,
+    protocol: "http",
+    headers: { host: "m3ufilter:3000" },
+  });
+  const mockResponse = createResponse();
+
+  await handler({ req: mockRequest, res: mockResponse });
+  return mockResponse;
+};
+
+const loadResource = (name): string => {
+  const resourcesDir = "resources";
+  const fullFileName = path.resolve(__dirname, resourcesDir, name);
+  return readFileSync(fullFileName, "utf-8");
+};
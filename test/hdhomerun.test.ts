@@ -0,0 +1,68 @@
+import { getDeviceXml, getDiscoverData, getHdHomeRunDevice, getLineup } from "../src/hdhomerun";
+import { M3uEntry, parseM3u } from "../src/m3uparser";
+import { readFileSync } from "fs";
+import * as path from "path";
+
+describe("hdhomerun", () => {
+  const baseUrl = "http://m3ufilter:3000/hdhomerun/sports";
+
+  describe("when describing the device", () => {
+    it("should derive a stable device id from the profile key", () => {
+      const device = getHdHomeRunDevice("sports", {}, baseUrl);
+
+      expect(device.deviceId).toMatch(/^[0-9A-F]{8}$/);
+      expect(getHdHomeRunDevice("sports", {}, baseUrl).deviceId).toBe(device.deviceId);
+      expect(getHdHomeRunDevice("movies", {}, baseUrl).deviceId).not.toBe(device.deviceId);
+      expect(device).toEqual(expect.objectContaining({ friendlyName: "m3ufilter sports", tunerCount: 2 }));
+    });
+
+    it("should use the configured name, id and tuner count", () => {
+      const device = getHdHomeRunDevice("sports", { friendlyName: "Sports", deviceId: "1234abcd", tunerCount: 4 }, baseUrl);
+
+      expect(getDiscoverData(device)).toEqual(expect.objectContaining({
+        FriendlyName: "Sports",
+        DeviceID: "1234ABCD",
+        TunerCount: 4,
+        BaseURL: baseUrl,
+        LineupURL: `${baseUrl}/lineup.json`,
+      }));
+    });
+
+    it("should escape the device description", () => {
+      const device = getHdHomeRunDevice("sports", { friendlyName: "Sports & <News>" }, baseUrl);
+
+      expect(getDeviceXml(device)).toContain("<friendlyName>Sports &amp; &lt;News&gt;</friendlyName>");
+      expect(getDeviceXml(device)).toContain(`<URLBase>${baseUrl}</URLBase>`);
+    });
+  });
+
+  describe("when building the lineup", () => {
+    it("should list every channel with its name and stream URL", () => {
+      const { entries } = parseM3u(loadResource("m3uregular.m3u"));
+      const lineup = getLineup(entries);
+
+      expect(lineup).toHaveLength(entries.length);
+      expect(lineup[0]).toEqual({ GuideNumber: "1", GuideName: "ESPN US", URL: "http://m3uprovider.com:80/channel/129" });
+    });
+
+    it("should take guide numbers from tvg-chno and number the other channels after them", () => {
+      const lineup = getLineup([newEntry("One", "101"), newEntry("Two"), newEntry("Three", "5"), newEntry("Four")]);
+
+      expect(lineup.map((entry) => entry.GuideNumber)).toEqual(["101", "102", "5", "103"]);
+    });
+  });
+});
+
+const newEntry = (name: string, chno?: string): M3uEntry => ({
+  duration: -1,
+  attributes: chno ? { "tvg-name": name, "tvg-chno": chno } : { "tvg-name": name },
+  title: name,
+  directives: [],
+  url: `http://m3uprovider.com/${name}`,
+});
+
+const loadResource = (name): string => {
+  const resourcesDir = "resources";
+  const fullFileName = path.resolve(__dirname, resourcesDir, name);
+  return readFileSync(fullFileName, "utf-8");
+};
@@ -0,0 +1,174 @@
+import { applyStreamHealth, checkStreams, probeStream, ProfileHealth } from "../src/health-check";
+import { M3uEntry } from "../src/m3uparser";
+import * as stateStore from "../src/state-store";
+import { getStreamSessions, openStreamSession, resetStreamSessions } from "../src/stream-sessions";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+jest.mock("../src/state-store");
+
+const mockReloadState = stateStore.reloadState as jest.MockedFunction<typeof stateStore.reloadState>;
+const mockWriteState = stateStore.writeState as jest.MockedFunction<typeof stateStore.writeState>;
+
+describe("health check", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  // A fake provider: live streams never end, dead ones answer with errors or error pages
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      switch (req.url) {
+        case "/live/1.ts":
+          res.setHeader("Content-Type", "video/mp2t");
+          res.write(Buffer.alloc(188));
+          break;
+        case "/live/html.ts":
+          res.setHeader("Content-Type", "text/html; charset=utf-8");
+          res.end("<html>Account expired</html>");
+          break;
+        case "/live/empty.ts":
+          res.setHeader("Content-Type", "video/mp2t");
+          res.end();
+          break;
+        case "/live/slow.ts":
+          break;
+        case "/hls/good.m3u8":
+          res.setHeader("Content-Type", "application/vnd.apple.mpegurl");
+          res.end("#EXTM3U\n#EXT-X-TARGETDURATION:6\n#EXTINF:6.0,\nsegment1.ts\n");
+          break;
+        case "/hls/bad.m3u8":
+          res.setHeader("Content-Type", "application/vnd.apple.mpegurl");
+          res.end("#EXTM3U\n");
+          break;
+        default:
+          res.statusCode = 404;
+          res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mockReloadState.mockReset();
+    mockWriteState.mockReset();
+    mockReloadState.mockResolvedValue({ streams: {} });
+    resetStreamSessions();
+  });
+
+  describe("when probing a stream", () => {
+    it("should accept a live stream without waiting for its end", async () => {
+      expect(await probeStream(`${baseUrl}/live/1.ts`, 2000)).toEqual({ ok: true, status: 200, contentType: "video/mp2t" });
+    });
+
+    it("should accept HLS playlists that list segments", async () => {
+      expect(await probeStream(`${baseUrl}/hls/good.m3u8`, 2000)).toEqual({ ok: true, status: 200, contentType: "application/vnd.apple.mpegurl" });
+      expect(await probeStream(`${baseUrl}/hls/bad.m3u8`, 2000)).toEqual(expect.objectContaining({ ok: false, error: "Invalid HLS playlist" }));
+    });
+
+    it("should refuse error statuses, error pages and empty responses", async () => {
+      expect(await probeStream(`${baseUrl}/live/missing.ts`, 2000)).toEqual(expect.objectContaining({ ok: false, error: expect.stringContaining("404") }));
+      expect(await probeStream(`${baseUrl}/live/html.ts`, 2000)).toEqual({
+        ok: false,
+        status: 200,
+        contentType: "text/html; charset=utf-8",
+        error: "Unexpected content type text/html; charset=utf-8",
+      });
+      expect(await probeStream(`${baseUrl}/live/empty.ts`, 2000)).toEqual(expect.objectContaining({ ok: false, error: "Empty response" }));
+    });
+
+    it("should give up after the timeout", async () => {
+      expect(await probeStream(`${baseUrl}/live/slow.ts`, 200)).toEqual({ ok: false, error: "No response within 200 ms" });
+    });
+  });
+
+  describe("when checking the streams of a profile", () => {
+    it("should count consecutive failures and forget streams that are gone", async () => {
+      mockReloadState.mockResolvedValueOnce({
+        streams: {
+          [`${baseUrl}/live/missing.ts`]: { ok: false, failures: 2, checkedAt: "2024-01-01T00:00:00.000Z" },
+          [`${baseUrl}/live/1.ts`]: { ok: false, failures: 1, checkedAt: "2024-01-01T00:00:00.000Z" },
+          [`${baseUrl}/live/removed.ts`]: { ok: false, failures: 5, checkedAt: "2024-01-01T00:00:00.000Z" },
+        },
+      });
+
+      const health = await checkStreams("tv", [entry("Missing", `${baseUrl}/live/missing.ts`), entry("One", `${baseUrl}/live/1.ts`)], { concurrency: 2, timeout: 2 });
+
+      expect(health.streams[`${baseUrl}/live/missing.ts`]).toEqual(expect.objectContaining({ name: "Missing", ok: false, failures: 3 }));
+      expect(health.streams[`${baseUrl}/live/1.ts`]).toEqual(expect.objectContaining({ name: "One", ok: true, failures: 0 }));
+      expect(Object.keys(health.streams)).toHaveLength(2);
+      expect(mockWriteState).toHaveBeenCalledWith("health-tv", health);
+    });
+  });
+
+  describe("when the profile limits its streams", () => {
+    it("should count the probes as streams of the profile", async () => {
+      const probing = checkStreams("tv", [entry("Slow", `${baseUrl}/live/slow.ts`)], { timeout: 0.5 }, { limit: { maxConnections: 1 } });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(getStreamSessions()).toEqual([expect.objectContaining({ profileKey: "tv", client: "health-check", channel: `${baseUrl}/live/slow.ts` })]);
+      await probing;
+      expect(getStreamSessions()).toEqual([]);
+    });
+
+    it("should leave the room to players and keep the previous results", async () => {
+      const previous = { ok: false, failures: 2, checkedAt: "2024-01-01T00:00:00.000Z" };
+      mockReloadState.mockResolvedValueOnce({ streams: { [`${baseUrl}/live/missing.ts`]: previous } });
+      openStreamSession({ profileKey: "tv", client: "10.0.0.1", channel: "a" }, { maxConnections: 1 }, new AbortController());
+
+      const health = await checkStreams("tv", [entry("Missing", `${baseUrl}/live/missing.ts`), entry("One", `${baseUrl}/live/1.ts`)], {}, { limit: { maxConnections: 1, onLimit: "replaceOldest" } });
+
+      expect(health.streams).toEqual({ [`${baseUrl}/live/missing.ts`]: previous });
+      expect(getStreamSessions().map(({ client }) => client)).toEqual(["10.0.0.1"]);
+    });
+
+    it("should give way to a player that replaces the probe", async () => {
+      const probing = checkStreams("tv", [entry("Slow", `${baseUrl}/live/slow.ts`)], { timeout: 2 }, { limit: { maxConnections: 1 } });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      openStreamSession({ profileKey: "tv", client: "10.0.0.1", channel: "a" }, { maxConnections: 1, onLimit: "replaceOldest" }, new AbortController());
+
+      expect((await probing).streams).toEqual({});
+    });
+  });
+
+  describe("when applying the results", () => {
+    const health: ProfileHealth = {
+      streams: {
+        "http://a.com/1": { ok: false, failures: 3, checkedAt: "2024-01-01T00:00:00.000Z" },
+        "http://a.com/2": { ok: false, failures: 1, checkedAt: "2024-01-01T00:00:00.000Z" },
+      },
+    };
+    let entries: M3uEntry[];
+
+    beforeAll(() => {
+      entries = [entry("ESPN", "http://a.com/1"), entry("CNN", "http://a.com/2"), entry("TSN", "http://a.com/3")];
+    });
+
+    it("should flag dead channels by default", () => {
+      expect(applyStreamHealth(entries, health).map(({ attributes }) => attributes.status)).toEqual(["dead", undefined, undefined]);
+    });
+
+    it("should move dead channels to the dead group", () => {
+      expect(applyStreamHealth(entries, health, { deadChannels: "group" }).map(({ attributes }) => attributes["group-title"]))
+        .toEqual(["Dead", "Sports", "Sports"]);
+      expect(applyStreamHealth(entries, health, { deadChannels: "group", deadGroup: "Offline" })[0].attributes["group-title"]).toBe("Offline");
+    });
+
+    it("should drop channels once they failed enough checks in a row", () => {
+      expect(applyStreamHealth(entries, health, { deadChannels: "drop" }).map(({ title }) => title)).toEqual(["CNN", "TSN"]);
+      expect(applyStreamHealth(entries, health, { deadChannels: "drop", failuresBeforeDead: 1 }).map(({ title }) => title)).toEqual(["TSN"]);
+    });
+  });
+});
+
+const entry = (name: string, url: string): M3uEntry => ({
+  duration: -1,
+  attributes: { "tvg-name": name, "group-title": "Sports" },
+  title: name,
+  directives: [],
+  url,
+});
@@ -1,4 +1,4 @@
-import { filterM3u } from "../src/m3uparser";
+import { createEntryExplainer, filterM3u, M3uPlaylist, parseM3u, serializeEntry, serializeM3u } from "../src/m3uparser";
 import { readFileSync } from "fs";
 import * as path from "path";
 
@@ -104,8 +104,137 @@ describe("m3uparser", () => {
       expect(actualFilteredM3u).toBe(expectedFilteredM3uContents);
     });
   });
+
+  describe("when excluded groups and included channels are specified", () => {
+    it("should drop excluded groups matched case-insensitively or by glob", async () => {
+      const playlist = parseM3u(filterM3u({
+        fileContents: loadResource("m3uregular.m3u"),
+        groupsToExclude: ["canada", "NHL*"],
+      }));
+      expect(getGroups(playlist)).toEqual(["Entertainment & Reality", "France", "Sport Package"]);
+    });
+
+    it("should keep only included channels when no groups are included", async () => {
+      const playlist = parseM3u(filterM3u({
+        fileContents: loadResource("m3uregular.m3u"),
+        channelsToInclude: ["ESPN US", "HGTV"],
+      }));
+      expect(getNames(playlist)).toEqual(["ESPN US", "HGTV East"]);
+    });
+
+    it("should keep included channels regardless of their group", async () => {
+      const playlist = parseM3u(filterM3u({
+        fileContents: loadResource("m3uregular.m3u"),
+        groupsToInclude: ["NHL - National Hockey League"],
+        channelsToInclude: ["CBC Calgary"],
+      }));
+      expect(getNames(playlist)).toEqual(["NHL 4", "CA - CBC Calgary", "NHL 3", "NHL 5"]);
+    });
+
+    it("should keep included channels even from excluded groups", async () => {
+      const playlist = parseM3u(filterM3u({
+        fileContents: loadResource("m3uregular.m3u"),
+        groupsToExclude: ["Canada"],
+        channelsToInclude: ["CBC Calgary"],
+        groupsToInclude: ["Canada", "NHL*"],
+      }));
+      expect(getNames(playlist)).toEqual(["NHL 4", "CA - CBC Calgary", "NHL 3", "NHL 5"]);
+    });
+
+    it("should let excluded channels win over included channels", async () => {
+      const playlist = parseM3u(filterM3u({
+        fileContents: loadResource("m3uregular.m3u"),
+        channelsToInclude: ["ESPN"],
+        channelsToExclude: ["ESPNU"],
+      }));
+      expect(getNames(playlist)).toEqual(["ESPN US", "ESPNews US"]);
+    });
+  });
+
+  describe("when explaining filter decisions", () => {
+    it("should name the list and rule that kept or dropped each entry", async () => {
+      const explain = createEntryExplainer({
+        groupsToInclude: ["Sport*", "Canada"],
+        groupsToExclude: ["Canada"],
+        channelsToInclude: ["CBC Calgary"],
+        channelsToExclude: ["ESPNU"],
+      });
+      const decisions = parseM3u(loadResource("m3uregular.m3u")).entries.map(explain);
+
+      expect(decisions[0]).toEqual({ kept: true, reason: "groupsToInclude", rule: "Sport*" });
+      expect(decisions[2]).toEqual({ kept: false, reason: "notInGroupsToInclude" });
+      expect(decisions[3]).toEqual({ kept: false, reason: "groupsToExclude", rule: "Canada" });
+      expect(decisions[6]).toEqual({ kept: true, reason: "channelsToInclude", rule: "CBC Calgary" });
+      expect(decisions[8]).toEqual({ kept: false, reason: "channelsToExclude", rule: "ESPNU" });
+    });
+
+    it("should tell entries left out of an allow-list from those no list excluded", async () => {
+      const playlist = parseM3u(loadResource("m3uregular.m3u"));
+
+      expect(createEntryExplainer({ channelsToInclude: ["HGTV"] })(playlist.entries[0]))
+        .toEqual({ kept: false, reason: "notInChannelsToInclude" });
+      expect(createEntryExplainer({ channelsToExclude: ["HGTV"] })(playlist.entries[0]))
+        .toEqual({ kept: true, reason: "notExcluded" });
+    });
+  });
+
+  describe("when entries carry directive lines", () => {
+    it("should parse every directive into its entry", async () => {
+      const playlist = parseM3u(loadResource("m3uwithdirectives.m3u"));
+      expect(playlist.headerAttributes).toEqual({
+        "x-tvg-url": "http://epg.example.com/guide.xml",
+        "url-tvg": "http://epg.example.com/guide.xml",
+      });
+      expect(playlist.entries).toHaveLength(4);
+      expect(playlist.entries[0]).toEqual({
+        duration: -1,
+        attributes: { "tvg-id": "10179", "tvg-name": "ESPN US", "group-title": "Sport Package" },
+        title: "ESPN US",
+        directives: ["#EXTVLCOPT:http-user-agent=Mozilla/5.0", "#EXTVLCOPT:http-referrer=http://m3uprovider.com/"],
+        url: "http://m3uprovider.com:80/channel/129",
+      });
+      expect(playlist.entries[2].title).toBe("E!, East");
+      expect(playlist.entries[2].directives).toEqual([
+        "#KODIPROP:inputstream.adaptive.manifest_type=hls",
+        '#EXTHTTP:{"User-Agent":"Mozilla/5.0"}',
+      ]);
+    });
+
+    it("should serialize back without losing lines", async () => {
+      const m3uFileContents = loadResource("m3uregular.m3u");
+      expect(serializeM3u(parseM3u(m3uFileContents))).toBe(m3uFileContents);
+    });
+
+    it("should write bare URLs back without a made-up #EXTINF", async () => {
+      const m3uFileContents = "#EXTM3U\n#EXTVLCOPT:network-caching=1000\nhttp://a.com/1\n#EXTINF:-1,B\nhttp://a.com/2\n";
+      const playlist = parseM3u(m3uFileContents);
+
+      expect(serializeM3u(playlist)).toBe(m3uFileContents);
+      expect(serializeEntry({ ...playlist.entries[0], attributes: { "tvg-chno": "1" } }))
+        .toBe('#EXTINF:-1 tvg-chno="1",\n#EXTVLCOPT:network-caching=1000\nhttp://a.com/1');
+    });
+
+    it("should never split an entry when filtering", async () => {
+      const actualFilteredM3u = filterM3u({
+        fileContents: loadResource("m3uwithdirectives.m3u"),
+        groupsToInclude: ["Sport Package", "Entertainment & Reality"],
+      });
+      const expectedFilteredM3uContents = loadResource(
+        "m3uwithdirectives-filtered.m3u"
+      );
+      expect(actualFilteredM3u).toBe(expectedFilteredM3uContents);
+    });
+  });
 });
 
+const getNames = (playlist: M3uPlaylist): string[] => {
+  return playlist.entries.map((entry) => entry.attributes["tvg-name"]);
+};
+
+const getGroups = (playlist: M3uPlaylist): string[] => {
+  return [...new Set(playlist.entries.map((entry) => entry.attributes["group-title"]))].sort();
+};
+
 const loadResource = (name): string => {
   const resourcesDir = "resources";
   const fullFileName = path.resolve(__dirname, resourcesDir, name);
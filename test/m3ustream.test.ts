@@ -0,0 +1,81 @@
+import { M3UFilterStream } from "../src/m3ustream";
+import { createEntryFilter, filterM3u, M3uEntry } from "../src/m3uparser";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { readFileSync } from "fs";
+import * as path from "path";
+
+describe("m3u filter stream", () => {
+  describe("when filtering a playlist", () => {
+    it("should produce the same output as the buffered filter, whatever the chunk boundaries", async () => {
+      const m3uFileContents = loadResource("m3uwithdirectives.m3u");
+      const options = { groupsToInclude: ["Sport Package", "Entertainment & Reality"] };
+      const expected = filterM3u({ ...options, fileContents: m3uFileContents });
+
+      for (const chunkSize of [1, 7, 64, 4096]) {
+        const actual = await runThroughStream(splitIntoChunks(Buffer.from(m3uFileContents), chunkSize), createEntryFilter(options));
+        expect(actual).toBe(expected);
+      }
+    });
+
+    it("should not break multi-byte characters split across chunks", async () => {
+      const m3uFileContents = '#EXTM3U\n#EXTINF:-1 tvg-name="Éxitos 中央",Éxitos 中央\nhttp://m3uprovider.com/1\n';
+      const actual = await runThroughStream(splitIntoChunks(Buffer.from(m3uFileContents), 1));
+      expect(actual).toBe(m3uFileContents);
+    });
+
+    it("should keep the last entry when the playlist does not end with a newline", async () => {
+      const actual = await runThroughStream([Buffer.from("#EXTM3U\n#EXTINF:-1,One\nhttp://m3uprovider.com/1")]);
+      expect(actual).toBe("#EXTM3U\n#EXTINF:-1,One\nhttp://m3uprovider.com/1\n");
+    });
+
+    it("should write a header for playlists that lack one", async () => {
+      expect(await runThroughStream([Buffer.from("#EXTINF:-1,One\nhttp://m3uprovider.com/1\n")]))
+        .toBe("#EXTM3U\n#EXTINF:-1,One\nhttp://m3uprovider.com/1\n");
+      expect(await runThroughStream([])).toBe("#EXTM3U\n");
+    });
+
+    it("should handle playlists with many entries", async () => {
+      const entryCount = 20000;
+      const generated = Readable.from((function* () {
+        yield "#EXTM3U\n";
+        for (let i = 0; i < entryCount; i++) {
+          yield `#EXTINF:-1 tvg-name="Channel ${i}" group-title="${i % 2 ? "Odd" : "Even"}",Channel ${i}\nhttp://m3uprovider.com/${i}\n`;
+        }
+      })());
+      const actual = await runThroughStream(generated, createEntryFilter({ groupsToInclude: ["Even"] }));
+      expect(actual.match(/#EXTINF/g)).toHaveLength(entryCount / 2);
+    });
+  });
+});
+
+const runThroughStream = async (
+  source: Iterable<Buffer> | Readable,
+  filter?: (entry: M3uEntry) => boolean
+): Promise<string> => {
+  const output: Buffer[] = [];
+  await pipeline(
+    source instanceof Readable ? source : Readable.from(source),
+    new M3UFilterStream({ filter }),
+    async function* (stream: AsyncIterable<Buffer>) {
+      for await (const chunk of stream) {
+        output.push(Buffer.from(chunk));
+      }
+    }
+  );
+  return Buffer.concat(output).toString("utf-8");
+};
+
+const splitIntoChunks = (buffer: Buffer, chunkSize: number): Buffer[] => {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < buffer.length; offset += chunkSize) {
+    chunks.push(buffer.subarray(offset, offset + chunkSize));
+  }
+  return chunks;
+};
+
+const loadResource = (name): string => {
+  const resourcesDir = "resources";
+  const fullFileName = path.resolve(__dirname, resourcesDir, name);
+  return readFileSync(fullFileName, "utf-8");
+};
@@ -0,0 +1,70 @@
+import { assignChannelNumbers } from "../src/numbering";
+import { getEntryName, M3uEntry, parseM3u } from "../src/m3uparser";
+import { readFileSync } from "fs";
+import * as path from "path";
+
+describe("numbering", () => {
+  let entries: M3uEntry[];
+  beforeAll(() => {
+    ({ entries } = parseM3u(loadResource("m3uregular.m3u")));
+  });
+
+  const getNumbers = (numbered: M3uEntry[]) => numbered.map((entry) => Number(entry.attributes["tvg-chno"]));
+
+  it("should number entries in order from the start number", () => {
+    const { entries: numbered } = assignChannelNumbers(entries, { start: 100 });
+
+    expect(getNumbers(numbered)).toEqual(entries.map((_entry, index) => 100 + index));
+    expect(entries[0].attributes["tvg-chno"]).toBeUndefined();
+  });
+
+  it("should number each group from its own start", () => {
+    const { entries: numbered } = assignChannelNumbers(entries, { groupStarts: { "NHL*": 500, Canada: 200 } });
+    const byName = Object.fromEntries(numbered.map((entry) => [getEntryName(entry), Number(entry.attributes["tvg-chno"])]));
+
+    expect([byName["NHL 4"], byName["NHL 3"], byName["NHL 5"]]).toEqual([500, 501, 502]);
+    expect(byName["CA - Global News Saskatoon"]).toBe(200);
+    expect(byName["ESPN US"]).toBe(1);
+  });
+
+  it("should number entries without any name by their URL", () => {
+    const { entries: bare } = parseM3u("#EXTM3U\nhttp://a.com/1\n#EXTINF:-1,\nhttp://a.com/2\n");
+    const { numbers } = assignChannelNumbers(bare);
+
+    expect(numbers).toEqual({ "url:http://a.com/1": 1, "url:http://a.com/2": 2 });
+  });
+
+  it("should keep numbers across refreshes even when channels come and go", () => {
+    const first = assignChannelNumbers(entries, { start: 100 });
+    const espnNumber = first.entries[0].attributes["tvg-chno"];
+
+    // ESPN moves, a channel disappears and a new one is added
+    const refreshed = [...entries.slice(2), entries[0], newEntry("Brand New Channel")];
+    const second = assignChannelNumbers(refreshed, { start: 100 }, first.numbers);
+
+    expect(second.entries.find((entry) => getEntryName(entry) === "ESPN US")?.attributes["tvg-chno"]).toBe(espnNumber);
+    // The missing channel's number (101) stays reserved
+    expect(second.entries[second.entries.length - 1].attributes["tvg-chno"]).toBe(String(100 + entries.length));
+    expect(new Set(getNumbers(second.entries)).size).toBe(refreshed.length);
+  });
+
+  it("should give duplicates different numbers", () => {
+    const { entries: numbered } = assignChannelNumbers([newEntry("ESPN"), newEntry("ESPN")]);
+
+    expect(getNumbers(numbered)).toEqual([1, 2]);
+  });
+});
+
+const newEntry = (name: string): M3uEntry => ({
+  duration: -1,
+  attributes: { "tvg-name": name },
+  title: name,
+  directives: [],
+  url: "http://m3uprovider.com/new",
+});
+
+const loadResource = (name): string => {
+  const resourcesDir = "resources";
+  const fullFileName = path.resolve(__dirname, resourcesDir, name);
+  return readFileSync(fullFileName, "utf-8");
+};
@@ -0,0 +1,125 @@
+import {
+  getOutputSerializer,
+  isOutputFormat,
+  serializeCsv,
+  serializeJson,
+  serializeSimpleM3u,
+  serializeXspf,
+} from "../src/output-formats";
+import { M3uPlaylist, parseM3u } from "../src/m3uparser";
+import { readFileSync } from "fs";
+import * as path from "path";
+
+describe("output formats", () => {
+  let playlist: M3uPlaylist;
+  beforeEach(() => {
+    playlist = parseM3u(loadResource("m3uwithdirectives.m3u"));
+  });
+
+  describe("when serializing to JSON", () => {
+    it("should list the entries with their parsed attributes", () => {
+      const json = JSON.parse(serializeJson(playlist));
+
+      expect(json.headerAttributes).toEqual(playlist.headerAttributes);
+      expect(json.entries).toHaveLength(4);
+      expect(json.entries[0]).toEqual({
+        name: "ESPN US",
+        group: "Sport Package",
+        title: "ESPN US",
+        duration: -1,
+        url: "http://m3uprovider.com:80/channel/129",
+        attributes: { "tvg-id": "10179", "tvg-name": "ESPN US", "group-title": "Sport Package" },
+        directives: ["#EXTVLCOPT:http-user-agent=Mozilla/5.0", "#EXTVLCOPT:http-referrer=http://m3uprovider.com/"],
+      });
+      expect(json.entries[3].group).toBe("Sport Package");
+    });
+
+    it("should include the source and the alternate URLs", () => {
+      playlist.entries[0] = { ...playlist.entries[0], source: "A", alternates: ["http://backup.example.com/129"] };
+
+      const json = JSON.parse(serializeJson(playlist));
+
+      expect(json.entries[0]).toEqual(expect.objectContaining({ source: "A", alternates: ["http://backup.example.com/129"] }));
+    });
+  });
+
+  describe("when serializing to CSV", () => {
+    it("should write a row per entry with a column per attribute", () => {
+      const rows = serializeCsv(playlist).split("\r\n");
+
+      expect(rows[0]).toBe("name,group,url,tvg-id,tvg-name,group-title");
+      expect(rows[1]).toBe("ESPN US,Sport Package,http://m3uprovider.com:80/channel/129,10179,ESPN US,Sport Package");
+      expect(rows[4]).toBe("No Group Channel,Sport Package,http://m3uprovider.com:80/channel/999,NULL,No Group Channel,");
+      expect(rows[5]).toBe("");
+    });
+
+    it("should quote fields with commas, quotes and line breaks", () => {
+      playlist.entries[0].attributes["tvg-name"] = 'ESPN "US"';
+
+      const rows = serializeCsv(playlist).split("\r\n");
+
+      expect(rows[1]).toContain('"ESPN ""US"""');
+      expect(rows[3]).toBe('"E!, East",Entertainment & Reality,http://m3uprovider.com:80/channel/234,61812,"E!, East",Entertainment & Reality');
+    });
+  });
+
+  describe("when serializing to simple M3U", () => {
+    it("should write bare EXTINF lines", () => {
+      expect(serializeSimpleM3u(playlist)).toBe([
+        "#EXTM3U",
+        "#EXTINF:-1,ESPN US",
+        "http://m3uprovider.com:80/channel/129",
+        "#EXTINF:-1,CA - CBC Calgary",
+        "http://m3uprovider.com:80/channel/8213",
+        "#EXTINF:-1,E!, East",
+        "http://m3uprovider.com:80/channel/234",
+        "#EXTINF:-1,No Group Channel",
+        "http://m3uprovider.com:80/channel/999",
+        "",
+      ].join("\n"));
+    });
+  });
+
+  describe("when serializing to XSPF", () => {
+    it("should write a track per entry with its VLC options", () => {
+      const xspf = serializeXspf(playlist);
+
+      expect(xspf).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<playlist xmlns="http:\/\/xspf.org\/ns\/0\/"/);
+      expect(xspf.match(/<track>/g)).toHaveLength(4);
+      expect(xspf).toContain("<location>http://m3uprovider.com:80/channel/129</location>");
+      expect(xspf).toContain("<title>ESPN US</title>");
+      expect(xspf).toContain("<vlc:option>http-user-agent=Mozilla/5.0</vlc:option>");
+      expect(xspf).toContain("<vlc:option>http-referrer=http://m3uprovider.com/</vlc:option>");
+    });
+
+    it("should group the tracks and escape names", () => {
+      playlist.entries[0].attributes["tvg-logo"] = "http://logos.example.com/espn.png?size=1&format=png";
+
+      const xspf = serializeXspf(playlist);
+
+      expect(xspf).toContain("<image>http://logos.example.com/espn.png?size=1&amp;format=png</image>");
+      expect(xspf).toContain('<vlc:node title="Sport Package">\n      <vlc:item tid="0"/>\n      <vlc:item tid="3"/>\n    </vlc:node>');
+      expect(xspf).toContain('<vlc:node title="Entertainment &amp; Reality">');
+    });
+  });
+
+  describe("when looking up a format", () => {
+    it("should know the content type and file extension of each format", () => {
+      expect(getOutputSerializer("json")).toEqual(expect.objectContaining({ contentType: "application/json; charset=utf-8", extension: "json" }));
+      expect(getOutputSerializer("csv")).toEqual(expect.objectContaining({ contentType: "text/csv; charset=utf-8", extension: "csv" }));
+      expect(getOutputSerializer("m3u8-simple")).toEqual(expect.objectContaining({ extension: "m3u8" }));
+      expect(getOutputSerializer("xspf")).toEqual(expect.objectContaining({ contentType: "application/xspf+xml; charset=utf-8" }));
+    });
+
+    it("should reject unknown formats", () => {
+      expect(isOutputFormat("xspf")).toBe(true);
+      expect(isOutputFormat("xml")).toBe(false);
+    });
+  });
+});
+
+const loadResource = (name): string => {
+  const resourcesDir = "resources";
+  const fullFileName = path.resolve(__dirname, resourcesDir, name);
+  return readFileSync(fullFileName, "utf-8");
+};
@@ -0,0 +1,133 @@
+import { clearPlaylistCache, fetchPlaylist } from "../src/playlist-cache";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+
+const PLAYLIST = "#EXTM3U\n#EXTINF:-1,Channel 1\nhttp://m3uprovider.com/1\n";
+const ETAG = '"v1"';
+
+describe("playlist cache", () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: IncomingMessage[];
+  let upstreamDown: boolean;
+  let responseDelayMs: number;
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      requests.push(req);
+      setTimeout(() => {
+        if (upstreamDown) {
+          res.writeHead(503).end();
+        } else if (req.headers["if-none-match"] === ETAG) {
+          res.writeHead(304).end();
+        } else {
+          res.writeHead(200, { "Content-Type": "audio/x-mpegurl", ETag: ETAG }).end(PLAYLIST);
+        }
+      }, responseDelayMs);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    clearPlaylistCache();
+    requests = [];
+    upstreamDown = false;
+    responseDelayMs = 0;
+  });
+
+  it("should serve a fresh copy from cache without contacting the upstream", async () => {
+    const first = await fetchPlaylist({ url: `${baseUrl}/fresh.m3u`, ttlSeconds: 60 });
+    const second = await fetchPlaylist({ url: `${baseUrl}/fresh.m3u`, ttlSeconds: 60 });
+
+    expect(first.cacheStatus).toBe("MISS");
+    expect(second.cacheStatus).toBe("HIT");
+    expect(second.data).toBe(PLAYLIST);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should not serve a copy fetched without the URL policy of the request", async () => {
+    await fetchPlaylist({ url: `${baseUrl}/profile.m3u`, ttlSeconds: 60 });
+
+    // The default policy refuses the loopback address of the test server
+    await expect(fetchPlaylist({ url: `${baseUrl}/profile.m3u`, ttlSeconds: 60, policy: {} })).rejects.toThrow("is internal");
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should cache copies fetched with other download options apart", async () => {
+    await fetchPlaylist({ url: `${baseUrl}/options.m3u`, ttlSeconds: 60 });
+    const second = await fetchPlaylist({ url: `${baseUrl}/options.m3u`, ttlSeconds: 60, request: { userAgent: "VLC/3.0.20" } });
+
+    expect(second.cacheStatus).toBe("MISS");
+    expect(requests[1].headers["user-agent"]).toBe("VLC/3.0.20");
+  });
+
+  it("should revalidate an expired copy with If-None-Match", async () => {
+    await fetchPlaylist({ url: `${baseUrl}/expired.m3u`, ttlSeconds: 0 });
+    const revalidated = await fetchPlaylist({ url: `${baseUrl}/expired.m3u`, ttlSeconds: 0 });
+
+    expect(revalidated.cacheStatus).toBe("REVALIDATED");
+    expect(revalidated.data).toBe(PLAYLIST);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].headers["if-none-match"]).toBe(ETAG);
+  });
+
+  it("should serve a stale copy when the upstream fails", async () => {
+    await fetchPlaylist({ url: `${baseUrl}/stale.m3u`, ttlSeconds: 0 });
+    upstreamDown = true;
+    const stale = await fetchPlaylist({ url: `${baseUrl}/stale.m3u`, ttlSeconds: 0 });
+
+    expect(stale.cacheStatus).toBe("STALE");
+    expect(stale.data).toBe(PLAYLIST);
+  });
+
+  it("should fail when the upstream fails and nothing is cached", async () => {
+    upstreamDown = true;
+    await expect(fetchPlaylist({ url: `${baseUrl}/down.m3u`, ttlSeconds: 0 })).rejects.toThrow();
+  });
+
+  it("should collapse concurrent requests for the same URL into one fetch", async () => {
+    responseDelayMs = 50;
+    const responses = await Promise.all(
+      [1, 2, 3].map(() => fetchPlaylist({ url: `${baseUrl}/concurrent.m3u`, ttlSeconds: 60 }))
+    );
+
+    expect(responses.map((response) => response.data)).toEqual([PLAYLIST, PLAYLIST, PLAYLIST]);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should evict the least recently used playlists once their bytes pass CACHE_MAX_BYTES", async () => {
+    process.env.CACHE_MAX_BYTES = "100";
+    let isolated: typeof import("../src/playlist-cache");
+    jest.isolateModules(() => {
+      isolated = require("../src/playlist-cache");
+    });
+    delete process.env.CACHE_MAX_BYTES;
+    const loads: string[] = [];
+    const fetchSized = (name: string, size: number) => isolated.fetchPlaylist({
+      url: `http://m3uprovider.com/${name}.m3u`,
+      ttlSeconds: 60,
+      load: async () => {
+        loads.push(name);
+        return { data: "#".repeat(size), headers: {} };
+      },
+    });
+
+    await fetchSized("a", 40);
+    await fetchSized("b", 40);
+    await fetchSized("a", 40);
+    await fetchSized("c", 40);
+    await fetchSized("a", 40);
+    await fetchSized("b", 40);
+    await fetchSized("huge", 101);
+    await fetchSized("huge", 101);
+    await fetchSized("a", 40);
+
+    // c pushed out b, the least recently used; huge is never kept and pushes out nothing
+    expect(loads).toEqual(["a", "b", "c", "b", "huge", "huge"]);
+  });
+});
@@ -0,0 +1,124 @@
+import { compileRules, createGroupPatternFinder, InvalidRuleError, parseRuleParam } from "../src/rules";
+import { M3uEntry } from "../src/m3uparser";
+
+describe("rules", () => {
+  describe("when rules are plain strings", () => {
+    it("should match a case-insensitive substring of tvg-name", async () => {
+      const rules = compileRules(["espn"]);
+      expect(rules.findMatch(createEntry({ name: "ESPN US" }))).toBe("espn");
+      expect(rules.findMatch(createEntry({ name: "Sky Sports F1" }))).toBeNull();
+    });
+
+    it("should fall back to the display title when tvg-name is missing", async () => {
+      const rules = compileRules(["MTV"]);
+      expect(rules.findMatch(createEntry({ title: "MTV Classic" }))).toBe("MTV");
+    });
+
+    it("should report which rule of a large list matched", async () => {
+      const rules = compileRules(["Soccer", "MLB", "WWE"]);
+      expect(rules.findMatch(createEntry({ name: "WWE Network" }))).toBe("WWE");
+    });
+
+    it("should treat /pattern/flags as a regex on the channel name", async () => {
+      const rules = compileRules(["/^us: /i"]);
+      expect(rules.findMatch(createEntry({ name: "US: ESPN" }))).toBe("/^us: /i");
+      expect(rules.findMatch(createEntry({ name: "ESPN US: East" }))).toBeNull();
+    });
+
+    it("should treat field:/pattern/ as a case-sensitive regex on that field", async () => {
+      const rules = compileRules(["tvg-id:/^NULL$/"]);
+      expect(rules.findMatch(createEntry({ attributes: { "tvg-id": "NULL" } }))).toBe("tvg-id:/^NULL$/");
+      expect(rules.findMatch(createEntry({ attributes: { "tvg-id": "null" } }))).toBeNull();
+    });
+  });
+
+  describe("when rules are objects", () => {
+    it("should match Unicode script classes", async () => {
+      const rule = { pattern: "\\p{Script=Han}|\\p{Script=Cyrillic}", match: "regex" as const };
+      const rules = compileRules([rule]);
+      expect(rules.findMatch(createEntry({ name: "中央电视台" }))).toBe(rule);
+      expect(rules.findMatch(createEntry({ name: "Первый канал" }))).toBe(rule);
+      expect(rules.findMatch(createEntry({ name: "Éxitos del Momento" }))).toBeNull();
+    });
+
+    it("should accept escapes that only plain regexes allow", async () => {
+      const rule = { pattern: "^US\\-\\_HD$", match: "regex" as const };
+      const rules = compileRules([rule]);
+      expect(rules.findMatch(createEntry({ name: "US-_HD" }))).toBe(rule);
+      expect(compileRules(["/US\\-/"]).findMatch(createEntry({ name: "US-HD" }))).toBe("/US\\-/");
+      // Unless the rule asks for the "u" flag itself
+      expect(() => compileRules(["/US\\-/u"])).toThrow(InvalidRuleError);
+    });
+
+    it("should match exact values of a field", async () => {
+      const rule = { field: "group", pattern: "canada", match: "exact" as const };
+      const rules = compileRules([rule]);
+      expect(rules.findMatch(createEntry({ attributes: { "group-title": "Canada" } }))).toBe(rule);
+      expect(rules.findMatch(createEntry({ attributes: { "group-title": "Canada East" } }))).toBeNull();
+    });
+
+    it("should match globs with per-rule case sensitivity", async () => {
+      const rule = { field: "url", pattern: "*.M3U8", match: "glob" as const, caseSensitive: true };
+      const rules = compileRules([rule]);
+      expect(rules.findMatch(createEntry({ url: "http://host/live.M3U8" }))).toBe(rule);
+      expect(rules.findMatch(createEntry({ url: "http://host/live.m3u8" }))).toBeNull();
+    });
+
+    it("should match any attribute", async () => {
+      const rule = { field: "tvg-logo", pattern: "m3uimg.com" };
+      const rules = compileRules([rule]);
+      expect(rules.findMatch(createEntry({ attributes: { "tvg-logo": "http://static.m3uimg.com/1.png" } }))).toBe(rule);
+    });
+
+    it("should reject invalid rules", async () => {
+      expect(() => compileRules([{ pattern: "(", match: "regex" }])).toThrow(InvalidRuleError);
+      expect(() => compileRules([{ pattern: "x", match: "fuzzy" as never }])).toThrow(InvalidRuleError);
+      expect(() => compileRules([{ pattern: "" }])).toThrow(InvalidRuleError);
+    });
+  });
+
+  describe("when rules come from a query string", () => {
+    it("should accept JSON arrays next to plain strings", async () => {
+      const rules = parseRuleParam(['[{"field":"tvg-id","pattern":"NULL","match":"exact"},"/x/"]', "MLB"]);
+      expect(rules).toEqual([{ field: "tvg-id", pattern: "NULL", match: "exact" }, "/x/", "MLB"]);
+    });
+
+    it("should take values that only look like JSON as plain rules", async () => {
+      expect(parseRuleParam(["[VIP]", "[US] ESPN"])).toEqual(["[VIP]", "[US] ESPN"]);
+    });
+
+    it("should reject malformed JSON", async () => {
+      expect(() => parseRuleParam(["[{"])).toThrow(InvalidRuleError);
+    });
+  });
+
+  describe("when group patterns are matched", () => {
+    it("should return the pattern that matched the group", async () => {
+      const findPattern = createGroupPatternFinder(["Canada", "NHL*", "sport package"]);
+      expect(findPattern("canada")).toBe("Canada");
+      expect(findPattern("NHL - National Hockey League")).toBe("NHL*");
+      expect(findPattern("Sport Package")).toBe("sport package");
+      expect(findPattern("France")).toBeNull();
+      expect(findPattern("")).toBeNull();
+    });
+  });
+});
+
+const createEntry = (options: {
+  name?: string;
+  title?: string;
+  url?: string;
+  attributes?: Record<string, string>;
+}): M3uEntry => {
+  const attributes = { ...options.attributes };
+  if (options.name) {
+    attributes["tvg-name"] = options.name;
+  }
+  return {
+    duration: -1,
+    attributes,
+    title: options.title ?? options.name ?? "",
+    directives: [],
+    url: options.url ?? "http://m3uprovider.com/channel/1",
+  };
+};
@@ -0,0 +1,59 @@
+import { sortEntries } from "../src/sorting";
+import { getEntryGroup, getEntryName, M3uEntry, parseM3u } from "../src/m3uparser";
+import { readFileSync } from "fs";
+import * as path from "path";
+
+describe("sorting", () => {
+  let entries: M3uEntry[];
+  beforeAll(() => {
+    ({ entries } = parseM3u(loadResource("m3uregular.m3u")));
+  });
+
+  it("should keep groups together in order of first appearance by default", () => {
+    const sorted = sortEntries(entries);
+    const groups = [...new Set(entries.map(getEntryGroup))];
+
+    expect(sorted.map(getEntryGroup)).toEqual(
+      groups.flatMap((group) => entries.filter((e) => getEntryGroup(e) === group).map(getEntryGroup))
+    );
+    expect(sorted.filter((e) => getEntryGroup(e) === "Canada")).toEqual(entries.filter((e) => getEntryGroup(e) === "Canada"));
+  });
+
+  it("should order groups as listed in groupsToInclude, unlisted groups last", () => {
+    const sorted = sortEntries(entries, { groups: "config" }, ["Canada", "NHL*"]);
+    const groups = [...new Set(sorted.map(getEntryGroup))];
+
+    expect(groups.slice(0, 2)).toEqual(["Canada", "NHL - National Hockey League"]);
+    expect(groups.slice(2)).toEqual([...new Set(entries.map(getEntryGroup))].filter((g) => !groups.slice(0, 2).includes(g)));
+  });
+
+  it("should sort groups and channels by name, numbers in numeric order", () => {
+    const sorted = sortEntries(entries, { groups: "name", channels: "name" });
+    const canada = sorted.filter((e) => getEntryGroup(e) === "Canada").map(getEntryName);
+    const nhl = sorted.filter((e) => getEntryGroup(e).startsWith("NHL")).map(getEntryName);
+
+    expect(getEntryGroup(sorted[0])).toBe("Canada");
+    expect(canada).toEqual([...canada].sort());
+    expect(nhl).toEqual(["NHL 3", "NHL 4", "NHL 5"]);
+  });
+
+  it("should put pinned channels first in the order they are listed", () => {
+    const sorted = sortEntries(entries, { groups: "name", pinned: ["NHL 5", "/^ESPN/"] });
+
+    expect(sorted.slice(0, 4).map(getEntryName)).toEqual(["NHL 5", "ESPN US", "ESPNews US", "ESPNU"]);
+    expect(sorted).toHaveLength(entries.length);
+  });
+
+  it("should apply custom rules within each group", () => {
+    const sorted = sortEntries(entries, { channels: "name", rules: ["Regina", "Winnipeg"] });
+    const canada = sorted.filter((e) => getEntryGroup(e) === "Canada").map(getEntryName);
+
+    expect(canada.slice(0, 2)).toEqual(["CA - Global News Regina", "CA - Global News Winnipeg"]);
+  });
+});
+
+const loadResource = (name): string => {
+  const resourcesDir = "resources";
+  const fullFileName = path.resolve(__dirname, resourcesDir, name);
+  return readFileSync(fullFileName, "utf-8");
+};
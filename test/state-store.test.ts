@@ -0,0 +1,80 @@
+import { clearStateCache, createState, getStateDir, readState, reloadState, writeState } from "../src/state-store";
+import { mkdtempSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+
+describe("state store", () => {
+  let stateDir: string;
+  const originalEnv = process.env.M3UFILTER_STATE_DIR;
+
+  beforeEach(() => {
+    stateDir = mkdtempSync(path.join(tmpdir(), "m3ufilter-state-"));
+    process.env.M3UFILTER_STATE_DIR = stateDir;
+    clearStateCache();
+  });
+
+  afterEach(() => {
+    rmSync(stateDir, { recursive: true, force: true });
+    if (originalEnv === undefined) {
+      delete process.env.M3UFILTER_STATE_DIR;
+    } else {
+      process.env.M3UFILTER_STATE_DIR = originalEnv;
+    }
+  });
+
+  it("should default to a state directory next to the config file", () => {
+    expect(getStateDir({})).toMatch(/m3ufilter[/\\]state$/);
+    expect(getStateDir({ M3UFILTER_STATE_DIR: stateDir })).toBe(stateDir);
+  });
+
+  it("should return the fallback when nothing was stored", async () => {
+    expect(await readState("missing", { a: 1 })).toEqual({ a: 1 });
+  });
+
+  it("should persist documents and read them back after a restart", async () => {
+    await writeState("numbering-tv", { espn: 101 });
+    clearStateCache();
+
+    expect(JSON.parse(readFileSync(path.join(stateDir, "numbering-tv.json"), "utf-8"))).toEqual({ espn: 101 });
+    expect(await readState("numbering-tv", {})).toEqual({ espn: 101 });
+  });
+
+  it("should apply concurrent writes in order", async () => {
+    await Promise.all([1, 2, 3].map((value) => writeState("counter", { value })));
+    clearStateCache();
+
+    expect(await readState("counter", {})).toEqual({ value: 3 });
+  });
+
+  it("should reload documents that another process rewrote", async () => {
+    await writeState("numbering-tv", { espn: 101 });
+    const loaded = await reloadState("numbering-tv", {});
+
+    expect(await reloadState("numbering-tv", {})).toBe(loaded);
+    writeFileSync(path.join(stateDir, "numbering-tv.json"), JSON.stringify({ espn: 101, cnn: 102 }));
+    // Some file systems only keep whole seconds
+    utimesSync(path.join(stateDir, "numbering-tv.json"), new Date(), new Date(Date.now() + 5000));
+
+    expect(await readState("numbering-tv", {})).toEqual({ espn: 101 });
+    expect(await reloadState("numbering-tv", {})).toEqual({ espn: 101, cnn: 102 });
+  });
+
+  it("should only create documents that do not exist yet", async () => {
+    const results = await Promise.all(["first", "second"].map((key) => createState("stream-key", key)));
+    clearStateCache();
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await readState("stream-key", null)).toBe(results[0] ? "first" : "second");
+    expect(readdirSync(stateDir)).toEqual(["stream-key.json"]);
+  });
+
+  it("should treat a corrupt document as missing", async () => {
+    writeFileSync(path.join(stateDir, "broken.json"), "{not json");
+
+    expect(await readState("broken", [])).toEqual([]);
+  });
+
+  it("should reject names that could escape the state directory", async () => {
+    await expect(writeState("../escape", {})).rejects.toThrow("Invalid state name");
+  });
+});
@@ -0,0 +1,86 @@
+import { randomBytes } from "crypto";
+import { decodeStreamId, encodeStreamId, getProxiedUrl, isHlsPlaylist, proxyEntry, rewriteHlsPlaylist, StreamProxyTarget } from "../src/stream-proxy";
+
+describe("stream proxy", () => {
+  const key = randomBytes(32);
+  const target: StreamProxyTarget = { baseUrl: "http://m3ufilter:3000", profileKey: "tv", key };
+  const url = "http://provider.com/live/user/pass/1234.ts";
+
+  describe("stream ids", () => {
+    it("should open under the profile they were issued for", () => {
+      const id = encodeStreamId(key, "tv", url);
+
+      expect(id).not.toContain("pass");
+      expect(decodeStreamId(key, "tv", id)).toBe(url);
+    });
+
+    it("should stay the same for the same stream", () => {
+      expect(encodeStreamId(key, "tv", url)).toBe(encodeStreamId(key, "tv", url));
+      expect(encodeStreamId(key, "tv", url)).not.toBe(encodeStreamId(key, "tv", "http://provider.com/live/user/pass/1235.ts"));
+    });
+
+    it("should not open under another profile or key, or once altered", () => {
+      const id = encodeStreamId(key, "tv", url);
+      const altered = Buffer.from(id, "base64url");
+      altered[altered.length - 1] ^= 1;
+
+      expect(decodeStreamId(key, "kids", id)).toBeNull();
+      expect(decodeStreamId(randomBytes(32), "tv", id)).toBeNull();
+      expect(decodeStreamId(key, "tv", altered.toString("base64url"))).toBeNull();
+      expect(decodeStreamId(key, "tv", "abc")).toBeNull();
+    });
+  });
+
+  it("should keep the extension of the stream in the proxied URL", () => {
+    expect(getProxiedUrl(target, url)).toMatch(/^http:\/\/m3ufilter:3000\/stream\/tv\/[\w-]+\.ts$/);
+    expect(getProxiedUrl(target, "http://provider.com/live/1234?token=abc")).toMatch(/^http:\/\/m3ufilter:3000\/stream\/tv\/[\w-]+$/);
+  });
+
+  it("should rewrite the stream URLs of an entry and drop its source", () => {
+    const entry = proxyEntry({
+      duration: -1,
+      attributes: { "tvg-name": "Channel 1" },
+      title: "Channel 1",
+      directives: [],
+      url,
+      alternates: ["http://backup.com/user/pass/1234.m3u8"],
+      source: "http://provider.com/get.php?username=user&password=pass",
+    }, target);
+
+    expect(entry.source).toBeUndefined();
+    expect(entry.title).toBe("Channel 1");
+    expect(decodeStreamId(key, "tv", /\/stream\/tv\/([\w-]+)\.ts$/.exec(entry.url)[1])).toBe(url);
+    expect(entry.alternates[0]).toMatch(/\/stream\/tv\/[\w-]+\.m3u8$/);
+  });
+
+  it("should recognize HLS playlists by content type or extension", () => {
+    expect(isHlsPlaylist("http://provider.com/live", "application/vnd.apple.mpegURL")).toBe(true);
+    expect(isHlsPlaylist("http://provider.com/live", "audio/x-mpegurl")).toBe(true);
+    expect(isHlsPlaylist("http://provider.com/live/index.m3u8?token=abc")).toBe(true);
+    expect(isHlsPlaylist("http://provider.com/live/1234.ts", "video/mp2t")).toBe(false);
+  });
+
+  it("should rewrite the URIs of an HLS playlist against its URL", () => {
+    const playlist = [
+      "#EXTM3U",
+      "#EXT-X-KEY:METHOD=AES-128,URI=\"key.bin\"",
+      "#EXTINF:6.0,",
+      "segment1.ts",
+      "",
+      "#EXTINF:6.0,",
+      "http://cdn.com/segment2.ts",
+    ].join("\n");
+
+    const rewritten = rewriteHlsPlaylist(playlist, "http://provider.com/live/index.m3u8", (uri) => `[${uri}]`);
+
+    expect(rewritten).toBe([
+      "#EXTM3U",
+      "#EXT-X-KEY:METHOD=AES-128,URI=\"[http://provider.com/live/key.bin]\"",
+      "#EXTINF:6.0,",
+      "[http://provider.com/live/segment1.ts]",
+      "",
+      "#EXTINF:6.0,",
+      "[http://cdn.com/segment2.ts]",
+    ].join("\n"));
+  });
+});
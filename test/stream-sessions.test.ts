@@ -0,0 +1,98 @@
+import { getStreamSessions, openStreamSession, resetStreamSessions, StreamLimitError } from "../src/stream-sessions";
+
+describe("stream sessions", () => {
+  const limit = { maxConnections: 2 };
+
+  beforeEach(() => {
+    resetStreamSessions();
+    jest.useFakeTimers({ now: new Date("2024-01-01T00:00:00Z") });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const open = (client: string, channel: string, sessionLimit = limit, abort = new AbortController()) => {
+    return openStreamSession({ profileKey: "tv", client, channel }, sessionLimit, abort);
+  };
+
+  it("should refuse new streams once the profile is full", () => {
+    open("10.0.0.1", "a");
+    open("10.0.0.2", "b");
+
+    expect(() => open("10.0.0.3", "c")).toThrow(new StreamLimitError("Profile tv already has 2 of 2 streams open"));
+    expect(() => openStreamSession({ profileKey: "kids", client: "10.0.0.3", channel: "c" }, limit, new AbortController())).not.toThrow();
+  });
+
+  it("should refuse limited streams in the workers of a cluster", () => {
+    process.env.NODE_APP_INSTANCE = "1";
+    try {
+      expect(() => open("10.0.0.1", "a")).toThrow("needs a single instance");
+      expect(() => openStreamSession({ profileKey: "kids", client: "10.0.0.1", channel: "a" }, undefined, new AbortController())).not.toThrow();
+    } finally {
+      delete process.env.NODE_APP_INSTANCE;
+    }
+  });
+
+  it("should free the room of a stream when it ends", () => {
+    const first = open("10.0.0.1", "a");
+    open("10.0.0.2", "b");
+
+    first.release();
+
+    expect(() => open("10.0.0.3", "c")).not.toThrow();
+  });
+
+  it("should count the requests of one player on one channel once", () => {
+    open("10.0.0.1", "a");
+    open("10.0.0.1", "a");
+    open("10.0.0.1", "b");
+
+    expect(getStreamSessions()).toEqual([
+      expect.objectContaining({ client: "10.0.0.1", channel: "a", openRequests: 2 }),
+      expect.objectContaining({ client: "10.0.0.1", channel: "b", openRequests: 1 }),
+    ]);
+  });
+
+  it("should keep HLS sessions between segments until they go idle", () => {
+    const segment = open("10.0.0.1", "a");
+    segment.markHls();
+    segment.countBytes(1000);
+    segment.release();
+    open("10.0.0.2", "b");
+
+    expect(() => open("10.0.0.3", "c")).toThrow(StreamLimitError);
+    expect(getStreamSessions()[0]).toEqual(expect.objectContaining({ channel: "a", hls: true, openRequests: 0, bytes: 1000 }));
+
+    jest.advanceTimersByTime(31 * 1000);
+
+    expect(() => open("10.0.0.3", "c")).not.toThrow();
+  });
+
+  it("should end the oldest stream with replaceOldest", () => {
+    const oldest = new AbortController();
+    open("10.0.0.1", "a", { ...limit, onLimit: "replaceOldest" }, oldest);
+    jest.advanceTimersByTime(1000);
+    open("10.0.0.2", "b", { ...limit, onLimit: "replaceOldest" });
+
+    open("10.0.0.3", "c", { ...limit, onLimit: "replaceOldest" });
+
+    expect(oldest.signal.aborted).toBe(true);
+    expect(getStreamSessions().map(({ channel }) => channel)).toEqual(["b", "c"]);
+  });
+
+  it("should not let a replaced player take the room back while the profile is full", () => {
+    const replaceOldest = { ...limit, onLimit: "replaceOldest" as const };
+    const first = open("10.0.0.1", "a", replaceOldest);
+    jest.advanceTimersByTime(1000);
+    open("10.0.0.2", "b", replaceOldest);
+    const third = open("10.0.0.3", "c", replaceOldest);
+    first.release();
+
+    expect(() => open("10.0.0.1", "a", replaceOldest)).toThrow(StreamLimitError);
+
+    third.release();
+
+    expect(() => open("10.0.0.1", "a", replaceOldest)).not.toThrow();
+  });
+});
@@ -0,0 +1,100 @@
+import { applyTransforms, compileTransforms, InvalidTransformError } from "../src/transforms";
+import { M3uEntry, parseExtinf, parseM3u, serializeExtinf } from "../src/m3uparser";
+import { readFileSync } from "fs";
+import * as path from "path";
+
+describe("transforms", () => {
+  const getEntry = (name: string): M3uEntry => {
+    const entry = parseM3u(loadResource("m3uregular.m3u")).entries.find((e) => e.title === name);
+    if (!entry) {
+      throw new Error(`No entry named ${name} in fixture`);
+    }
+    return entry;
+  };
+
+  describe("when renaming channels", () => {
+    it("should rewrite both the title and tvg-name", () => {
+      const [renamed] = applyTransforms([getEntry("CA - CBC Calgary")], [
+        { rename: { pattern: "^[A-Z]{2} - ", replacement: "" } },
+      ]);
+
+      expect(renamed.title).toBe("CBC Calgary");
+      expect(renamed.attributes["tvg-name"]).toBe("CBC Calgary");
+    });
+
+    it("should support capture groups and custom flags", () => {
+      const [renamed] = applyTransforms([getEntry("NHL 4")], [
+        { rename: { pattern: "^nhl (\\d+)$", replacement: "NHL Game $1", flags: "i" } },
+      ]);
+
+      expect(renamed.title).toBe("NHL Game 4");
+    });
+  });
+
+  describe("when rewriting attributes", () => {
+    it("should only touch entries matching the rule's channels and groups", () => {
+      const entries = [getEntry("CA - CBC Calgary"), getEntry("FR - France24"), getEntry("NHL 4")];
+
+      const transformed = applyTransforms(entries, [
+        { groups: ["Canada", "France"], channels: ["CBC"], set: { "group-title": "News", "tvg-id": "cbc.ca" } },
+      ]);
+
+      expect(transformed.map((e) => e.attributes["group-title"])).toEqual(["News", "France", "NHL - National Hockey League"]);
+      expect(transformed[0].attributes["tvg-id"]).toBe("cbc.ca");
+      expect(transformed[1]).toBe(entries[1]);
+    });
+
+    it("should run rules in order, each seeing the previous result", () => {
+      const transformed = applyTransforms([getEntry("CA - CBC Calgary")], [
+        { set: { "group-title": "Canadian News" } },
+        { groups: ["Canadian*"], remove: ["tvg-logo", "tvg-id"], set: { "tvg-chno": "101" } },
+      ]);
+
+      expect(transformed[0].attributes).toEqual({
+        "tvg-name": "CA - CBC Calgary",
+        "group-title": "Canadian News",
+        "tvg-chno": "101",
+      });
+    });
+
+    it("should not modify the original entry", () => {
+      const entry = getEntry("NHL 4");
+      const before = JSON.parse(JSON.stringify(entry));
+
+      applyTransforms([entry], [{ rename: { pattern: "NHL", replacement: "Hockey" }, remove: ["tvg-logo"] }]);
+
+      expect(entry).toEqual(before);
+    });
+
+    it("should always produce an #EXTINF line that parses back to the same values", () => {
+      const [transformed] = applyTransforms([getEntry("FR - France24")], [
+        { rename: { pattern: "France24", replacement: 'France "24",\nLive' }, set: { "group-title": 'Line\r\nbreak "quoted"' } },
+      ]);
+
+      const line = serializeExtinf(transformed);
+      expect(line).not.toMatch(/[\r\n]/);
+      expect(parseExtinf(line)).toEqual({
+        duration: -1,
+        attributes: { ...transformed.attributes, "tvg-name": "FR - France '24', Live", "group-title": "Line break 'quoted'" },
+        title: transformed.title,
+      });
+    });
+  });
+
+  describe("when a rule is invalid", () => {
+    it.each([
+      [{ rename: { pattern: "(", replacement: "" } }, "Transform 0: invalid rename pattern"],
+      [{ set: { "bad name": "x" } }, "Transform 0: invalid attribute name 'bad name'"],
+      [{ remove: ['x"'] }, "Transform 0: invalid attribute name"],
+    ])("should reject %j", (rule, message) => {
+      expect(() => compileTransforms([rule])).toThrow(InvalidTransformError);
+      expect(() => compileTransforms([rule])).toThrow(message);
+    });
+  });
+});
+
+const loadResource = (name): string => {
+  const resourcesDir = "resources";
+  const fullFileName = path.resolve(__dirname, resourcesDir, name);
+  return readFileSync(fullFileName, "utf-8");
+};
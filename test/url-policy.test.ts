@@ -0,0 +1,102 @@
+import { BlockedUrlError, checkUrl, getGuardedRequestOptions, isInternalAddress } from "../src/url-policy";
+import { download } from "../src/downloader";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import dns, { LookupAddress } from "dns";
+
+describe("url policy", () => {
+  it("should recognize internal addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.10", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:7f00:1", "64:ff9b::a9fe:a9fe", "2002:7f00:1::1"]) {
+      expect(isInternalAddress(address)).toBe(true);
+    }
+    for (const address of ["8.8.8.8", "172.32.0.1", "2001:4860:4860::8888", "example.com"]) {
+      expect(isInternalAddress(address)).toBe(false);
+    }
+  });
+
+  describe("when checking a URL", () => {
+    it("should refuse internal addresses however they are written", () => {
+      for (const url of ["http://127.0.0.1/", "http://2130706433/", "http://0x7f.1/", "http://[::ffff:127.0.0.1]/", "http://169.254.169.254/latest/meta-data/"]) {
+        expect(() => checkUrl(url, {})).toThrow(BlockedUrlError);
+      }
+      expect(() => checkUrl("http://192.168.1.10/playlist.m3u", { allowPrivateAddresses: true })).not.toThrow();
+    });
+
+    it("should only allow the configured schemes", () => {
+      expect(() => checkUrl("ftp://example.com/playlist.m3u", {})).toThrow("URLs with the scheme ftp are not allowed");
+      expect(() => checkUrl("http://example.com/playlist.m3u", { schemes: ["https"] })).toThrow(BlockedUrlError);
+      expect(() => checkUrl("https://example.com/playlist.m3u", { schemes: ["https"] })).not.toThrow();
+    });
+
+    it("should only allow the configured hosts", () => {
+      const policy = { hosts: ["*.provider.com", "iptv.example.org"] };
+
+      expect(() => checkUrl("http://line.provider.com:8080/get.php", policy)).not.toThrow();
+      expect(() => checkUrl("http://IPTV.example.org/get.php", policy)).not.toThrow();
+      expect(() => checkUrl("http://provider.com.evil.net/get.php", policy)).toThrow("The host provider.com.evil.net is not allowed");
+    });
+  });
+
+  describe("when resolving host names", () => {
+    it("should refuse names that resolve to internal addresses", async () => {
+      const { lookup } = getGuardedRequestOptions({});
+
+      const error = await new Promise((resolve) => lookup("localhost", { all: true }, resolve));
+
+      expect(error).toBeInstanceOf(BlockedUrlError);
+    });
+
+    it("should refuse a name when any of its addresses is internal, and names without addresses", async () => {
+      const resolveTo = (addresses: LookupAddress[]) => jest.spyOn(dns, "lookup").mockImplementationOnce(((_hostname, _options, callback) => callback(null, addresses)) as typeof dns.lookup);
+      const { lookup } = getGuardedRequestOptions({});
+
+      resolveTo([{ address: "8.8.8.8", family: 4 }, { address: "10.0.0.1", family: 4 }]);
+      const internal = await new Promise((resolve) => lookup("mixed.example.com", { all: false } as never, resolve));
+      resolveTo([]);
+      const missing = await new Promise((resolve) => lookup("empty.example.com", { all: false } as never, resolve));
+
+      expect(internal).toEqual(new BlockedUrlError("The host mixed.example.com resolves to the internal address 10.0.0.1"));
+      expect(missing).toEqual(expect.objectContaining({ code: "ENOTFOUND" }));
+    });
+
+    it("should answer in the form asked for when the addresses are allowed", async () => {
+      const { lookup } = getGuardedRequestOptions({ allowPrivateAddresses: true });
+
+      const address = await new Promise((resolve) => lookup("localhost", { all: false } as never, (_error, address) => resolve(address)));
+
+      expect(typeof address).toBe("string");
+    });
+  });
+
+  describe("when following redirects", () => {
+    let server: Server;
+    let port: number;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        if (req.url === "/to-other-host") {
+          res.writeHead(302, { location: `http://localhost:${port}/playlist.m3u` }).end();
+        } else {
+          res.end("#EXTM3U\n");
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should check every hop", async () => {
+      const policy = { hosts: ["127.0.0.1"], allowPrivateAddresses: true };
+
+      await expect(download({ url: `http://127.0.0.1:${port}/playlist.m3u`, policy })).resolves.toEqual(expect.objectContaining({ data: "#EXTM3U\n" }));
+      await expect(download({ url: `http://127.0.0.1:${port}/to-other-host`, policy })).rejects.toThrow("The host localhost is not allowed");
+    });
+
+    it("should check the addresses of every connection", async () => {
+      await expect(download({ url: `http://localhost:${port}/playlist.m3u`, policy: {} })).rejects.toThrow("resolves to the internal address");
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { getEpgChannelIds, getPlaylistEpgUrl, getXmlDeclarationCharset, setPlaylistEpgUrl, XmltvFilterStream } from "../src/xmltv";
+import { AutoDecompressStream } from "../src/decompress";
+import { parseM3u } from "../src/m3uparser";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { gzipSync } from "zlib";
+import { readFileSync } from "fs";
+import * as path from "path";
+
+describe("xmltv", () => {
+  describe("when filtering a guide", () => {
+    let guide: string;
+    let expected: string;
+    beforeAll(() => {
+      guide = loadResource("epg.xml");
+      expected = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<!DOCTYPE tv SYSTEM "xmltv.dtd">',
+        '<tv generator-info-name="m3uprovider">',
+        '  <channel id="10179">',
+        "    <display-name>ESPN US</display-name>",
+        "  </channel>",
+        '  <channel id="16485">',
+        "    <display-name>Fox &amp; Friends</display-name>",
+        "  </channel>",
+        '  <programme start="20240101000000 +0000" stop="20240101010000 +0000" channel="10179">',
+        "    <title>SportsCenter</title>",
+        "  </programme>",
+        '  <programme start="20240101010000 +0000" stop="20240101020000 +0000" channel="16485"/>',
+        "</tv>",
+        "",
+      ].join("\n");
+    });
+
+    it("should keep only the channels and programmes of the given ids, whatever the chunk boundaries", async () => {
+      for (const chunkSize of [1, 13, 4096]) {
+        const actual = await runThroughStreams(splitIntoChunks(Buffer.from(guide), chunkSize), new XmltvFilterStream({ channelIds: ["10179", "16485"] }));
+        expect(actual).toBe(expected);
+      }
+    });
+
+    it("should filter gzipped guides", async () => {
+      const gzipped = gzipSync(Buffer.from(guide));
+      for (const chunkSize of [1, 4096]) {
+        const actual = await runThroughStreams(
+          splitIntoChunks(gzipped, chunkSize),
+          new AutoDecompressStream(),
+          new XmltvFilterStream({ channelIds: ["10179", "16485"] })
+        );
+        expect(actual).toBe(expected);
+      }
+    });
+
+    it("should match ids case-insensitively and decode entities", async () => {
+      const actual = await runThroughStreams(
+        [Buffer.from('<tv><channel id="AT&amp;T.us"/><channel id="other.us"/></tv>')],
+        new XmltvFilterStream({ channelIds: ["at&t.US"] })
+      );
+      expect(actual).toBe('<tv><channel id="AT&amp;T.us"/></tv>');
+    });
+
+    it("should declare the UTF-8 it sends, whatever the chunk boundaries", async () => {
+      const latin1Guide = Buffer.from("<?xml version='1.0' encoding='ISO-8859-1'?>\n<tv></tv>\n");
+      for (const chunkSize of [1, 4096]) {
+        const actual = await runThroughStreams(splitIntoChunks(latin1Guide, chunkSize), new XmltvFilterStream({ channelIds: [] }));
+        expect(actual).toBe("<?xml version='1.0' encoding='UTF-8'?>\n<tv></tv>\n");
+      }
+    });
+
+    it("should read the charset of the XML declaration", () => {
+      expect(getXmlDeclarationCharset(Buffer.from('<?xml version="1.0" encoding="windows-1251"?><tv>'))).toBe("windows-1251");
+      expect(getXmlDeclarationCharset(Buffer.from('<?xml version="1.0"?><tv>'))).toBeUndefined();
+      expect(getXmlDeclarationCharset(Buffer.from('<?xml version="1.0" encoding="klingon"?>'))).toBeUndefined();
+      expect(getXmlDeclarationCharset(Buffer.from('<tv><!-- encoding="latin1" --></tv>'))).toBeUndefined();
+    });
+
+    it("should fail on a truncated guide", async () => {
+      await expect(runThroughStreams([Buffer.from('<tv><programme channel="1"><title>')], new XmltvFilterStream({ channelIds: ["1"] })))
+        .rejects.toThrow("ends inside a <programme> element");
+    });
+  });
+
+  describe("when reading guide details from a playlist", () => {
+    it("should return the first announced guide URL", () => {
+      expect(getPlaylistEpgUrl({ "url-tvg": "http://epg.com/a.xml, http://epg.com/b.xml" })).toBe("http://epg.com/a.xml");
+      expect(getPlaylistEpgUrl({ "x-tvg-url": "http://epg.com/x.xml", "url-tvg": "http://epg.com/a.xml" })).toBe("http://epg.com/x.xml");
+      expect(getPlaylistEpgUrl({})).toBeNull();
+    });
+
+    it("should replace the announced guide URL", () => {
+      expect(setPlaylistEpgUrl({ "url-tvg": "http://epg.com/a.xml", "tvg-shift": "1" }, "http://m3ufilter/getepg"))
+        .toEqual({ "url-tvg": "http://m3ufilter/getepg", "x-tvg-url": "http://m3ufilter/getepg", "tvg-shift": "1" });
+    });
+
+    it("should collect the channel ids, skipping missing ones", () => {
+      const { entries } = parseM3u(loadResource("m3uregular.m3u"));
+      const ids = getEpgChannelIds(entries);
+
+      expect(ids).toContain("10179");
+      expect(ids).not.toContain("NULL");
+      expect(ids.size).toBe(10);
+    });
+  });
+});
+
+const runThroughStreams = async (chunks: Buffer[], ...streams: Transform[]): Promise<string> => {
+  const output: Buffer[] = [];
+  await pipeline(
+    Readable.from(chunks),
+    ...streams,
+    async function* (stream: AsyncIterable<Buffer>) {
+      for await (const chunk of stream) {
+        output.push(Buffer.from(chunk));
+      }
+    }
+  );
+  return Buffer.concat(output).toString("utf-8");
+};
+
+const splitIntoChunks = (buffer: Buffer, chunkSize: number): Buffer[] => {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < buffer.length; offset += chunkSize) {
+    chunks.push(buffer.subarray(offset, offset + chunkSize));
+  }
+  return chunks;
+};
+
+const loadResource = (name): string => {
+  const resourcesDir = "resources";
+  const fullFileName = path.resolve(__dirname, resourcesDir, name);
+  return readFileSync(fullFileName, "utf-8");
+};
@@ -0,0 +1,144 @@
+import { fetchXtreamSource } from "../src/xtream-source";
+import { buildPlaylist, getSourceName } from "../src/playlist-builder";
+import { XtreamSourceConfig } from "../src/config";
+import { clearPlaylistCache } from "../src/playlist-cache";
+import { getEntryGroup, getEntryName, parseM3u } from "../src/m3uparser";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+
+const CATEGORIES = {
+  live: [
+    { category_id: "1", category_name: "US | Sports", parent_id: 0 },
+    { category_id: "2", category_name: "US | News", parent_id: 0 },
+    { category_id: "3", category_name: "Adult", parent_id: 0 },
+  ],
+  vod: [{ category_id: "10", category_name: "Movies", parent_id: 0 }],
+};
+const STREAMS = {
+  live: [
+    { num: 1, name: "ESPN", stream_id: 101, stream_icon: "http://logos.com/espn.png", epg_channel_id: "espn.us", category_id: "1" },
+    { num: 2, name: "TSN", stream_id: 102, stream_icon: "", epg_channel_id: null, category_id: "1" },
+    { num: 3, name: "CNN", stream_id: 201, stream_icon: "", epg_channel_id: "cnn.us", category_id: "2" },
+    { num: 4, name: "Adult 1", stream_id: 301, stream_icon: "", epg_channel_id: null, category_id: "3" },
+  ],
+  vod: [
+    { num: 1, name: null, stream_id: 5002, stream_icon: "", category_id: "10", container_extension: "mp4" },
+    { num: 2, name: "Heat", stream_id: 5001, stream_icon: "", category_id: "10", container_extension: "mkv" },
+  ],
+};
+
+// Answers like an Xtream panel, for the user "user" with password "pass"
+describe("xtream source", () => {
+  let server: Server;
+  let serverUrl: string;
+  let actions: string[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const action = url.searchParams.get("action") ?? "";
+      actions.push([action, url.searchParams.get("category_id")].filter(Boolean).join(":"));
+      res.setHeader("Content-Type", "application/json");
+      if (url.searchParams.get("username") !== "user" || url.searchParams.get("password") !== "pass") {
+        res.end(JSON.stringify({ user_info: { auth: 0 } }));
+        return;
+      }
+      const [, kind, what] = /^get_(live|vod)_(categories|streams)$/.exec(action) ?? [];
+      if (!kind) {
+        res.statusCode = 400;
+        res.end("[]");
+        return;
+      }
+      const categoryId = url.searchParams.get("category_id");
+      const items = what === "categories" ? CATEGORIES[kind] : STREAMS[kind].filter((stream) => !categoryId || stream.category_id === categoryId);
+      res.end(JSON.stringify(items));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    clearPlaylistCache();
+    actions = [];
+  });
+
+  const newSource = (options: Partial<XtreamSourceConfig> = {}): XtreamSourceConfig => ({
+    type: "xtream",
+    server: `${serverUrl}/`,
+    username: "user",
+    password: "pass",
+    ...options,
+  });
+
+  it("should build a playlist from the panel's streams", async () => {
+    const { entries, headerAttributes } = parseM3u((await fetchXtreamSource(newSource())).data);
+
+    expect(entries.map(getEntryName)).toEqual(["ESPN", "TSN", "CNN", "Adult 1"]);
+    expect(entries[0].attributes).toEqual({
+      "tvg-id": "espn.us",
+      "tvg-name": "ESPN",
+      "tvg-logo": "http://logos.com/espn.png",
+      "group-title": "US | Sports",
+    });
+    expect(entries[0].url).toBe(`${serverUrl}/live/user/pass/101.ts`);
+    expect(headerAttributes["x-tvg-url"]).toBe(`${serverUrl}/xmltv.php?username=user&password=pass`);
+    expect(actions).toEqual(["get_live_categories", "get_live_streams"]);
+  });
+
+  it("should only download the categories the group filters keep", async () => {
+    const { entries } = parseM3u((await fetchXtreamSource(newSource({ groupsToInclude: ["US | *"], groupsToExclude: ["*News"] }))).data);
+
+    expect(entries.map(getEntryName)).toEqual(["ESPN", "TSN"]);
+    expect(actions).toEqual(["get_live_categories", "get_live_streams:1"]);
+  });
+
+  it("should download every category when channels are included by name", async () => {
+    await fetchXtreamSource(newSource({ groupsToInclude: ["US | Sports"], channelsToInclude: ["CNN"] }));
+
+    expect(actions).toEqual(["get_live_categories", "get_live_streams"]);
+  });
+
+  it("should add movies and the chosen live container on request", async () => {
+    const { entries } = parseM3u((await fetchXtreamSource(newSource({ includeVod: true, output: "m3u8" }))).data);
+
+    expect(entries[0].url).toBe(`${serverUrl}/live/user/pass/101.m3u8`);
+    expect(entries[entries.length - 1]).toEqual(expect.objectContaining({ title: "Heat", url: `${serverUrl}/movie/user/pass/5001.mkv` }));
+    expect(entries[entries.length - 2]).toEqual(expect.objectContaining({ title: "", url: `${serverUrl}/movie/user/pass/5002.mp4` }));
+  });
+
+  it("should cache the playlist", async () => {
+    const first = await fetchXtreamSource(newSource(), 60);
+    const second = await fetchXtreamSource(newSource(), 60);
+
+    expect([first.cacheStatus, second.cacheStatus]).toEqual(["MISS", "HIT"]);
+    expect(actions).toHaveLength(2);
+  });
+
+  it("should not share the cached playlist between sources with different request options", async () => {
+    await fetchXtreamSource(newSource(), 60);
+    const other = await fetchXtreamSource(newSource({ request: { userAgent: "VLC/3.0.20" } }), 60);
+
+    expect(other.cacheStatus).toBe("MISS");
+    expect(actions).toHaveLength(4);
+  });
+
+  it("should fail when the panel rejects the login", async () => {
+    await expect(fetchXtreamSource(newSource({ password: "wrong" }))).rejects.toThrow("rejected the login of user");
+  });
+
+  it("should go through the same filters and transforms as M3U sources", async () => {
+    const built = await buildPlaylist({
+      sources: [newSource({ groupsToExclude: ["Adult"], groupPrefix: "Panel: " })],
+      channelsToExclude: ["TSN"],
+      transforms: [{ rename: { pattern: "^CNN$", replacement: "CNN US" } }],
+    });
+
+    expect(built.playlist.entries.map(getEntryName)).toEqual(["ESPN", "CNN US"]);
+    expect(built.playlist.entries.map(getEntryGroup)).toEqual(["Panel: US | Sports", "Panel: US | News"]);
+    expect(getSourceName(newSource())).toBe(serverUrl);
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  buildXtreamCatalog,
+  findXtreamProfile,
+  getXtreamAccountInfo,
+  getXtreamCategories,
+  getXtreamStreams,
+  getXtreamStreamType,
+} from "../src/xtream";
+import { ConfigFile } from "../src/config";
+import { hashToken } from "../src/auth";
+import { M3uEntry, parseM3u } from "../src/m3uparser";
+import { readFileSync } from "fs";
+import * as path from "path";
+
+describe("xtream", () => {
+  let entries: M3uEntry[];
+  beforeAll(() => {
+    ({ entries } = parseM3u(loadResource("m3uxtream.m3u")));
+  });
+
+  describe("when logging in", () => {
+    const config: ConfigFile = {
+      profiles: [
+        { key: "tv", value: { url: "http://m3uprovider.com/get.php" } },
+        { key: "sports", value: { url: "http://m3uprovider.com/get.php", xtream: { username: "fan", password: "s3cret" } } },
+        { key: "news", value: { url: "http://m3uprovider.com/get.php", xtream: { username: "reader", password: hashToken("s3cret") } } },
+      ],
+    };
+
+    it("should find the profile the credentials belong to", () => {
+      expect(findXtreamProfile(config, { username: "fan", password: "s3cret" })).toBe("sports");
+    });
+
+    it("should compare hashed passwords against the hash of the password", () => {
+      expect(findXtreamProfile(config, { username: "reader", password: "s3cret" })).toBe("news");
+      expect(findXtreamProfile(config, { username: "reader", password: hashToken("s3cret") })).toBeNull();
+      expect(findXtreamProfile(config, { username: "reader", password: "s3cret!" })).toBeNull();
+    });
+
+    it("should reject unknown users and wrong passwords", () => {
+      expect(findXtreamProfile(config, { username: "fan", password: "s3cret!" })).toBeNull();
+      expect(findXtreamProfile(config, { username: "tv", password: "" })).toBeNull();
+    });
+
+    it("should describe the account and the server", () => {
+      const info = getXtreamAccountInfo({ username: "fan", password: "s3cret" }, "https://tv.example.com", new Date("2024-01-01T10:00:00Z"));
+
+      expect(info.user_info).toEqual(expect.objectContaining({ username: "fan", auth: 1, status: "Active" }));
+      expect(info.server_info).toEqual(expect.objectContaining({
+        url: "tv.example.com",
+        https_port: "443",
+        server_protocol: "https",
+        timestamp_now: 1704103200,
+        time_now: "2024-01-01 10:00:00",
+      }));
+    });
+  });
+
+  describe("when building the catalog", () => {
+    it("should tell live channels from movies", () => {
+      expect(entries.map(getXtreamStreamType)).toEqual(["live", "live", "live", "movie", "movie", "movie"]);
+      expect(getXtreamStreamType({ ...entries[0], url: "http://cdn.com/films/heat.mkv?token=1" })).toBe("movie");
+    });
+
+    it("should map groups to categories of each type", () => {
+      const catalog = buildXtreamCatalog(entries);
+
+      expect(getXtreamCategories(catalog, "live").map((category) => category.category_name)).toEqual(["Sport Package", "Canada"]);
+      expect(getXtreamCategories(catalog, "movie").map((category) => category.category_name)).toEqual(["Movies: Action", "Adult"]);
+    });
+
+    it("should keep ids stable when the playlist changes", () => {
+      const catalog = buildXtreamCatalog(entries);
+      const reordered = buildXtreamCatalog([...entries].reverse().slice(1));
+      const idOf = (found: typeof catalog, url: string) => found.streams.find((stream) => stream.entry.url === url)?.id;
+
+      expect(idOf(reordered, entries[0].url)).toBe(idOf(catalog, entries[0].url));
+      expect(new Set(catalog.streams.map((stream) => stream.id)).size).toBe(entries.length);
+      expect(catalog.streams.every((stream) => stream.id > 0 && stream.id <= 0x7fffffff)).toBe(true);
+    });
+
+    it("should list streams with their category, logo and guide id", () => {
+      const catalog = buildXtreamCatalog(entries);
+      const [sports] = getXtreamCategories(catalog, "live");
+      const live = getXtreamStreams(catalog, "live", sports.category_id);
+      const movies = getXtreamStreams(catalog, "movie");
+
+      expect(live).toHaveLength(2);
+      expect(live[0]).toEqual(expect.objectContaining({
+        num: 1,
+        name: "ESPN US",
+        stream_type: "live",
+        stream_icon: "http://static.m3uimg.com/logos/espn.png",
+        epg_channel_id: "10179",
+        category_id: sports.category_id,
+      }));
+      expect(getXtreamStreams(catalog, "live")[2]).toEqual(expect.objectContaining({ epg_channel_id: null }));
+      expect(movies.map((movie) => movie.container_extension)).toEqual(["mkv", "mp4", "mp4"]);
+    });
+  });
+});
+
+const loadResource = (name): string => {
+  const resourcesDir = "resources";
+  const fullFileName = path.resolve(__dirname, resourcesDir, name);
+  return readFileSync(fullFileName, "utf-8");
+};